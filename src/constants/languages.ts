@@ -0,0 +1,19 @@
+import type { LanguageCode } from '@aws-sdk/client-transcribe-streaming';
+import type { ScriptLanguage } from '../types';
+
+// Scripts are written in English; a call in another language falls back to English per script
+export const DEFAULT_LANGUAGE: ScriptLanguage = 'en';
+
+export const SCRIPT_LANGUAGES: ScriptLanguage[] = ['en', 'es'];
+
+// Names used in tip prompts
+export const LANGUAGE_NAMES: Record<ScriptLanguage, string> = {
+  en: 'English',
+  es: 'Spanish',
+};
+
+// AWS Transcribe streaming language of each call language (US English and US Spanish)
+export const TRANSCRIBE_LANGUAGE_CODES: Record<ScriptLanguage, LanguageCode> = {
+  en: 'en-US',
+  es: 'es-US',
+};
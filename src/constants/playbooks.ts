@@ -0,0 +1,17 @@
+import { QUALITY_SCRIPTS } from './quality-scripts';
+import type { Playbook } from '../types';
+
+export const DEFAULT_PLAYBOOK_ID = 'local-web-design';
+
+// The original campaign: local web design, callbacks booked for Bob and his partner.
+// Used when a call names no playbook (or one that is not configured)
+export const DEFAULT_PLAYBOOK: Playbook = {
+  id: DEFAULT_PLAYBOOK_ID,
+  name: 'Local Web Design',
+  company: 'Simple.Biz',
+  offer: 'local website design and SEO',
+  persona: "Mk1 (or Agent), Bob Hansen's assistant at Simple.Biz",
+  goal: 'make the customer agree for a callback from Bob',
+  goalScriptId: 'ask-callback',
+  scripts: QUALITY_SCRIPTS,
+};
@@ -1,13 +1,8 @@
-import { ConversationStage } from '../types';
+import type { QualityScript } from '../types';
 
-export interface QualityScript {
-  id: string;
-  stage: ConversationStage;
-  label: string;
-  text: string;
-  condition?: string; // Description of when to use this
-}
+export type { QualityScript } from '../types';
 
+// Seed of the default playbook's script library (version 1); live edits go through ScriptLibraryService
 export const QUALITY_SCRIPTS: QualityScript[] = [
   // --- GREETING & OPENER ---
   {
@@ -15,14 +10,35 @@ export const QUALITY_SCRIPTS: QualityScript[] = [
     stage: 'GREETING',
     label: 'Audio Check',
     text: "Good morning, can you hear me okay?",
-    condition: 'Start of call'
+    translations: {
+      es: {
+        label: 'Prueba de audio',
+        text: "Buenos días, ¿me escucha bien?"
+      }
+    },
+    condition: 'Start of call',
+    next: [
+      { intent: 'hears', scriptId: 'intro-basic' },
+      { intent: 'asks-who', scriptId: 'intro-locations' }
+    ]
   },
   {
     id: 'intro-basic',
     stage: 'GREETING',
     label: 'Intro',
     text: "My name is [Agent Name], and uh, Bob and I are here; we're local website designers here in [Location].",
-    condition: 'After audio check'
+    translations: {
+      es: {
+        label: 'Presentación',
+        text: "Me llamo [Agent Name], y eh, Bob y yo estamos aquí; somos diseñadores de sitios web locales aquí en [Location]."
+      }
+    },
+    condition: 'After audio check',
+    next: [
+      { intent: 'listening', scriptId: 'hook-affordable' },
+      { intent: 'has-website', scriptId: 'pivot-seo' },
+      { intent: 'not-interested', scriptId: 'obj-busy-or-have' }
+    ]
   },
 
   // --- HOOK / VALUE PROP ---
@@ -31,7 +47,20 @@ export const QUALITY_SCRIPTS: QualityScript[] = [
     stage: 'VALUE_PROP',
     label: 'Affordable Hook',
     text: "We're just wondering if you're interested in building or updating your website, uh, since we're super affordable. Just don't want you to miss out at all.",
-    condition: 'After intro'
+    translations: {
+      es: {
+        label: 'Gancho económico',
+        text: "Solo queríamos saber si le interesa crear o actualizar su sitio web, eh, ya que somos súper económicos. No quisiéramos que se lo perdiera."
+      }
+    },
+    condition: 'After intro',
+    next: [
+      { intent: 'interested', scriptId: 'ask-callback' },
+      { intent: 'has-website', scriptId: 'pivot-seo' },
+      { intent: 'not-interested', scriptId: 'obj-busy-or-have' },
+      { intent: 'asks-source', scriptId: 'trust-source' },
+      { intent: 'hesitant', scriptId: 'pivot-local' }
+    ]
   },
 
   // --- OBJECTION HANDLING ---
@@ -40,7 +69,19 @@ export const QUALITY_SCRIPTS: QualityScript[] = [
     stage: 'OBJECTION_HANDLING',
     label: 'Have One / Busy?',
     text: "Oh, you already got one though, or just busy right now to talk about it?",
-    condition: 'Customer says "Not interested" or "I have one"'
+    translations: {
+      es: {
+        label: '¿Ya tiene uno / Ocupado?',
+        text: "Ah, ¿ya tiene uno, o solo está ocupado ahorita para hablar de eso?"
+      }
+    },
+    condition: 'Customer says "Not interested" or "I have one"',
+    next: [
+      { intent: 'has-website', scriptId: 'pivot-seo' },
+      { intent: 'busy', scriptId: 'ask-callback-fomo' },
+      { intent: 'open', scriptId: 'active-listening' },
+      { intent: 'not-interested', scriptId: 'pivot-digital-marketing' }
+    ]
   },
 
   // --- REBUTTAL / PIVOT (SEO) ---
@@ -49,7 +90,18 @@ export const QUALITY_SCRIPTS: QualityScript[] = [
     stage: 'OBJECTION_HANDLING',
     label: 'SEO Pivot',
     text: "Oh okay. I mean, that's great because we also optimize websites as well, especially with SEO, at super affordable costs.",
-    condition: 'Customer says "I have a website"'
+    translations: {
+      es: {
+        label: 'Giro a SEO',
+        text: "Ah, okay. Bueno, eso es excelente porque también optimizamos sitios web, especialmente con SEO, a costos súper económicos."
+      }
+    },
+    condition: 'Customer says "I have a website"',
+    next: [
+      { intent: 'interested', scriptId: 'ask-callback' },
+      { intent: 'hesitant', scriptId: 'ask-callback-fomo' },
+      { intent: 'ownership-concern', scriptId: 'obj-ip-control' }
+    ]
   },
 
   // --- CLOSING / DISCOVERY ---
@@ -58,35 +110,85 @@ export const QUALITY_SCRIPTS: QualityScript[] = [
     stage: 'CLOSING',
     label: 'Ask for Call',
     text: "I mean, would you mind if I can have Bob or his partner give you a quick call later to talk about improving the look or ranking of your website?",
-    condition: 'After pitch or objection handling'
+    translations: {
+      es: {
+        label: 'Pedir llamada',
+        text: "Bueno, ¿le molestaría si Bob o su socio le hacen una llamada rápida más tarde para hablar de cómo mejorar el diseño o el posicionamiento de su sitio web?"
+      }
+    },
+    condition: 'After pitch or objection handling',
+    next: [
+      { intent: 'agrees', scriptId: 'info-email' },
+      { intent: 'hesitant', scriptId: 'value-pricing' },
+      { intent: 'asks-source', scriptId: 'trust-source' },
+      { intent: 'not-interested', scriptId: 'pivot-revamp' }
+    ]
   },
   {
     id: 'info-email',
     stage: 'CLOSING',
     label: 'Get Email',
     text: "Oh, what's your email?",
-    condition: 'Customer agrees to call'
+    translations: {
+      es: {
+        label: 'Pedir correo',
+        text: "Ah, ¿cuál es su correo electrónico?"
+      }
+    },
+    condition: 'Customer agrees to call',
+    next: [
+      { intent: 'gives-email', scriptId: 'validate-name' }
+    ]
   },
   {
     id: 'validate-name',
     stage: 'CLOSING',
     label: 'Confirm Name',
     text: "And your name is? ... Oh, you're the owner? You're [Customer Name]?",
-    condition: 'Validating lead details'
+    translations: {
+      es: {
+        label: 'Confirmar nombre',
+        text: "¿Y su nombre es? ... Ah, ¿usted es el dueño? ¿Usted es [Customer Name]?"
+      }
+    },
+    condition: 'Validating lead details',
+    next: [
+      { intent: 'is-owner', scriptId: 'decision-maker' },
+      { intent: 'gives-name', scriptId: 'decision-confirm-soft' }
+    ]
   },
   {
     id: 'trust-source',
     stage: 'CLOSING',
     label: 'Source',
     text: "We're scouting small to medium local businesses in the area, so we just got your number off of Google.",
-    condition: 'Customer asks how you got number'
+    translations: {
+      es: {
+        label: 'Origen',
+        text: "Estamos buscando pequeños y medianos negocios locales de la zona, así que encontramos su número en Google."
+      }
+    },
+    condition: 'Customer asks how you got number',
+    next: [
+      { intent: 'reassured', scriptId: 'ask-callback' }
+    ]
   },
   {
     id: 'final-close',
     stage: 'CLOSING',
     label: 'Soft Close',
     text: "And would it be okay, [Customer Name], if I can have either Bob or his partner give you a quick call later? Because they're the ones able to shoot you the email anyway. Should be a quick call.",
-    condition: 'Final confirmation'
+    translations: {
+      es: {
+        label: 'Cierre suave',
+        text: "¿Y estaría bien, [Customer Name], si Bob o su socio le hacen una llamada rápida más tarde? Porque ellos son los que le pueden mandar el correo de todos modos. Sería una llamada rápida."
+      }
+    },
+    condition: 'Final confirmation',
+    next: [
+      { intent: 'agrees', scriptId: 'sign-off-excited' },
+      { intent: 'open-to-options', scriptId: 'sign-off-options' }
+    ]
   },
   // --- SCRIPT 2 VARIATIONS ---
   {
@@ -94,28 +196,68 @@ export const QUALITY_SCRIPTS: QualityScript[] = [
     stage: 'VALUE_PROP',
     label: 'Active Listening',
     text: "Oh, okay, yeah. I mean, that's why we're here... I mean, you said you're open to possibly updating if anything?",
-    condition: 'Customer expresses interest/need'
+    translations: {
+      es: {
+        label: 'Escucha activa',
+        text: "Ah, okay, sí. Bueno, para eso estamos aquí... Bueno, ¿dijo que estaría abierto a actualizarlo si acaso?"
+      }
+    },
+    condition: 'Customer expresses interest/need',
+    next: [
+      { intent: 'interested', scriptId: 'ask-callback' },
+      { intent: 'hesitant', scriptId: 'ask-callback-fomo' }
+    ]
   },
   {
     id: 'pivot-local',
     stage: 'VALUE_PROP',
     label: 'Local Pivot',
     text: "I mean, that's why we're here, because we're just trying to keep everything local here in [Location].",
-    condition: 'Emphasize local connection'
+    translations: {
+      es: {
+        label: 'Giro local',
+        text: "Bueno, para eso estamos aquí, porque queremos mantener todo local aquí en [Location]."
+      }
+    },
+    condition: 'Emphasize local connection',
+    next: [
+      { intent: 'interested', scriptId: 'ask-callback' },
+      { intent: 'hesitant', scriptId: 'ask-callback-fomo' },
+      { intent: 'has-website', scriptId: 'pivot-seo-affirm' }
+    ]
   },
   {
     id: 'value-pricing',
     stage: 'CLOSING',
     label: 'Value Prop',
     text: "So then you can know pricing and all that.",
-    condition: 'Explaining benefit of call'
+    translations: {
+      es: {
+        label: 'Propuesta de valor',
+        text: "Así ya puede conocer los precios y todo eso."
+      }
+    },
+    condition: 'Explaining benefit of call',
+    next: [
+      { intent: 'agrees', scriptId: 'info-email' },
+      { intent: 'hesitant', scriptId: 'ask-callback-fomo' }
+    ]
   },
   {
     id: 'decision-maker',
     stage: 'CLOSING',
     label: 'Decision Maker',
     text: "And [Customer Name], you're the person in charge of the website we could talk to, right? Just to confirm.",
-    condition: 'Confirming authority'
+    translations: {
+      es: {
+        label: 'Quién decide',
+        text: "Y [Customer Name], usted es la persona encargada del sitio web con quien podríamos hablar, ¿verdad? Solo para confirmar."
+      }
+    },
+    condition: 'Confirming authority',
+    next: [
+      { intent: 'confirms', scriptId: 'final-close' }
+    ]
   },
   // --- SCRIPT 3 VARIATIONS (Familiarity / FOMO) ---
   {
@@ -123,35 +265,86 @@ export const QUALITY_SCRIPTS: QualityScript[] = [
     stage: 'GREETING',
     label: 'Familiar Opener',
     text: "Good morning again, can you hear me okay?",
-    condition: 'If re-dialing or establishing familiarity'
+    translations: {
+      es: {
+        label: 'Saludo familiar',
+        text: "Buenos días otra vez, ¿me escucha bien?"
+      }
+    },
+    condition: 'If re-dialing or establishing familiarity',
+    next: [
+      { intent: 'hears', scriptId: 'intro-basic' },
+      { intent: 'asks-who', scriptId: 'intro-locations' }
+    ]
   },
   {
     id: 'intro-locations',
     stage: 'GREETING',
     label: 'Intro (Specific)',
     text: "Real quick though, my name is [Agent Name], and uh, Bob and I are here; we’re local website designers here in [Location].",
-    condition: 'Alternative quick intro'
+    translations: {
+      es: {
+        label: 'Presentación (específica)',
+        text: "Muy rápido, me llamo [Agent Name], y eh, Bob y yo estamos aquí; somos diseñadores de sitios web locales aquí en [Location]."
+      }
+    },
+    condition: 'Alternative quick intro',
+    next: [
+      { intent: 'listening', scriptId: 'hook-affordable' },
+      { intent: 'has-website', scriptId: 'pivot-seo-affirm' },
+      { intent: 'not-interested', scriptId: 'obj-busy-or-have' }
+    ]
   },
   {
     id: 'pivot-seo-affirm',
     stage: 'OBJECTION_HANDLING',
     label: 'SEO Affirmation',
     text: "Yeah, I mean, that’s great that you already have one because we also optimize websites as well, especially with SEO.",
-    condition: 'Stronger validation of existing site'
+    translations: {
+      es: {
+        label: 'Afirmación SEO',
+        text: "Sí, bueno, qué bueno que ya tiene uno porque también optimizamos sitios web, especialmente con SEO."
+      }
+    },
+    condition: 'Stronger validation of existing site',
+    next: [
+      { intent: 'interested', scriptId: 'ask-callback' },
+      { intent: 'wants-details', scriptId: 'ask-pricing-samples' }
+    ]
   },
   {
     id: 'ask-callback-fomo',
     stage: 'CLOSING',
     label: 'Ask + FOMO',
     text: "I mean, would you mind if I can actually have Bob or his partner though give you a quick call later to talk about improving the look or ranking of your website? I mean, should be a quick call anyway; just don't want you to miss out.",
-    condition: 'If customer is hesitant (adds FOMO)'
+    translations: {
+      es: {
+        label: 'Pedir + urgencia',
+        text: "Bueno, ¿le molestaría si Bob o su socio le hacen una llamada rápida más tarde para hablar de cómo mejorar el diseño o el posicionamiento de su sitio web? Bueno, sería una llamada rápida de todos modos; no quisiéramos que se lo perdiera."
+      }
+    },
+    condition: 'If customer is hesitant (adds FOMO)',
+    next: [
+      { intent: 'agrees', scriptId: 'info-email' },
+      { intent: 'asks-source', scriptId: 'trust-source' },
+      { intent: 'not-interested', scriptId: 'pivot-digital-marketing' }
+    ]
   },
   {
     id: 'decision-confirm-soft',
     stage: 'CLOSING',
     label: 'Confirm Decision Maker',
     text: "Oh, you’re the owner? [Customer Name]? ... and you’re the person in charge of the website to talk about later just to confirm?",
-    condition: 'Softer authority check'
+    translations: {
+      es: {
+        label: 'Confirmar quién decide',
+        text: "Ah, ¿usted es el dueño? ¿[Customer Name]? ... ¿y usted es la persona encargada del sitio web para hablar más tarde, solo para confirmar?"
+      }
+    },
+    condition: 'Softer authority check',
+    next: [
+      { intent: 'confirms', scriptId: 'final-close' }
+    ]
   },
   // --- SCRIPT 4 VARIATIONS (Revamp / Options) ---
   {
@@ -159,13 +352,29 @@ export const QUALITY_SCRIPTS: QualityScript[] = [
     stage: 'OBJECTION_HANDLING',
     label: 'Revamp Pivot',
     text: "Oh yeah, I mean, that's great that you already have a website because we also, you know, optimize websites as well or revamping them, especially with SEO.",
-    condition: 'Focus on modernization/revamping'
+    translations: {
+      es: {
+        label: 'Giro a renovación',
+        text: "Ah sí, bueno, qué bueno que ya tiene un sitio web porque también, sabe, optimizamos sitios web o los renovamos, especialmente con SEO."
+      }
+    },
+    condition: 'Focus on modernization/revamping',
+    next: [
+      { intent: 'interested', scriptId: 'ask-callback' },
+      { intent: 'wants-details', scriptId: 'ask-pricing-samples' }
+    ]
   },
   {
     id: 'sign-off-options',
     stage: 'CONVERSION',
     label: 'Sign Off (Options)',
     text: "We'll get back to you later. Have a beautiful day and I'm happy and glad that you're open for options and I'm super excited for you.",
+    translations: {
+      es: {
+        label: 'Despedida (opciones)',
+        text: "Nos comunicamos con usted más tarde. Que tenga un día hermoso; me alegra mucho que esté abierto a opciones y estoy súper emocionado por usted."
+      }
+    },
     condition: 'Customer was open to options'
   },
   // --- SCRIPT 5 VARIATIONS (Digital Marketing / IP Control) ---
@@ -174,34 +383,81 @@ export const QUALITY_SCRIPTS: QualityScript[] = [
     stage: 'GREETING',
     label: 'Targeted Opener',
     text: "Good morning, is [Customer Name] available please?",
-    condition: 'When calling a specific lead'
+    translations: {
+      es: {
+        label: 'Saludo dirigido',
+        text: "Buenos días, ¿se encuentra [Customer Name], por favor?"
+      }
+    },
+    condition: 'When calling a specific lead',
+    next: [
+      { intent: 'speaking', scriptId: 'intro-locations' },
+      { intent: 'asks-who', scriptId: 'intro-basic' }
+    ]
   },
   {
     id: 'pivot-digital-marketing',
     stage: 'OBJECTION_HANDLING',
     label: 'Digital Mktg Pivot',
     text: "Of course yeah. I mean, I was just about to say though [Customer Name], who we are is a whole digital marketing company... and we can actually help you host, maintain or even optimizing it, especially with SEO.",
-    condition: 'Pivot to broad services'
+    translations: {
+      es: {
+        label: 'Giro a marketing digital',
+        text: "Claro que sí. Bueno, justo le iba a decir, [Customer Name], que somos toda una empresa de marketing digital... y de hecho le podemos ayudar a alojarlo, mantenerlo o incluso optimizarlo, especialmente con SEO."
+      }
+    },
+    condition: 'Pivot to broad services',
+    next: [
+      { intent: 'interested', scriptId: 'ask-callback' },
+      { intent: 'ownership-concern', scriptId: 'obj-ip-control' },
+      { intent: 'has-website', scriptId: 'pivot-revamp' }
+    ]
   },
   {
     id: 'ask-pricing-samples',
     stage: 'CLOSING',
     label: 'Ask (Pricing/Samples)',
     text: "I mean, would you mind if I could actually have Bob or his partner give you a quick call later today to talk about pricing and all these samples that you wanted to look at?",
-    condition: 'Focus on deliverables'
+    translations: {
+      es: {
+        label: 'Pedir (precios/muestras)',
+        text: "Bueno, ¿le molestaría si Bob o su socio le hacen una llamada rápida más tarde hoy para hablar de precios y de todas las muestras que quería ver?"
+      }
+    },
+    condition: 'Focus on deliverables',
+    next: [
+      { intent: 'agrees', scriptId: 'info-email' },
+      { intent: 'hesitant', scriptId: 'value-pricing' }
+    ]
   },
   {
     id: 'obj-ip-control',
     stage: 'OBJECTION_HANDLING',
     label: 'IP/Control Assurance',
     text: "Of course yeah. We definitely let our clienteles get full control of their own website. I mean, we believe in having it to all yourself and for your business, that's what we do.",
-    condition: 'Customer worries about ownership'
+    translations: {
+      es: {
+        label: 'Garantía de control',
+        text: "Claro que sí. Nuestros clientes siempre tienen control total de su propio sitio web. Creemos que debe ser todo suyo y de su negocio; eso es lo que hacemos."
+      }
+    },
+    condition: 'Customer worries about ownership',
+    next: [
+      { intent: 'reassured', scriptId: 'ask-callback' },
+      { intent: 'wants-details', scriptId: 'ask-pricing-samples' }
+    ]
   },
   {
     id: 'sign-off-excited',
     stage: 'CONVERSION',
     label: 'Sign Off (Excited)',
     text: "Of course yeah, I'll talk to you later then. Have a beautiful day [Customer Name] and I'm super excited for you. Take care.",
+    translations: {
+      es: {
+        label: 'Despedida (entusiasta)',
+        text: "Claro que sí, hablamos más tarde entonces. Que tenga un día hermoso, [Customer Name], y estoy súper emocionado por usted. Cuídese."
+      }
+    },
     condition: 'High energy sign-off'
   }
 ];
@@ -1,29 +1,26 @@
 import { Request, Response } from 'express';
-import OpenAI from 'openai';
 import { createLogger } from '../utils/logger';
+import type { LLMClient } from '../llm';
 
 const logger = createLogger('ai-controller');
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
 interface GenerateRequest {
   persona: 'sales-coach' | 'skeptical-customer';
   context: string;
   systemPrompt?: string; // Optional override, but we prefer server-side prompts for security
+  conversationId?: string; // Call to record LLM usage against
 }
 
 export class AIController {
-  
+  constructor(private readonly llm: LLMClient) {}
+
   /**
    * Universal AI Generation Endpoint
    * POST /api/ai/generate
    */
   async generate(req: Request, res: Response) {
     try {
-      const { persona, context } = req.body as GenerateRequest;
+      const { persona, context, conversationId } = req.body as GenerateRequest;
 
       if (!context) {
         res.status(400).json({ error: 'Context is required' });
@@ -83,22 +80,15 @@ Instructions:
 
       logger.info(`🤖 Generating AI response for persona: ${persona}`);
 
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
+      // Persona values are call-site defaults; LLM_PERSONA_* overrides them
+      const { content } = await this.llm.complete(
+        'persona',
+        [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: context },
         ],
-        temperature,
-        max_tokens: maxTokens,
-        response_format: persona === 'sales-coach' ? { type: "json_object" } : undefined,
-      });
-
-      const content = response.choices[0]?.message?.content;
-
-      if (!content) {
-        throw new Error('OpenAI returned empty response');
-      }
+        { json: persona === 'sales-coach', temperature, maxTokens, conversationId }
+      );
 
       // Return result
       res.json({ 
@@ -0,0 +1,302 @@
+import { Request, Response } from 'express';
+import { createLogger } from '../utils/logger';
+import { summarizeAdherence } from '../utils/adherence';
+import { parseDate } from '../utils/query-params';
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  renderConversationExport,
+  type ExportFormat,
+} from '../utils/transcript-export';
+import type { ConversationService } from '../services/conversation.service';
+import type { PlaceholderService } from '../services/placeholder.service';
+import type { CoachingState, ConversationQuery } from '../types';
+
+const logger = createLogger('conversation-controller');
+
+const COACHING_STATES: CoachingState[] = [
+  'IDLE',
+  'DISPLAYING_TIP',
+  'CAPTURING_AGENT_RESPONSE',
+  'CAPTURING_CUSTOMER_REACTION',
+  'GENERATING_NEXT',
+];
+
+const MAX_PAGE_SIZE = 200;
+
+export class ConversationController {
+  constructor(
+    private readonly conversationService: ConversationService,
+    private readonly placeholderService: PlaceholderService
+  ) {}
+
+  /**
+   * List conversations
+   * GET /api/conversations?agentId=&state=&status=active|ended&from=&to=&limit=&offset=
+   */
+  async list(req: Request, res: Response) {
+    try {
+      const { agentId, state, status, limit, offset } = req.query;
+      const from = parseDate(req.query.from);
+      const to = parseDate(req.query.to);
+
+      if (from === null || to === null) {
+        res.status(400).json({ success: false, error: 'from and to must be ms timestamps or ISO dates' });
+        return;
+      }
+
+      if (state !== undefined && !COACHING_STATES.includes(state as CoachingState)) {
+        res.status(400).json({ success: false, error: `state must be one of ${COACHING_STATES.join(', ')}` });
+        return;
+      }
+
+      if (status !== undefined && status !== 'active' && status !== 'ended') {
+        res.status(400).json({ success: false, error: 'status must be active or ended' });
+        return;
+      }
+
+      const query: ConversationQuery = {
+        agentId: typeof agentId === 'string' && agentId ? agentId : undefined,
+        state: state as CoachingState | undefined,
+        status: status as ConversationQuery['status'],
+        from,
+        to,
+        limit: Math.min(Math.max(Number(limit) || 50, 1), MAX_PAGE_SIZE),
+        offset: Math.max(Number(offset) || 0, 0),
+      };
+
+      const conversations = await this.conversationService.findConversations(query);
+
+      res.json({
+        success: true,
+        data: conversations.map(({ transcriptHistory: _transcriptHistory, ...conversation }) => conversation),
+        limit: query.limit,
+        offset: query.offset,
+        timestamp: Date.now(),
+      });
+    } catch (error: any) {
+      logger.error('Error listing conversations', { error: error.message });
+      res.status(500).json({ success: false, error: error.message || 'Internal Server Error' });
+    }
+  }
+
+  /**
+   * Get a conversation with its transcript, tips and selections
+   * GET /api/conversations/:id
+   */
+  async get(req: Request, res: Response) {
+    try {
+      const conversationId = req.params.id;
+      const conversation = await this.conversationService.findConversation(conversationId);
+
+      if (!conversation) {
+        res.status(404).json({ success: false, error: 'Conversation not found' });
+        return;
+      }
+
+      const [recommendations, selections, stateTransitions] = await Promise.all([
+        this.conversationService.findRecommendations(conversationId),
+        this.conversationService.findSelections(conversationId),
+        this.conversationService.findStateTransitions(conversationId),
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          conversation,
+          recommendations,
+          selections,
+          stateTransitions,
+        },
+        timestamp: Date.now(),
+      });
+    } catch (error: any) {
+      logger.error('Error fetching conversation', { conversationId: req.params.id, error: error.message });
+      res.status(500).json({ success: false, error: error.message || 'Internal Server Error' });
+    }
+  }
+
+  /**
+   * Get the coaching turns of a conversation
+   * GET /api/conversations/:id/turns
+   */
+  async turns(req: Request, res: Response) {
+    try {
+      const conversationId = req.params.id;
+      const conversation = await this.conversationService.findConversation(conversationId);
+
+      if (!conversation) {
+        res.status(404).json({ success: false, error: 'Conversation not found' });
+        return;
+      }
+
+      const turns = await this.conversationService.findCoachingTurns(conversationId);
+
+      res.json({
+        success: true,
+        data: turns,
+        timestamp: Date.now(),
+      });
+    } catch (error: any) {
+      logger.error('Error fetching coaching turns', { conversationId: req.params.id, error: error.message });
+      res.status(500).json({ success: false, error: error.message || 'Internal Server Error' });
+    }
+  }
+
+  /**
+   * Get script adherence per turn and for the whole call
+   * GET /api/conversations/:id/adherence
+   */
+  async adherence(req: Request, res: Response) {
+    try {
+      const conversationId = req.params.id;
+      const conversation = await this.conversationService.findConversation(conversationId);
+
+      if (!conversation) {
+        res.status(404).json({ success: false, error: 'Conversation not found' });
+        return;
+      }
+
+      const turns = await this.conversationService.findCoachingTurns(conversationId);
+
+      res.json({
+        success: true,
+        data: {
+          summary: summarizeAdherence(turns),
+          turns: turns.map((turn) => ({
+            turnId: turn.id,
+            recommendationId: turn.recommendationId,
+            scriptId: turn.scriptId,
+            selectedScript: turn.selectedScript,
+            agentResponse: turn.agentResponse,
+            adherence: turn.adherence,
+          })),
+        },
+        timestamp: Date.now(),
+      });
+    } catch (error: any) {
+      logger.error('Error fetching adherence', { conversationId: req.params.id, error: error.message });
+      res.status(500).json({ success: false, error: error.message || 'Internal Server Error' });
+    }
+  }
+
+  /**
+   * Get post-call intelligence (summary, sentiment, intents, topics, entities)
+   * GET /api/conversations/:id/intelligence
+   */
+  async intelligence(req: Request, res: Response) {
+    try {
+      const conversationId = req.params.id;
+      const conversation = await this.conversationService.findConversation(conversationId);
+
+      if (!conversation) {
+        res.status(404).json({ success: false, error: 'Conversation not found' });
+        return;
+      }
+
+      if (!conversation.postCallAnalysis) {
+        res.status(404).json({ success: false, error: 'Post-call intelligence not available' });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: conversation.postCallAnalysis,
+        timestamp: Date.now(),
+      });
+    } catch (error: any) {
+      logger.error('Error fetching post-call intelligence', { conversationId: req.params.id, error: error.message });
+      res.status(500).json({ success: false, error: error.message || 'Internal Server Error' });
+    }
+  }
+
+  /**
+   * Get resolved script placeholders (values, sources, unresolved)
+   * GET /api/conversations/:id/placeholders
+   */
+  async placeholders(req: Request, res: Response) {
+    try {
+      const conversationId = req.params.id;
+      const conversation = await this.conversationService.findConversation(conversationId);
+
+      if (!conversation) {
+        res.status(404).json({ success: false, error: 'Conversation not found' });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: this.placeholderService.resolve(conversation),
+        timestamp: Date.now(),
+      });
+    } catch (error: any) {
+      logger.error('Error resolving placeholders', { conversationId: req.params.id, error: error.message });
+      res.status(500).json({ success: false, error: error.message || 'Internal Server Error' });
+    }
+  }
+
+  /**
+   * Set whether the call booked a callback (overrides the outcome recorded at the end of the call)
+   * PUT /api/conversations/:id/outcome { callbackBooked }
+   */
+  async outcome(req: Request, res: Response) {
+    try {
+      const callbackBooked = req.body?.callbackBooked;
+      if (typeof callbackBooked !== 'boolean') {
+        res.status(400).json({ success: false, error: 'callbackBooked must be true or false' });
+        return;
+      }
+
+      const conversation = await this.conversationService.recordOutcome(req.params.id, callbackBooked);
+      if (!conversation) {
+        res.status(404).json({ success: false, error: 'Conversation not found' });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: conversation.outcome,
+        timestamp: Date.now(),
+      });
+    } catch (error: any) {
+      logger.error('Error recording call outcome', { conversationId: req.params.id, error: error.message });
+      res.status(500).json({ success: false, error: error.message || 'Internal Server Error' });
+    }
+  }
+
+  /**
+   * Download transcript and tips
+   * GET /api/conversations/:id/export?format=json|csv|srt|vtt&tips=true
+   */
+  async export(req: Request, res: Response) {
+    try {
+      const conversationId = req.params.id;
+      const format = (typeof req.query.format === 'string' ? req.query.format : 'json').toLowerCase() as ExportFormat;
+
+      if (!EXPORT_FORMATS.includes(format)) {
+        res.status(400).json({ success: false, error: `format must be one of ${EXPORT_FORMATS.join(', ')}` });
+        return;
+      }
+
+      const conversation = await this.conversationService.findConversation(conversationId);
+      if (!conversation) {
+        res.status(404).json({ success: false, error: 'Conversation not found' });
+        return;
+      }
+
+      const tips = await this.conversationService.findRecommendations(conversationId);
+      const body = renderConversationExport(format, conversation, tips, {
+        includeTips: req.query.tips === 'true' || req.query.tips === '1',
+      });
+
+      logger.info('Conversation exported', { conversationId, format, bytes: body.length });
+
+      res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+      res.setHeader('Content-Disposition', `attachment; filename="conversation-${conversationId}.${format}"`);
+      res.send(body);
+    } catch (error: any) {
+      logger.error('Error exporting conversation', { conversationId: req.params.id, error: error.message });
+      res.status(500).json({ success: false, error: error.message || 'Internal Server Error' });
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { Request, Response } from 'express';
+import { createLogger } from '../utils/logger';
+import type { ExperimentService } from '../services/experiment.service';
+
+const logger = createLogger('experiment-controller');
+
+export class ExperimentController {
+  constructor(private readonly experimentService: ExperimentService) {}
+
+  /**
+   * Experiment definitions
+   * GET /api/experiments
+   */
+  list(_req: Request, res: Response) {
+    res.json({
+      success: true,
+      data: this.experimentService.list(),
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Conversion rate (callback booked) per variant with 95% confidence intervals
+   * GET /api/experiments/:id/results
+   */
+  async results(req: Request, res: Response) {
+    try {
+      const results = await this.experimentService.results(req.params.id);
+      if (!results) {
+        res.status(404).json({ success: false, error: 'Experiment not found' });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: results,
+        timestamp: Date.now(),
+      });
+    } catch (error: any) {
+      logger.error('Error computing experiment results', { experimentId: req.params.id, error: error.message });
+      res.status(500).json({ success: false, error: error.message || 'Internal Server Error' });
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import { Request, Response } from 'express';
+import { publishedLibraryVersion, publishedScripts } from '../utils/golden-library';
+import type { PlaybookService } from '../services/playbook.service';
+import type { Playbook } from '../types';
+
+export class PlaybookController {
+  constructor(private readonly playbookService: PlaybookService) {}
+
+  /**
+   * Configured playbooks (without scripts)
+   * GET /api/playbooks
+   */
+  list(_req: Request, res: Response) {
+    res.json({
+      success: true,
+      data: this.playbookService.list().map(({ scripts: _scripts, ...playbook }) => this.withLibrary(playbook)),
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * A playbook with the scripts of its published library
+   * GET /api/playbooks/:id
+   */
+  get(req: Request, res: Response) {
+    if (!this.playbookService.has(req.params.id)) {
+      res.status(404).json({ success: false, error: 'Playbook not found' });
+      return;
+    }
+
+    const { scripts: _scripts, ...playbook } = this.playbookService.get(req.params.id);
+    res.json({
+      success: true,
+      data: { ...this.withLibrary(playbook), scripts: publishedScripts(playbook.id) },
+      timestamp: Date.now(),
+    });
+  }
+
+  private withLibrary(playbook: Omit<Playbook, 'scripts'>) {
+    return {
+      ...playbook,
+      libraryVersion: publishedLibraryVersion(playbook.id),
+      scriptCount: publishedScripts(playbook.id).length,
+    };
+  }
+}
@@ -0,0 +1,312 @@
+import { Request, Response } from 'express';
+import { createLogger } from '../utils/logger';
+import { ScriptLibraryError, type ScriptLibraryService } from '../services/script-library.service';
+import { DEFAULT_PLAYBOOK_ID } from '../constants/playbooks';
+import { renderGraphviz } from '../utils/script-graph';
+import {
+  SCRIPT_FILE_CONTENT_TYPES,
+  SCRIPT_FILE_FORMATS,
+  parseScriptFile,
+  renderScriptFile,
+  scriptFileFormat,
+} from '../utils/script-files';
+import type { ScriptLibraryErrorCode } from '../types';
+
+const logger = createLogger('script-library-controller');
+
+const ERROR_STATUS: Record<ScriptLibraryErrorCode, number> = {
+  not_found: 404,
+  conflict: 409,
+  invalid: 400,
+};
+
+/**
+ * Library version from a param or body field; undefined when absent, null when invalid
+ */
+function parseVersion(value: unknown): number | undefined | null {
+  if (value === undefined || value === '') return undefined;
+
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : null;
+}
+
+/**
+ * Playbook whose library a request works on (?playbookId=, default playbook when absent)
+ */
+function playbookOf(req: Request): string {
+  const { playbookId } = req.query;
+  return typeof playbookId === 'string' && playbookId ? playbookId : DEFAULT_PLAYBOOK_ID;
+}
+
+export class ScriptLibraryController {
+  constructor(private readonly scriptLibraryService: ScriptLibraryService) {}
+
+  /**
+   * Scripts of a library version (default: latest)
+   * GET /api/scripts?playbookId=&version=
+   */
+  list(req: Request, res: Response) {
+    this.handle(res, 'listing scripts', () => {
+      const playbookId = playbookOf(req);
+      const version = parseVersion(req.query.version);
+      if (version === null) {
+        throw new ScriptLibraryError('invalid', 'version must be a positive integer');
+      }
+
+      return {
+        playbookId,
+        version: version ?? this.scriptLibraryService.latestVersion(playbookId),
+        publishedVersion: this.scriptLibraryService.publishedVersion(playbookId),
+        scripts: this.scriptLibraryService.getScripts(playbookId, version),
+      };
+    });
+  }
+
+  /**
+   * One script of the latest version
+   * GET /api/scripts/:id?playbookId=
+   */
+  get(req: Request, res: Response) {
+    this.handle(res, 'fetching script', () => {
+      const script = this.scriptLibraryService
+        .getScripts(playbookOf(req))
+        .find((candidate) => candidate.id === req.params.id);
+      if (!script) {
+        throw new ScriptLibraryError('not_found', `Script "${req.params.id}" not found`);
+      }
+      return script;
+    });
+  }
+
+  /**
+   * POST /api/scripts?playbookId= { id, stage, label, text, condition?, next?, translations?, author, message? }
+   */
+  create(req: Request, res: Response) {
+    const { author, message, ...script } = req.body || {};
+    this.handle(
+      res,
+      'creating script',
+      () => this.scriptLibraryService.createScript(playbookOf(req), script, author, message),
+      201
+    );
+  }
+
+  /**
+   * PUT /api/scripts/:id?playbookId= { stage?, label?, text?, condition?, next?, translations?, author, message? }
+   */
+  update(req: Request, res: Response) {
+    const { author, message, stage, label, text, condition, next, translations } = req.body || {};
+    this.handle(res, 'updating script', () =>
+      this.scriptLibraryService.updateScript(
+        playbookOf(req),
+        req.params.id,
+        { stage, label, text, condition, next, translations },
+        author,
+        message
+      )
+    );
+  }
+
+  /**
+   * DELETE /api/scripts/:id?playbookId= { author, message? }
+   */
+  remove(req: Request, res: Response) {
+    const { author, message } = req.body || {};
+    this.handle(res, 'deleting script', () =>
+      this.scriptLibraryService.deleteScript(playbookOf(req), req.params.id, author, message)
+    );
+  }
+
+  /**
+   * Playbook graph of a version (default: latest) as JSON (nodes, edges, issues) or Graphviz DOT
+   * GET /api/scripts/graph?playbookId=&version=&format=json|dot
+   */
+  graph(req: Request, res: Response) {
+    const format = typeof req.query.format === 'string' ? req.query.format : 'json';
+    if (format !== 'json' && format !== 'dot') {
+      res.status(400).json({ success: false, error: 'format must be json or dot' });
+      return;
+    }
+
+    const playbookId = playbookOf(req);
+    const version = parseVersion(req.query.version);
+    if (version === null) {
+      res.status(400).json({ success: false, error: 'version must be a positive integer' });
+      return;
+    }
+
+    if (format === 'json') {
+      this.handle(res, 'building script graph', () => ({
+        playbookId,
+        version: version ?? this.scriptLibraryService.latestVersion(playbookId),
+        ...this.scriptLibraryService.getGraph(playbookId, version),
+      }));
+      return;
+    }
+
+    try {
+      const graph = this.scriptLibraryService.getGraph(playbookId, version);
+      res.setHeader('Content-Type', 'text/vnd.graphviz; charset=utf-8');
+      res.send(renderGraphviz(playbookId, graph));
+    } catch (error: any) {
+      if (error instanceof ScriptLibraryError) {
+        res.status(ERROR_STATUS[error.code]).json({ success: false, error: error.message });
+        return;
+      }
+      logger.error('Error rendering script graph', { error: error.message });
+      res.status(500).json({ success: false, error: error.message || 'Internal Server Error' });
+    }
+  }
+
+  /**
+   * Download a version (default: latest) as a YAML or CSV file
+   * GET /api/scripts/export?playbookId=&version=&format=yaml|csv
+   */
+  export(req: Request, res: Response) {
+    const format = scriptFileFormat(req.query.format ?? 'yaml');
+    if (!format) {
+      res.status(400).json({ success: false, error: `format must be one of ${SCRIPT_FILE_FORMATS.join(', ')}` });
+      return;
+    }
+
+    const version = parseVersion(req.query.version);
+    if (version === null) {
+      res.status(400).json({ success: false, error: 'version must be a positive integer' });
+      return;
+    }
+
+    try {
+      const playbookId = playbookOf(req);
+      const number = version ?? this.scriptLibraryService.latestVersion(playbookId);
+      const body = renderScriptFile(format, this.scriptLibraryService.getScripts(playbookId, number));
+
+      logger.info('Script library exported', { playbookId, version: number, format });
+
+      res.setHeader('Content-Type', SCRIPT_FILE_CONTENT_TYPES[format]);
+      res.setHeader('Content-Disposition', `attachment; filename="scripts-${playbookId}-v${number}.${format}"`);
+      res.send(body);
+    } catch (error: any) {
+      if (error instanceof ScriptLibraryError) {
+        res.status(ERROR_STATUS[error.code]).json({ success: false, error: error.message });
+        return;
+      }
+      logger.error('Error exporting script library', { error: error.message });
+      res.status(500).json({ success: false, error: error.message || 'Internal Server Error' });
+    }
+  }
+
+  /**
+   * Replace the latest library with a YAML or CSV file sent as the request body (new version)
+   * Rows that are not valid scripts reject the whole file with their row numbers;
+   * dryRun=true previews the diff without creating a version
+   * POST /api/scripts/import?playbookId=&format=yaml|csv&author=&message=&dryRun=
+   */
+  import(req: Request, res: Response) {
+    const format = scriptFileFormat(req.query.format, req.headers['content-type']);
+    if (!format) {
+      res.status(400).json({
+        success: false,
+        error: `format must be one of ${SCRIPT_FILE_FORMATS.join(', ')} (?format= or Content-Type)`,
+      });
+      return;
+    }
+    if (typeof req.body !== 'string' || !req.body.trim()) {
+      res.status(400).json({
+        success: false,
+        error: 'Send the file as the request body (Content-Type: text/csv or application/yaml)',
+      });
+      return;
+    }
+    // Required unless dryRun (checked by the service); repeated parameters arrive as arrays
+    const { author, message } = req.query;
+    if (author !== undefined && typeof author !== 'string') {
+      res.status(400).json({ success: false, error: 'author must be a single value (?author=)' });
+      return;
+    }
+
+    const { scripts, errors } = parseScriptFile(format, req.body);
+    if (errors.length > 0) {
+      logger.warn('Script import rejected', { playbookId: playbookOf(req), format, rows: errors.map((e) => e.row) });
+      res.status(400).json({ success: false, error: `Invalid ${format} file`, errors });
+      return;
+    }
+
+    const dryRun = req.query.dryRun === 'true' || req.query.dryRun === '1';
+    this.handle(
+      res,
+      'importing scripts',
+      () =>
+        this.scriptLibraryService.importScripts(playbookOf(req), scripts, author ?? '', {
+          message: typeof message === 'string' ? message : undefined,
+          dryRun,
+        }),
+      dryRun ? 200 : 201
+    );
+  }
+
+  /**
+   * Version history (newest first) and publications
+   * GET /api/scripts/versions?playbookId=
+   */
+  versions(req: Request, res: Response) {
+    this.handle(res, 'listing library versions', () => {
+      const playbookId = playbookOf(req);
+      return {
+        playbookId,
+        publishedVersion: this.scriptLibraryService.publishedVersion(playbookId),
+        versions: this.scriptLibraryService.listVersions(playbookId),
+        publications: this.scriptLibraryService.listPublications(playbookId),
+      };
+    });
+  }
+
+  /**
+   * GET /api/scripts/versions/:version?playbookId=
+   */
+  version(req: Request, res: Response) {
+    this.handle(res, 'fetching library version', () =>
+      this.scriptLibraryService.getVersion(playbookOf(req), this.requireVersion(req.params.version))
+    );
+  }
+
+  /**
+   * POST /api/scripts/versions/:version/publish?playbookId= { author }
+   */
+  publish(req: Request, res: Response) {
+    this.handle(res, 'publishing library version', () =>
+      this.scriptLibraryService.publish(playbookOf(req), this.requireVersion(req.params.version), req.body?.author)
+    );
+  }
+
+  /**
+   * POST /api/scripts/rollback?playbookId= { version, author }
+   */
+  rollback(req: Request, res: Response) {
+    this.handle(res, 'rolling back library', () =>
+      this.scriptLibraryService.rollback(playbookOf(req), this.requireVersion(req.body?.version), req.body?.author)
+    );
+  }
+
+  private requireVersion(value: unknown): number {
+    const version = parseVersion(value);
+    if (version === undefined || version === null) {
+      throw new ScriptLibraryError('invalid', 'version must be a positive integer');
+    }
+    return version;
+  }
+
+  private async handle(res: Response, action: string, fn: () => unknown, status = 200) {
+    try {
+      const data = await fn();
+      res.status(status).json({ success: true, data, timestamp: Date.now() });
+    } catch (error: any) {
+      if (error instanceof ScriptLibraryError) {
+        res.status(ERROR_STATUS[error.code]).json({ success: false, error: error.message });
+        return;
+      }
+
+      logger.error(`Error ${action}`, { error: error.message });
+      res.status(500).json({ success: false, error: error.message || 'Internal Server Error' });
+    }
+  }
+}
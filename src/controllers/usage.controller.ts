@@ -0,0 +1,73 @@
+import { Request, Response } from 'express';
+import { createLogger } from '../utils/logger';
+import { parseDate } from '../utils/query-params';
+import { OPERATION_DEFAULTS } from '../llm';
+import type { UsageService } from '../services/usage.service';
+import type { LLMOperation, LLMUsageGroupBy, LLMUsageQuery } from '../types';
+
+const logger = createLogger('usage-controller');
+
+const GROUP_BY: LLMUsageGroupBy[] = ['agent', 'conversation', 'operation', 'model', 'day'];
+
+export class UsageController {
+  constructor(private readonly usageService: UsageService) {}
+
+  /**
+   * LLM token usage and cost
+   * GET /api/usage?agentId=&conversationId=&operation=&from=&to=&groupBy=agent|conversation|operation|model|day
+   */
+  async summary(req: Request, res: Response) {
+    try {
+      const { agentId, conversationId, operation, groupBy } = req.query;
+      const from = parseDate(req.query.from);
+      const to = parseDate(req.query.to);
+
+      if (from === null || to === null) {
+        res.status(400).json({ success: false, error: 'from and to must be ms timestamps or ISO dates' });
+        return;
+      }
+
+      const operations = Object.keys(OPERATION_DEFAULTS) as LLMOperation[];
+      if (operation !== undefined && !operations.includes(operation as LLMOperation)) {
+        res.status(400).json({ success: false, error: `operation must be one of ${operations.join(', ')}` });
+        return;
+      }
+
+      if (groupBy !== undefined && !GROUP_BY.includes(groupBy as LLMUsageGroupBy)) {
+        res.status(400).json({ success: false, error: `groupBy must be one of ${GROUP_BY.join(', ')}` });
+        return;
+      }
+
+      const query: LLMUsageQuery = {
+        agentId: typeof agentId === 'string' && agentId ? agentId : undefined,
+        conversationId: typeof conversationId === 'string' && conversationId ? conversationId : undefined,
+        operation: operation as LLMOperation | undefined,
+        from,
+        to,
+      };
+
+      const summary = await this.usageService.summarize(query, groupBy as LLMUsageGroupBy | undefined);
+
+      res.json({
+        success: true,
+        data: summary,
+        timestamp: Date.now(),
+      });
+    } catch (error: any) {
+      logger.error('Error fetching LLM usage', { error: error.message });
+      res.status(500).json({ success: false, error: error.message || 'Internal Server Error' });
+    }
+  }
+
+  /**
+   * Today's spend against the daily and per-agent budgets
+   * GET /api/usage/budget
+   */
+  budget(_req: Request, res: Response) {
+    res.json({
+      success: true,
+      data: this.usageService.budgetStatus(),
+      timestamp: Date.now(),
+    });
+  }
+}
@@ -0,0 +1,100 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type { LLMProvider } from './llm.provider';
+import type { LLMCompletion, LLMCompletionRequest } from '../types';
+
+/**
+ * Anthropic Provider (Messages API)
+ *
+ * No native JSON mode: JSON requests get an explicit instruction and the
+ * assistant turn is prefilled with "{" so the reply is the object itself.
+ * Schema requests use a forced tool call instead; its input is the JSON object.
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  private client: Anthropic;
+
+  constructor(options: { apiKey: string }) {
+    this.client = new Anthropic({ apiKey: options.apiKey });
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const system = request.messages
+      .filter((m) => m.role === 'system')
+      .map((m) => m.content)
+      .join('\n\n');
+
+    const messages: Anthropic.MessageParam[] = request.messages
+      .filter((m) => m.role !== 'system')
+      .map((m) => ({ role: m.role as 'user' | 'assistant', content: m.content }));
+
+    const schema = request.jsonSchema;
+    const prefill = request.json && !schema;
+    if (prefill) {
+      messages.push({ role: 'assistant', content: '{' });
+    }
+
+    const params: Anthropic.MessageCreateParamsNonStreaming = {
+      model: request.model,
+      system: prefill ? `${system}\n\nRespond with a single JSON object and nothing else.` : system || undefined,
+      messages,
+      temperature: Math.min(request.temperature, 1), // Anthropic's range is 0-1
+      max_tokens: request.maxTokens,
+    };
+
+    if (schema) {
+      params.tools = [
+        {
+          name: schema.name,
+          description: 'Return the response in this exact structure',
+          input_schema: schema.schema as Anthropic.Tool.InputSchema,
+        },
+      ];
+      params.tool_choice = { type: 'tool', name: schema.name };
+    }
+
+    const response = request.onDelta
+      ? await this.stream(params, request.onDelta, request)
+      : await this.client.messages.create(params, { signal: request.signal });
+
+    const toolUse = response.content.find((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use');
+    const text = schema
+      ? toolUse && JSON.stringify(toolUse.input)
+      : response.content
+          .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+          .map((block) => block.text)
+          .join('');
+
+    if (!text) {
+      throw new Error('No response from anthropic');
+    }
+
+    return {
+      content: prefill ? `{${text}` : text,
+      provider: this.name,
+      model: response.model,
+      usage: { inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens },
+    };
+  }
+
+  /**
+   * Streaming completion: report each text or tool-input delta (the prefilled "{" first),
+   * resolve with the final message
+   */
+  private async stream(
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    onDelta: (text: string) => void,
+    request: LLMCompletionRequest
+  ): Promise<Anthropic.Message> {
+    if (request.json && !request.jsonSchema) {
+      onDelta('{');
+    }
+
+    const stream = this.client.messages.stream(params, { signal: request.signal });
+    stream.on('streamEvent', (event) => {
+      if (event.type !== 'content_block_delta') return;
+      if (event.delta.type === 'text_delta') onDelta(event.delta.text);
+      if (event.delta.type === 'input_json_delta') onDelta(event.delta.partial_json);
+    });
+    return stream.finalMessage();
+  }
+}
@@ -0,0 +1,130 @@
+import { createLogger } from '../utils/logger';
+import { LLMClient, OPERATION_DEFAULTS, type LLMUsageMeter, type OperationSettings } from './llm-client';
+import { OpenAIProvider } from './openai.provider';
+import { AnthropicProvider } from './anthropic.provider';
+import { MockProvider } from './mock.provider';
+import type { LLMProvider } from './llm.provider';
+import type { LLMOperation, LLMOperationConfig, LLMProviderName } from '../types';
+
+export type { LLMProvider } from './llm.provider';
+export {
+  LLMClient,
+  OPERATION_DEFAULTS,
+  type CompletionOptions,
+  type LLMUsageMeter,
+  type OperationSettings,
+} from './llm-client';
+export { OpenAIProvider } from './openai.provider';
+export { AnthropicProvider } from './anthropic.provider';
+export { MockProvider } from './mock.provider';
+
+const logger = createLogger('llm');
+
+const PROVIDER_NAMES: LLMProviderName[] = ['openai', 'openai-compatible', 'anthropic', 'mock'];
+
+const DEFAULT_MODELS: Partial<Record<LLMProviderName, string>> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-latest',
+  mock: 'mock',
+};
+
+// Environment prefix per operation, e.g. LLM_CALL_MEMORY_MODEL
+const OPERATION_ENV: Record<LLMOperation, string> = {
+  greeting: 'GREETING',
+  contextual: 'CONTEXTUAL',
+  periodic: 'PERIODIC',
+  persona: 'PERSONA',
+  callMemory: 'CALL_MEMORY',
+  postCall: 'POST_CALL',
+};
+
+function parseProvider(value: string, variable: string): LLMProviderName {
+  if (!PROVIDER_NAMES.includes(value as LLMProviderName)) {
+    throw new Error(`${variable} must be one of ${PROVIDER_NAMES.join(', ')} (got "${value}")`);
+  }
+  return value as LLMProviderName;
+}
+
+function parseNumber(variable: string): number | undefined {
+  const value = process.env[variable];
+  if (value === undefined || value === '') return undefined;
+
+  const parsed = Number(value);
+  if (Number.isNaN(parsed) || parsed < 0) {
+    throw new Error(`${variable} must be a non-negative number (got "${value}")`);
+  }
+  return parsed;
+}
+
+function requireEnv(variable: string, provider: LLMProviderName): string {
+  const value = process.env[variable];
+  if (!value) {
+    throw new Error(`${variable} environment variable is required for the ${provider} LLM provider`);
+  }
+  return value;
+}
+
+function createProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAIProvider('openai', { apiKey: requireEnv('OPENAI_API_KEY', name) });
+    case 'openai-compatible':
+      return new OpenAIProvider('openai-compatible', {
+        baseURL: requireEnv('LLM_BASE_URL', name),
+        apiKey: process.env.LLM_API_KEY || 'not-needed', // Local servers usually ignore it
+      });
+    case 'anthropic':
+      return new AnthropicProvider({ apiKey: requireEnv('ANTHROPIC_API_KEY', name) });
+    case 'mock':
+      return new MockProvider();
+  }
+}
+
+/**
+ * Build the LLM client from environment
+ *
+ * LLM_PROVIDER (default openai) and LLM_MODEL apply to every operation;
+ * LLM_<OPERATION>_PROVIDER / _MODEL / _TEMPERATURE / _MAX_TOKENS / _TIMEOUT_MS override one operation.
+ * The optional meter records usage and enforces budgets.
+ * Throws on unknown providers, missing keys or invalid numbers.
+ */
+export function createLLMClient(meter?: LLMUsageMeter): LLMClient {
+  const defaultProvider = parseProvider(process.env.LLM_PROVIDER || 'openai', 'LLM_PROVIDER');
+
+  const operations = {} as Record<LLMOperation, Pick<LLMOperationConfig, 'provider' | 'model'>>;
+  const overrides: Partial<Record<LLMOperation, Partial<OperationSettings>>> = {};
+
+  for (const operation of Object.keys(OPERATION_DEFAULTS) as LLMOperation[]) {
+    const prefix = `LLM_${OPERATION_ENV[operation]}`;
+    const providerValue = process.env[`${prefix}_PROVIDER`];
+    const provider = providerValue ? parseProvider(providerValue, `${prefix}_PROVIDER`) : defaultProvider;
+
+    // LLM_MODEL belongs to LLM_PROVIDER; another provider falls back to its own default model
+    const model =
+      process.env[`${prefix}_MODEL`] ||
+      (provider === defaultProvider ? process.env.LLM_MODEL : undefined) ||
+      DEFAULT_MODELS[provider];
+    if (!model) {
+      throw new Error(`${prefix}_MODEL or LLM_MODEL is required for the ${provider} LLM provider`);
+    }
+
+    operations[operation] = { provider, model };
+
+    const temperature = parseNumber(`${prefix}_TEMPERATURE`);
+    const maxTokens = parseNumber(`${prefix}_MAX_TOKENS`);
+    const timeoutMs = parseNumber(`${prefix}_TIMEOUT_MS`);
+    if (temperature !== undefined || maxTokens !== undefined || timeoutMs !== undefined) {
+      overrides[operation] = { temperature, maxTokens, timeoutMs };
+    }
+  }
+
+  const providers = new Map<LLMProviderName, LLMProvider>();
+  for (const { provider } of Object.values(operations)) {
+    if (!providers.has(provider)) {
+      providers.set(provider, createProvider(provider));
+    }
+  }
+
+  logger.info('LLM client configured', { operations });
+  return new LLMClient(providers, operations, overrides, meter);
+}
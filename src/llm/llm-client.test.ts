@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { LLMClient, type LLMUsageMeter } from './llm-client';
+import type { LLMProvider } from './llm.provider';
+import type { LLMCompletion, LLMOperation, LLMOperationConfig } from '../types';
+
+const OPERATIONS = { greeting: { provider: 'openai-compatible', model: 'local' } } as Record<
+  LLMOperation,
+  Pick<LLMOperationConfig, 'provider' | 'model'>
+>;
+
+const PROMPT = [{ role: 'user' as const, content: 'x'.repeat(400) }];
+
+function client(complete: LLMProvider['complete']) {
+  const recorded: LLMCompletion[] = [];
+  const meter: LLMUsageMeter = { check: () => undefined, record: (_operation, completion) => recorded.push(completion) };
+  const provider: LLMProvider = { name: 'openai-compatible', complete };
+
+  return { llm: new LLMClient(new Map([['openai-compatible', provider]]), OPERATIONS, {}, meter), recorded };
+}
+
+describe('LLMClient usage metering', () => {
+  it('records the usage the provider reported', async () => {
+    const usage = { inputTokens: 120, outputTokens: 30 };
+    const { llm, recorded } = client(async () => ({ content: 'ok', provider: 'openai-compatible', model: 'local', usage }));
+
+    await llm.complete('greeting', PROMPT);
+
+    expect(recorded[0].usage).toEqual(usage);
+  });
+
+  it('estimates usage from the prompt and content when the provider reports none', async () => {
+    const { llm, recorded } = client(async () => ({ content: 'y'.repeat(40), provider: 'openai-compatible', model: 'local' }));
+
+    const completion = await llm.complete('greeting', PROMPT);
+
+    expect(completion.usage).toBeUndefined();
+    expect(recorded[0].usage).toEqual({ inputTokens: 100, outputTokens: 10, estimated: true });
+  });
+
+  it('records an estimate for a failed request, including what streamed before it failed', async () => {
+    const { llm, recorded } = client(async (request) => {
+      request.onDelta?.('z'.repeat(20));
+      throw new Error('ECONNRESET');
+    });
+
+    await expect(llm.complete('greeting', PROMPT, { onDelta: () => undefined })).rejects.toThrow('ECONNRESET');
+    expect(recorded[0]).toMatchObject({
+      provider: 'openai-compatible',
+      model: 'local',
+      usage: { inputTokens: 100, outputTokens: 5, estimated: true },
+    });
+  });
+});
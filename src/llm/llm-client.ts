@@ -0,0 +1,164 @@
+import { createLogger } from '../utils/logger';
+import { estimateTokens } from '../utils/llm-usage';
+import type { LLMProvider } from './llm.provider';
+import type {
+  LLMCompletion,
+  LLMJsonSchema,
+  LLMMessage,
+  LLMOperation,
+  LLMOperationConfig,
+  LLMProviderName,
+} from '../types';
+
+const logger = createLogger('llm');
+
+export type OperationSettings = Pick<LLMOperationConfig, 'temperature' | 'maxTokens' | 'timeoutMs'>;
+
+// Defaults per operation; live tips time out quickly so the fallback engine can step in
+export const OPERATION_DEFAULTS: Record<LLMOperation, OperationSettings> = {
+  greeting: { temperature: 0.3, maxTokens: 200, timeoutMs: 8000 }, // Low and short: first tip should be fast
+  contextual: { temperature: 0.4, maxTokens: 250, timeoutMs: 8000 },
+  periodic: { temperature: 0.5, maxTokens: 150, timeoutMs: 8000 },
+  persona: { temperature: 0.7, maxTokens: 300, timeoutMs: 15000 },
+  callMemory: { temperature: 0.2, maxTokens: 400, timeoutMs: 30000 },
+  postCall: { temperature: 0.2, maxTokens: 800, timeoutMs: 60000 },
+};
+
+export interface CompletionOptions {
+  json?: boolean;
+  jsonSchema?: LLMJsonSchema;
+  // Call-site defaults (e.g. per persona); environment overrides still win
+  temperature?: number;
+  maxTokens?: number;
+  // Stream the completion, called with each content chunk (e.g. for partial tips)
+  onDelta?: (text: string) => void;
+  // Call the usage is recorded against
+  conversationId?: string;
+}
+
+/**
+ * Usage of a request the provider reported none for, from the prompt and the output text
+ */
+function estimateUsage(messages: LLMMessage[], output: string): NonNullable<LLMCompletion['usage']> {
+  return {
+    inputTokens: estimateTokens(messages.map((message) => message.content).join('\n')),
+    outputTokens: estimateTokens(output),
+    estimated: true,
+  };
+}
+
+/**
+ * Usage accounting hook: asked before each request is sent, told about each completion
+ */
+export interface LLMUsageMeter {
+  // Throws to refuse the request (e.g. budget spent)
+  check(operation: LLMOperation, conversationId?: string): void;
+  // Failed requests and completions without provider usage are recorded with estimated usage
+  record(operation: LLMOperation, completion: LLMCompletion, conversationId?: string): void;
+}
+
+/**
+ * LLM Client
+ *
+ * Routes each operation (greeting, contextual, ...) to its provider and model
+ * with its own temperature, max tokens and timeout. Precedence for these settings:
+ * LLM_<OPERATION>_* environment overrides > call-site options > OPERATION_DEFAULTS.
+ * A request that exceeds its timeout is aborted and rejects with a timeout error.
+ * With a usage meter every request is recorded (tokens estimated from the prompt and the
+ * output when the request failed or the provider reported none), and the meter may refuse requests.
+ */
+export class LLMClient {
+  constructor(
+    private readonly providers: Map<LLMProviderName, LLMProvider>,
+    private readonly operations: Record<LLMOperation, Pick<LLMOperationConfig, 'provider' | 'model'>>,
+    private readonly overrides: Partial<Record<LLMOperation, Partial<OperationSettings>>> = {},
+    private readonly meter?: LLMUsageMeter
+  ) {}
+
+  /**
+   * Effective settings for an operation
+   */
+  getConfig(operation: LLMOperation, options: CompletionOptions = {}): LLMOperationConfig {
+    const override = this.overrides[operation] || {};
+    return {
+      ...this.operations[operation],
+      temperature: override.temperature ?? options.temperature ?? OPERATION_DEFAULTS[operation].temperature,
+      maxTokens: override.maxTokens ?? options.maxTokens ?? OPERATION_DEFAULTS[operation].maxTokens,
+      timeoutMs: override.timeoutMs ?? OPERATION_DEFAULTS[operation].timeoutMs,
+    };
+  }
+
+  async complete(operation: LLMOperation, messages: LLMMessage[], options: CompletionOptions = {}): Promise<LLMCompletion> {
+    const config = this.getConfig(operation, options);
+    const provider = this.providers.get(config.provider);
+    if (!provider) {
+      throw new Error(`LLM provider not configured: ${config.provider}`);
+    }
+    this.meter?.check(operation, options.conversationId);
+
+    const startedAt = Date.now();
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    let settled = false;
+    let streamed = '';
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`LLM ${operation} timed out after ${config.timeoutMs}ms`));
+      }, config.timeoutMs);
+    });
+
+    let completion: LLMCompletion;
+    try {
+      completion = await Promise.race([
+        provider.complete({
+          operation,
+          messages,
+          model: config.model,
+          temperature: config.temperature,
+          maxTokens: config.maxTokens,
+          json: options.json,
+          jsonSchema: options.jsonSchema,
+          signal: controller.signal,
+          // Late chunks after a timeout are dropped
+          onDelta:
+            options.onDelta &&
+            ((text) => {
+              if (settled) return;
+              streamed += text;
+              options.onDelta!(text);
+            }),
+        }),
+        timeout,
+      ]);
+    } catch (error) {
+      // The provider may still bill the prompt and what it generated before the abort
+      this.meter?.record(
+        operation,
+        { content: streamed, provider: config.provider, model: config.model, usage: estimateUsage(messages, streamed) },
+        options.conversationId
+      );
+      throw error;
+    } finally {
+      settled = true;
+      clearTimeout(timer);
+    }
+
+    logger.debug('LLM completion', {
+      operation,
+      provider: completion.provider,
+      model: completion.model,
+      latencyMs: Date.now() - startedAt,
+      usage: completion.usage,
+    });
+    // Many OpenAI-compatible servers (and streams without usage) report no tokens
+    this.meter?.record(
+      operation,
+      completion.usage ? completion : { ...completion, usage: estimateUsage(messages, completion.content) },
+      options.conversationId
+    );
+
+    return completion;
+  }
+}
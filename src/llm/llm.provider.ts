@@ -0,0 +1,19 @@
+import type { LLMCompletion, LLMCompletionRequest, LLMProviderName } from '../types';
+
+/**
+ * LLM Provider
+ *
+ * One chat-completion backend (OpenAI, an OpenAI-compatible server, Anthropic, mock).
+ * Providers only translate requests; model, temperature and max tokens are chosen
+ * per operation by the LLMClient.
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+
+  /**
+   * Run one completion and return the text of the first choice
+   * Streams when request.onDelta is set (still resolving with the full text)
+   * Throws on transport errors or an empty response
+   */
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+}
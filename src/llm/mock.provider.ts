@@ -0,0 +1,90 @@
+import { publishedScripts } from '../utils/golden-library';
+import type { LLMProvider } from './llm.provider';
+import type { LLMCompletion, LLMCompletionRequest } from '../types';
+
+const STREAM_CHUNK_SIZE = 16;
+
+/**
+ * Stable string hash so the same prompt always gets the same answer
+ */
+function hash(text: string): number {
+  let value = 0;
+  for (let i = 0; i < text.length; i++) {
+    value = (value * 31 + text.charCodeAt(i)) >>> 0;
+  }
+  return value;
+}
+
+/**
+ * Mock Provider
+ *
+ * Deterministic, offline responses in the shape each operation expects, so the
+ * whole backend runs without API keys (LLM_PROVIDER=mock). Tip operations pick
+ * a script from the library embedded in the prompt (any playbook), chosen by a
+ * hash of the latest user message.
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const system = request.messages.find((m) => m.role === 'system')?.content || '';
+    const lastUser = [...request.messages].reverse().find((m) => m.role === 'user')?.content || '';
+
+    const response = this.respond(request, system, lastUser);
+    const content = typeof response === 'string' ? response : JSON.stringify(response);
+
+    // Streaming requests get the same content in small chunks
+    if (request.onDelta) {
+      for (let i = 0; i < content.length; i += STREAM_CHUNK_SIZE) {
+        request.onDelta(content.slice(i, i + STREAM_CHUNK_SIZE));
+      }
+    }
+
+    return {
+      content,
+      provider: this.name,
+      model: 'mock',
+      usage: { inputTokens: 0, outputTokens: 0 },
+    };
+  }
+
+  private respond(request: LLMCompletionRequest, system: string, lastUser: string): unknown {
+    switch (request.operation) {
+      case 'greeting':
+      case 'contextual':
+      case 'periodic':
+        return this.tip(system, lastUser);
+      case 'callMemory':
+        return { summary: 'Mock call memory.', facts: [], objections: [], commitments: [] };
+      case 'postCall':
+        return {
+          summary: 'Mock post-call summary.',
+          sentiment: { label: 'neutral', score: 0.5 },
+          intents: [],
+          topics: [],
+          entities: { businessNames: [], people: [], locations: [], dates: [] },
+        };
+      case 'persona':
+        return request.json
+          ? { responses: ['Mock option one.', 'Mock option two.', 'Mock option three.'], context: 'Mock strategy' }
+          : "I'm pretty busy right now, what is this about?";
+    }
+  }
+
+  private tip(system: string, lastUser: string) {
+    // Library scripts are embedded in the prompt as pretty-printed JSON (id, stage, label, ...)
+    const offered = Array.from(
+      system.matchAll(/"id": "([^"]+)",\s*"stage": "([^"]+)",\s*"label": "([^"]+)"/g),
+      ([, id, stage, label]) => ({ id, stage, label })
+    );
+    const candidates = offered.length > 0 ? offered : publishedScripts();
+    const script = candidates[hash(lastUser) % candidates.length];
+
+    return {
+      heading: 'Mock Tip',
+      stage: script.stage,
+      options: [{ id: script.id, label: script.label }],
+      context: 'Deterministic mock provider',
+    };
+  }
+}
@@ -0,0 +1,106 @@
+import OpenAI from 'openai';
+import type { LLMProvider } from './llm.provider';
+import type { LLMCompletion, LLMCompletionRequest, LLMProviderName } from '../types';
+
+/**
+ * OpenAI Provider
+ *
+ * Also serves any OpenAI-compatible endpoint (vLLM, Ollama, LM Studio, ...) via baseURL.
+ */
+export class OpenAIProvider implements LLMProvider {
+  private client: OpenAI;
+
+  constructor(
+    readonly name: Extract<LLMProviderName, 'openai' | 'openai-compatible'>,
+    options: { apiKey: string; baseURL?: string }
+  ) {
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    if (request.onDelta) {
+      return this.stream(request, request.onDelta);
+    }
+
+    const completion = await this.client.chat.completions.create(
+      {
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        response_format: this.responseFormat(request),
+      },
+      { signal: request.signal }
+    );
+
+    const content = completion.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error(`No response from ${this.name}`);
+    }
+
+    return {
+      content,
+      provider: this.name,
+      model: completion.model || request.model,
+      usage: completion.usage
+        ? { inputTokens: completion.usage.prompt_tokens, outputTokens: completion.usage.completion_tokens }
+        : undefined,
+    };
+  }
+
+  /**
+   * Strict json_schema mode on OpenAI; compatible servers vary, so they get plain JSON mode
+   */
+  private responseFormat(
+    request: LLMCompletionRequest
+  ): OpenAI.ChatCompletionCreateParams['response_format'] | undefined {
+    if (request.jsonSchema && this.name === 'openai') {
+      return {
+        type: 'json_schema',
+        json_schema: { name: request.jsonSchema.name, schema: request.jsonSchema.schema, strict: true },
+      };
+    }
+    return request.json || request.jsonSchema ? { type: 'json_object' } : undefined;
+  }
+
+  /**
+   * Streaming completion: report each content delta, resolve with the full text
+   */
+  private async stream(request: LLMCompletionRequest, onDelta: (text: string) => void): Promise<LLMCompletion> {
+    const stream = await this.client.chat.completions.create(
+      {
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        response_format: this.responseFormat(request),
+        stream: true,
+        // Not every compatible server accepts stream_options; usage is then unknown
+        stream_options: this.name === 'openai' ? { include_usage: true } : undefined,
+      },
+      { signal: request.signal }
+    );
+
+    let content = '';
+    let model = request.model;
+    let usage: LLMCompletion['usage'];
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onDelta(delta);
+      }
+      if (chunk.model) model = chunk.model;
+      if (chunk.usage) {
+        usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+      }
+    }
+
+    if (!content) {
+      throw new Error(`No response from ${this.name}`);
+    }
+
+    return { content, provider: this.name, model, usage };
+  }
+}
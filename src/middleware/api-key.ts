@@ -0,0 +1,19 @@
+import { Request, Response, NextFunction } from 'express';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('auth');
+
+/**
+ * Require the x-api-key header to match BACKEND_API_KEY
+ */
+export function requireApiKey(req: Request, res: Response, next: NextFunction): void {
+  const apiKey = req.headers['x-api-key'];
+
+  if (!apiKey || apiKey !== process.env.BACKEND_API_KEY) {
+    logger.warn('Unauthorized request - invalid API key', { path: req.path });
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  next();
+}
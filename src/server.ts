@@ -6,9 +6,31 @@ import dotenv from 'dotenv';
 import { createLogger } from './utils/logger';
 import { AIAnalysisService } from './services/ai-analysis.service';
 import { ConversationService } from './services/conversation.service';
+import { CallMemoryService } from './services/call-memory.service';
+import { PlaceholderService, loadPlaceholderConfig } from './services/placeholder.service';
+import { ObjectionService, loadEscalationRules } from './services/objection.service';
+import { UsageService, loadBudgets, loadPriceTable } from './services/usage.service';
+import { ScriptLibraryService } from './services/script-library.service';
+import { PlaybookService, loadPlaybooks } from './services/playbook.service';
+import { ExperimentService, loadExperiments } from './services/experiment.service';
 import { AWSTranscribeService } from './services/aws-transcribe.service';
 import { SESClient, SendEmailCommand } from '@aws-sdk/client-ses';
 import { AIController } from './controllers/ai.controller';
+import { ConversationController } from './controllers/conversation.controller';
+import { UsageController } from './controllers/usage.controller';
+import { ScriptLibraryController } from './controllers/script-library.controller';
+import { PlaybookController } from './controllers/playbook.controller';
+import { ExperimentController } from './controllers/experiment.controller';
+import { requireApiKey } from './middleware/api-key';
+import { scoreAdherence } from './utils/adherence';
+import { detectLeadQuestion, extractLeadFields } from './utils/lead-extraction';
+import { DEFAULT_PLACEHOLDER_VALUES } from './utils/script-enforcement';
+import { publishedScripts } from './utils/golden-library';
+import { SCRIPT_FILE_MEDIA_TYPES } from './utils/script-files';
+import { localizeScript, parseLanguage } from './utils/language';
+import { DEFAULT_LANGUAGE, SCRIPT_LANGUAGES } from './constants/languages';
+import { createConversationStore, type ConversationStore } from './storage';
+import { createLLMClient, type LLMClient } from './llm';
 import type {
   StartConversationPayload,
   TranscriptPayload,
@@ -20,6 +42,18 @@ import type {
   TranscriptionResponse,
   StartTranscriptionPayload,
   EndTranscriptionPayload,
+  ResumeConversationPayload,
+  AdherenceScorePayload,
+  PostCallIntelligencePayload,
+  LeadUpdatedPayload,
+  PlaceholderValues,
+  AITipPayload,
+  AITipPartialPayload,
+  StageChangedPayload,
+  LanguageDetectedPayload,
+  Playbook,
+  ScriptLanguage,
+  TipContext,
 } from './types';
 
 // Load environment variables
@@ -28,7 +62,8 @@ dotenv.config();
 const serverLogger = createLogger('server');
 
 // Validate environment
-const requiredEnv = ['OPENAI_API_KEY', 'BACKEND_API_KEY'];
+// (LLM provider keys are checked by createLLMClient for the providers actually used)
+const requiredEnv = ['BACKEND_API_KEY'];
 for (const env of requiredEnv) {
   if (!process.env[env]) {
     serverLogger.error(`Missing required environment variable: ${env}`);
@@ -37,9 +72,78 @@ for (const env of requiredEnv) {
 }
 
 // Initialize services
-const aiAnalysisService = new AIAnalysisService();
-const conversationService = new ConversationService();
-const aiController = new AIController();
+let conversationStore: ConversationStore;
+let conversationService: ConversationService;
+try {
+  conversationStore = createConversationStore();
+  conversationService = new ConversationService(conversationStore);
+} catch (error: any) {
+  serverLogger.error('Failed to configure conversation store', { error: error.message });
+  process.exit(1);
+}
+let usageService: UsageService;
+try {
+  usageService = new UsageService(
+    conversationStore,
+    loadPriceTable(),
+    loadBudgets(),
+    (conversationId) => conversationService.getConversation(conversationId)?.agentId
+  );
+} catch (error: any) {
+  serverLogger.error('Failed to configure LLM usage accounting', { error: error.message });
+  process.exit(1);
+}
+let llmClient: LLMClient;
+try {
+  llmClient = createLLMClient(usageService);
+} catch (error: any) {
+  serverLogger.error('Failed to configure LLM provider', { error: error.message });
+  process.exit(1);
+}
+const aiAnalysisService = new AIAnalysisService(llmClient);
+let playbookService: PlaybookService;
+try {
+  playbookService = new PlaybookService(loadPlaybooks());
+} catch (error: any) {
+  serverLogger.error('Failed to load playbooks', { error: error.message });
+  process.exit(1);
+}
+let placeholderService: PlaceholderService;
+try {
+  placeholderService = new PlaceholderService(loadPlaceholderConfig(), playbookService);
+} catch (error: any) {
+  serverLogger.error('Failed to load placeholder config', { error: error.message });
+  process.exit(1);
+}
+let objectionService: ObjectionService;
+try {
+  objectionService = new ObjectionService(loadEscalationRules());
+} catch (error: any) {
+  serverLogger.error('Failed to load escalation rules', { error: error.message });
+  process.exit(1);
+}
+const scriptLibraryService = new ScriptLibraryService(
+  conversationStore,
+  playbookService.list(),
+  objectionService.scriptIds()
+);
+let experimentService: ExperimentService;
+try {
+  experimentService = new ExperimentService(
+    conversationService,
+    loadExperiments(playbookService.list().map((playbook) => playbook.id))
+  );
+} catch (error: any) {
+  serverLogger.error('Failed to load experiments', { error: error.message });
+  process.exit(1);
+}
+const callMemoryService = new CallMemoryService(aiAnalysisService, conversationService, playbookService);
+const aiController = new AIController(llmClient);
+const conversationController = new ConversationController(conversationService, placeholderService);
+const usageController = new UsageController(usageService);
+const scriptLibraryController = new ScriptLibraryController(scriptLibraryService);
+const playbookController = new PlaybookController(playbookService);
+const experimentController = new ExperimentController(experimentService);
 
 // AWS Transcribe is optional - only initialize if credentials are configured
 let awsTranscribeService: AWSTranscribeService | null = null;
@@ -109,13 +213,16 @@ app.get('/health', (_req, res) => {
  * @body {Object} callMetadata - Call information (conversationId, agentEmail, etc.)
  * @body {Array} transcripts - Array of transcript objects
  * @body {Array} aiTips - Array of AI recommendation objects
+ * @body {Object} [intelligence] - Deepgram intelligence (defaults to server-generated)
+ * @body {Object} [entities] - Deepgram entities (defaults to server-generated)
  * @returns {Object} { success: boolean, messageId?: string, error?: string }
  */
 app.post('/api/generate-report', async (req, res) => {
   try {
     serverLogger.info('📧 [Email] Received email report request');
 
-    const { callMetadata, transcripts, aiTips, intelligence, entities } = req.body;
+    const { callMetadata, transcripts, aiTips } = req.body;
+    let { intelligence, entities } = req.body;
 
     // Validate required fields
     if (!callMetadata?.agentEmail || !callMetadata?.conversationId) {
@@ -126,6 +233,13 @@ app.post('/api/generate-report', async (req, res) => {
       });
     }
 
+    // Not sent by the client (AWS Transcribe calls): use server-generated intelligence
+    const stored = await conversationService.findConversation(callMetadata.conversationId);
+    intelligence = intelligence || stored?.postCallAnalysis?.intelligence;
+    entities = entities || stored?.postCallAnalysis?.entities;
+    const lead = stored?.lead;
+    const playbook = playbookService.get(stored?.playbookId);
+
     serverLogger.info('📧 [Email] Processing email report', {
       conversationId: callMetadata.conversationId,
       agentEmail: callMetadata.agentEmail,
@@ -133,6 +247,7 @@ app.post('/api/generate-report', async (req, res) => {
       aiTipCount: aiTips?.length || 0,
       hasIntelligence: !!intelligence,
       hasEntities: !!entities,
+      hasLead: !!lead,
     });
 
     // Format call duration
@@ -267,6 +382,24 @@ app.post('/api/generate-report', async (req, res) => {
         `;
       }
     }
+    // Build Lead HTML (captured live from the customer's answers)
+    let leadHtml = '';
+    if (lead) {
+      const decisionMaker = lead.isDecisionMaker === undefined ? '' : lead.isDecisionMaker ? 'Yes' : 'No';
+      leadHtml = `
+        <div style="background: #e8f5e9; padding: 16px; border-radius: 8px; margin-bottom: 24px;">
+          <h2 style="margin: 0 0 12px 0; font-size: 18px; color: #2e7d32;">📝 Lead</h2>
+          <table style="width: 100%; font-size: 14px;">
+            ${lead.name ? `<tr><td style="padding: 6px 0; color: #666; vertical-align: top; width: 120px;">👤 Name:</td><td style="padding: 6px 0;">${lead.name}</td></tr>` : ''}
+            ${lead.businessName ? `<tr><td style="padding: 6px 0; color: #666; vertical-align: top; width: 120px;">🏢 Business:</td><td style="padding: 6px 0;">${lead.businessName}</td></tr>` : ''}
+            ${lead.email ? `<tr><td style="padding: 6px 0; color: #666; vertical-align: top; width: 120px;">📧 Email:</td><td style="padding: 6px 0;">${lead.email}</td></tr>` : ''}
+            ${decisionMaker ? `<tr><td style="padding: 6px 0; color: #666; vertical-align: top; width: 120px;">✅ Decision Maker:</td><td style="padding: 6px 0;">${decisionMaker}</td></tr>` : ''}
+            ${lead.callbackTime ? `<tr><td style="padding: 6px 0; color: #666; vertical-align: top; width: 120px;">📅 Callback:</td><td style="padding: 6px 0;">${lead.callbackTime}</td></tr>` : ''}
+          </table>
+        </div>
+      `;
+    }
+
     // Build complete email HTML
     const emailHtml = `
 <!DOCTYPE html>
@@ -287,6 +420,7 @@ app.post('/api/generate-report', async (req, res) => {
       <h2 style="margin: 0 0 12px 0; font-size: 18px; color: #333;">📊 Call Summary</h2>
       <table style="width: 100%; font-size: 14px;">
         <tr><td style="padding: 4px 0; color: #666;">Conversation ID:</td><td style="padding: 4px 0;">${callMetadata.conversationId}</td></tr>
+        <tr><td style="padding: 4px 0; color: #666;">Playbook:</td><td style="padding: 4px 0;">${playbook.name}</td></tr>
         <tr><td style="padding: 4px 0; color: #666;">Duration:</td><td style="padding: 4px 0;"><strong>${durationStr}</strong></td></tr>
         <tr><td style="padding: 4px 0; color: #666;">Started:</td><td style="padding: 4px 0;">${startTimeStr}</td></tr>
         <tr><td style="padding: 4px 0; color: #666;">Ended:</td><td style="padding: 4px 0;">${endTimeStr}</td></tr>
@@ -295,6 +429,8 @@ app.post('/api/generate-report', async (req, res) => {
       </table>
     </div>
     
+    ${leadHtml}
+    
     ${intelligenceHtml}
     
     ${entitiesHtml}
@@ -639,7 +775,8 @@ app.post('/api/transcribe/chunk', async (req, res) => {
             sessionId,
             error: error.message,
           });
-        }
+        },
+        { language: parseLanguage(req.body.language) }
       );
     }
 
@@ -744,328 +881,1122 @@ io.use((socket, next) => {
  */
 app.post('/api/ai/generate', (req, res) => aiController.generate(req, res));
 
+// ============================================================================
+// CONVERSATION HISTORY ENDPOINTS
+// ============================================================================
 
-// Socket.io connection handler
-io.on('connection', (socket: Socket) => {
-  serverLogger.info('Client connected', { socketId: socket.id });
+/**
+ * GET /api/conversations
+ *
+ * List stored conversations (newest first, without transcripts).
+ * Requires x-api-key header.
+ *
+ * @query {string} [agentId] - Only this agent's calls
+ * @query {string} [state] - Coaching state (IDLE, DISPLAYING_TIP, ...)
+ * @query {string} [status] - 'active' or 'ended'
+ * @query {string} [from] - Started at or after (ms epoch or ISO date)
+ * @query {string} [to] - Started at or before (ms epoch or ISO date)
+ * @query {number} [limit] - Page size (default 50, max 200)
+ * @query {number} [offset] - Page offset
+ */
+app.get('/api/conversations', requireApiKey, (req, res) => conversationController.list(req, res));
 
-  // Track active timers for auto mode
-  const autoModeTimers: Map<string, NodeJS.Timeout> = new Map();
+/**
+ * GET /api/conversations/:id
+ *
+ * Conversation record with full transcript, every AI tip issued,
+ * which option was selected and the coaching state history.
+ * Requires x-api-key header.
+ */
+app.get('/api/conversations/:id', requireApiKey, (req, res) => conversationController.get(req, res));
 
-  // Track response capture timeouts (event-driven mode)
-  const responseTimeouts: Map<string, NodeJS.Timeout> = new Map();
-  const reactionTimeouts: Map<string, NodeJS.Timeout> = new Map();
+/**
+ * GET /api/conversations/:id/turns
+ *
+ * Coaching turns: tip selected, what the agent actually said, how the
+ * customer reacted, timings and the next tip it triggered.
+ * Requires x-api-key header.
+ */
+app.get('/api/conversations/:id/turns', requireApiKey, (req, res) => conversationController.turns(req, res));
 
-  // ========================================================================
-  // START_CONVERSATION - Initialize new conversation session
-  // ========================================================================
-  socket.on('START_CONVERSATION', async (payload: StartConversationPayload) => {
-    try {
-      serverLogger.info('Starting conversation', { agentId: payload.agentId });
+/**
+ * GET /api/conversations/:id/adherence
+ *
+ * Script adherence for the call: per-turn scores plus the call aggregate
+ * (average, and per level how often the customer responded).
+ * Requires x-api-key header.
+ */
+app.get('/api/conversations/:id/adherence', requireApiKey, (req, res) =>
+  conversationController.adherence(req, res)
+);
 
-      const conversation = conversationService.startConversation(
-        payload.agentId,
-        payload.metadata
-      );
+/**
+ * GET /api/conversations/:id/export
+ *
+ * Download the transcript (and tips) as JSON, CSV, SRT or WebVTT.
+ * Subtitle cues are timed from segment timestamps relative to call start
+ * and labelled Agent / Customer.
+ * Requires x-api-key header.
+ *
+ * @query {string} [format] - json (default) | csv | srt | vtt
+ * @query {boolean} [tips] - Include inline AI tip markers (csv / srt / vtt)
+ */
+app.get('/api/conversations/:id/export', requireApiKey, (req, res) => conversationController.export(req, res));
 
-      socket.emit('CONVERSATION_STARTED', {
-        type: 'CONVERSATION_STARTED',
-        payload: {
-          conversationId: conversation.id,
-          timestamp: Date.now(),
-        },
-      });
+/**
+ * GET /api/conversations/:id/intelligence
+ *
+ * Post-call summary, sentiment, intents, topics and entities generated
+ * from the stored transcript after END_CONVERSATION (404 until ready).
+ * Requires x-api-key header.
+ */
+app.get('/api/conversations/:id/intelligence', requireApiKey, (req, res) =>
+  conversationController.intelligence(req, res)
+);
 
-      serverLogger.info('Conversation started', { conversationId: conversation.id });
+/**
+ * GET /api/conversations/:id/placeholders
+ *
+ * Placeholder values used for this call's scripts, where each came from
+ * (lead, metadata, campaign, playbook, agent, defaults, fallback) and any library
+ * placeholders left unresolved.
+ * Requires x-api-key header.
+ */
+app.get('/api/conversations/:id/placeholders', requireApiKey, (req, res) =>
+  conversationController.placeholders(req, res)
+);
 
-      // Start 3-minute warmup timer
-      setTimeout(async () => {
-        try {
-          const transcriptHistory = conversationService.getTranscriptHistory(conversation.id);
-          const greeting = await aiAnalysisService.generateGreetingTip(
-            conversation.id,
-            transcriptHistory
-          );
-
-          // Store recommendation for later retrieval
-          conversationService.storeRecommendation(greeting);
-          conversationService.updateState(conversation.id, 'DISPLAYING_TIP');
-
-          socket.emit('AI_TIP', {
-            type: 'AI_TIP',
-            payload: greeting,
-          });
+/**
+ * PUT /api/conversations/:id/outcome
+ *
+ * Set whether the call booked a callback (e.g. from the CRM), replacing the
+ * outcome recorded when the call ended. Experiment results use it.
+ * Requires x-api-key header.
+ *
+ * @body {boolean} callbackBooked
+ */
+app.put('/api/conversations/:id/outcome', requireApiKey, (req, res) => conversationController.outcome(req, res));
 
-          serverLogger.info('Warmup complete - greeting sent', {
-            conversationId: conversation.id,
-          });
+// ============================================================================
+// LLM USAGE ENDPOINTS
+// ============================================================================
 
-          // Start auto mode periodic tips (every 30 seconds)
-          const periodicTimer = setInterval(async () => {
-            try {
-              const history = conversationService.getTranscriptHistory(conversation.id);
-              const tip = await aiAnalysisService.generatePeriodicTip(conversation.id, history);
-
-              // Store recommendation
-              conversationService.storeRecommendation(tip);
-              conversationService.updateState(conversation.id, 'DISPLAYING_TIP');
-
-              socket.emit('AI_TIP', {
-                type: 'AI_TIP',
-                payload: tip,
-              });
-
-              conversationService.updateLastAnalysisTime(conversation.id);
-              serverLogger.info('Periodic tip sent', { conversationId: conversation.id });
-            } catch (error: any) {
-              serverLogger.error('Error generating periodic tip', {
-                conversationId: conversation.id,
-                error: error.message,
-              });
-            }
-          }, 30 * 1000);
-
-          autoModeTimers.set(conversation.id, periodicTimer);
-        } catch (error: any) {
-          serverLogger.error('Error generating greeting', {
-            conversationId: conversation.id,
-            error: error.message,
-          });
+/**
+ * GET /api/usage
+ *
+ * LLM requests, tokens and cost (USD, from the price table), optionally
+ * broken down by agent, conversation, operation, model or UTC day.
+ * Requires x-api-key header.
+ *
+ * @query {string} [agentId] - Only this agent's usage
+ * @query {string} [conversationId] - Only this call's usage
+ * @query {string} [operation] - greeting | contextual | periodic | persona | callMemory | postCall
+ * @query {string} [from] - At or after (ms epoch or ISO date)
+ * @query {string} [to] - At or before (ms epoch or ISO date)
+ * @query {string} [groupBy] - agent | conversation | operation | model | day
+ */
+app.get('/api/usage', requireApiKey, (req, res) => usageController.summary(req, res));
 
-          socket.emit('ERROR', {
-            type: 'ERROR',
-            payload: {
-              conversationId: conversation.id,
-              message: 'Failed to generate greeting',
-              code: 'GREETING_ERROR',
-              timestamp: Date.now(),
-            },
-          });
-        }
-      }, 3 * 60 * 1000); // 3 minutes
-    } catch (error: any) {
-      serverLogger.error('Error starting conversation', { error: error.message });
-      socket.emit('ERROR', {
-        type: 'ERROR',
-        payload: {
-          message: 'Failed to start conversation',
-          code: 'START_ERROR',
-          timestamp: Date.now(),
-        },
-      });
-    }
-  });
+/**
+ * GET /api/usage/budget
+ *
+ * Today's spend (UTC) against LLM_DAILY_BUDGET_USD and LLM_AGENT_DAILY_BUDGET_USD.
+ * Requires x-api-key header.
+ */
+app.get('/api/usage/budget', requireApiKey, (req, res) => usageController.budget(req, res));
 
-  // ========================================================================
-  // TRANSCRIPT - Receive transcript from client
-  // ========================================================================
-  socket.on('TRANSCRIPT', async (payload: TranscriptPayload) => {
-    try {
-      const { conversationId, speaker, text, isFinal, timestamp } = payload;
+// ============================================================================
+// PLAYBOOK ENDPOINTS
+// ============================================================================
 
-      if (!isFinal) {
-        // Ignore interim transcripts
-        return;
-      }
+/**
+ * GET /api/playbooks
+ *
+ * Configured playbooks (id for START_CONVERSATION metadata.playbookId, name,
+ * goal script, persona and published library version).
+ * Requires x-api-key header.
+ */
+app.get('/api/playbooks', requireApiKey, (req, res) => playbookController.list(req, res));
 
-      const transcript: TranscriptSegment = {
-        speaker,
-        text,
-        timestamp,
-        confidence: 1.0, // Deepgram provides this, but we'll default to 1.0
-      };
+/**
+ * GET /api/playbooks/:id
+ *
+ * One playbook with the scripts of its published library.
+ * Requires x-api-key header.
+ */
+app.get('/api/playbooks/:id', requireApiKey, (req, res) => playbookController.get(req, res));
 
-      // Always store transcript in history
-      const success = conversationService.addTranscript(conversationId, transcript);
-      if (!success) {
-        serverLogger.warn('Failed to add transcript - conversation not found', {
-          conversationId,
-        });
-        return;
-      }
+// ============================================================================
+// EXPERIMENT ENDPOINTS
+// ============================================================================
 
-      // Get conversation to check state
-      const conversation = conversationService.getConversation(conversationId);
-      if (!conversation || !conversation.state) {
-        return; // No state machine active
-      }
+/**
+ * GET /api/experiments
+ *
+ * Script experiments from EXPERIMENTS_PATH (variants, weights, unit, playbook).
+ * Requires x-api-key header.
+ */
+app.get('/api/experiments', requireApiKey, (req, res) => experimentController.list(req, res));
 
-      // ============================================================
-      // STATE MACHINE: Event-Driven Coaching
-      // ============================================================
+/**
+ * GET /api/experiments/:id/results
+ *
+ * Calls offered each variant, callbacks booked, conversion rate and its 95%
+ * confidence interval (Wilson score).
+ * Requires x-api-key header.
+ */
+app.get('/api/experiments/:id/results', requireApiKey, (req, res) => experimentController.results(req, res));
 
-      // STATE: CAPTURING_AGENT_RESPONSE
-      // Listening for agent to speak after selecting a script
-      if (conversation.state === 'CAPTURING_AGENT_RESPONSE' && speaker === 'agent') {
-        serverLogger.info('Capturing agent response', {
-          conversationId,
-          textLength: text.length,
-        });
+// ============================================================================
+// SCRIPT LIBRARY ENDPOINTS
+// ============================================================================
+// Every change creates a new version of a playbook's library; tips use the published
+// version (stamped as libraryVersion on each AI_TIP) until another one is published.
+// ?playbookId= selects the playbook (default: local-web-design).
 
-        // Append agent response
-        conversationService.appendAgentResponse(conversationId, text);
+/**
+ * GET /api/scripts
+ *
+ * Scripts of a library version plus the published version number.
+ * Requires x-api-key header.
+ *
+ * @query {number} [version] - Library version (default: latest)
+ */
+app.get('/api/scripts', requireApiKey, (req, res) => scriptLibraryController.list(req, res));
 
-        // Clear existing timeout
-        const existingTimeout = responseTimeouts.get(conversationId);
-        if (existingTimeout) {
-          clearTimeout(existingTimeout);
-        }
+/**
+ * GET /api/scripts/versions
+ *
+ * Version history (author, message, diff) and publications, newest first.
+ * Requires x-api-key header.
+ */
+app.get('/api/scripts/versions', requireApiKey, (req, res) => scriptLibraryController.versions(req, res));
 
-        // Set new timeout - 3 seconds of silence = agent finished
-        const newTimeout = setTimeout(async () => {
-          const conv = conversationService.getConversation(conversationId);
-          if (!conv) return;
+/**
+ * GET /api/scripts/graph
+ *
+ * Playbook graph (scripts and their intent transitions) with its problems:
+ * unknown targets, stage moves the tracker refuses, unreachable scripts and dead ends.
+ * Requires x-api-key header.
+ *
+ * @query {number} [version] - Library version (default: latest)
+ * @query {string} [format] - json (default) | dot (Graphviz)
+ */
+app.get('/api/scripts/graph', requireApiKey, (req, res) => scriptLibraryController.graph(req, res));
 
-          serverLogger.info('Agent finished speaking - listening for customer reaction', {
-            conversationId,
-            capturedResponse: conv.capturedResponse?.substring(0, 100),
-          });
+/**
+ * GET /api/scripts/export
+ *
+ * Download a library version as a file: YAML (list of scripts) or CSV (one row per script,
+ * transitions as "intent:scriptId; ..."). Requires x-api-key header.
+ *
+ * @query {number} [version] - Library version (default: latest)
+ * @query {string} [format] - yaml (default) | csv
+ */
+app.get('/api/scripts/export', requireApiKey, (req, res) => scriptLibraryController.export(req, res));
 
-          // Transition to next state
-          conversationService.updateState(conversationId, 'CAPTURING_CUSTOMER_REACTION');
+/**
+ * POST /api/scripts/import
+ *
+ * Replace the library with a YAML or CSV file sent as the body (same layout as the export).
+ * Creates a new version (not published); rows that are not valid scripts reject the file
+ * with their row numbers. Requires x-api-key header.
+ *
+ * @query {string} [format] - yaml | csv (default: from Content-Type)
+ * @query {string} author - Required unless dryRun
+ * @query {string} [message]
+ * @query {boolean} [dryRun] - Only return the diff and playbook graph problems
+ */
+app.post(
+  '/api/scripts/import',
+  requireApiKey,
+  express.text({ type: SCRIPT_FILE_MEDIA_TYPES, limit: '1mb' }),
+  (req, res) => scriptLibraryController.import(req, res)
+);
 
-          // Start customer reaction timeout (30 seconds)
-          const reactionTimeout = setTimeout(async () => {
-            serverLogger.warn('Customer reaction timeout - generating tip anyway', {
-              conversationId,
-            });
-            await generateContextualNextTip(conversationId);
-          }, 30000);
+/**
+ * GET /api/scripts/versions/:version
+ *
+ * One library version with its scripts.
+ * Requires x-api-key header.
+ */
+app.get('/api/scripts/versions/:version', requireApiKey, (req, res) => scriptLibraryController.version(req, res));
 
-          reactionTimeouts.set(conversationId, reactionTimeout);
-        }, 3000); // 3 seconds of silence
+/**
+ * POST /api/scripts/versions/:version/publish
+ *
+ * Make a version the one tips draw from.
+ * Requires x-api-key header.
+ *
+ * @body {string} author
+ */
+app.post('/api/scripts/versions/:version/publish', requireApiKey, (req, res) =>
+  scriptLibraryController.publish(req, res)
+);
 
-        responseTimeouts.set(conversationId, newTimeout);
-      }
+/**
+ * POST /api/scripts/rollback
+ *
+ * Copy an earlier version into a new version and publish it.
+ * Requires x-api-key header.
+ *
+ * @body {number} version - Version to restore
+ * @body {string} author
+ */
+app.post('/api/scripts/rollback', requireApiKey, (req, res) => scriptLibraryController.rollback(req, res));
 
-      // STATE: CAPTURING_CUSTOMER_REACTION
-      // Listening for customer to respond
-      else if (conversation.state === 'CAPTURING_CUSTOMER_REACTION' && speaker === 'caller') {
-        serverLogger.info('Capturing customer reaction', {
-          conversationId,
-          textLength: text.length,
-        });
+/**
+ * GET /api/scripts/:id
+ *
+ * One script of the latest version.
+ * Requires x-api-key header.
+ */
+app.get('/api/scripts/:id', requireApiKey, (req, res) => scriptLibraryController.get(req, res));
 
-        // Append customer reaction
-        conversationService.appendCustomerReaction(conversationId, text);
+/**
+ * POST /api/scripts
+ *
+ * Add a script (creates a new, unpublished version).
+ * Requires x-api-key header.
+ *
+ * @body {string} id, stage, label, text, [condition]
+ * @body {string} author
+ * @body {string} [message] - Change note
+ */
+app.post('/api/scripts', requireApiKey, (req, res) => scriptLibraryController.create(req, res));
 
-        // Clear existing timeout
-        const existingTimeout = reactionTimeouts.get(conversationId);
-        if (existingTimeout) {
-          clearTimeout(existingTimeout);
-        }
+/**
+ * PUT /api/scripts/:id
+ *
+ * Change a script's stage, label, text or condition (empty condition removes it).
+ * Creates a new, unpublished version.
+ * Requires x-api-key header.
+ *
+ * @body {string} [stage], [label], [text], [condition]
+ * @body {string} author
+ * @body {string} [message] - Change note
+ */
+app.put('/api/scripts/:id', requireApiKey, (req, res) => scriptLibraryController.update(req, res));
 
-        // Set new timeout - 3 seconds of silence = customer finished
-        const newTimeout = setTimeout(async () => {
-          const conv = conversationService.getConversation(conversationId);
-          if (!conv) return;
+/**
+ * DELETE /api/scripts/:id
+ *
+ * Remove a script (creates a new, unpublished version).
+ * Requires x-api-key header.
+ *
+ * @body {string} author
+ * @body {string} [message] - Change note
+ */
+app.delete('/api/scripts/:id', requireApiKey, (req, res) => scriptLibraryController.remove(req, res));
 
-          serverLogger.info('Customer finished responding - generating next tip', {
-            conversationId,
-            customerReaction: conv.customerReaction?.substring(0, 100),
-          });
 
-          // Generate next tip NOW
-          await generateContextualNextTip(conversationId);
-        }, 3000); // 3 seconds of silence
+// ============================================================================
+// COACHING SESSION TIMERS
+// ============================================================================
+// Keyed by conversationId (not socket) so RESUME_CONVERSATION can reattach a
+// live call to a new socket after a network blip. Timer output goes to the
+// conversation's Socket.io room, which every attached socket joins.
+
+const WARMUP_DELAY_MS = 3 * 60 * 1000; // 3 minutes before the first tip
+const AUTO_TIP_INTERVAL_MS = 30 * 1000; // Auto mode: every 30 seconds
+const SILENCE_TIMEOUT_MS = 3000; // 3 seconds of silence = speaker finished
+const REACTION_TIMEOUT_MS = 30000; // Give up waiting for the customer after 30 seconds
+
+interface PausedSession {
+  warmupRemainingMs?: number; // Set if the greeting had not been sent yet
+  autoMode: boolean; // Periodic tips were running
+  pausedAt: number;
+}
 
-        reactionTimeouts.set(conversationId, newTimeout);
-      }
-    } catch (error: any) {
-      serverLogger.error('Error processing transcript', {
-        error: error.message,
-        conversationId: payload.conversationId,
-      });
-    }
-  });
+const warmupTimers: Map<string, NodeJS.Timeout> = new Map();
+const warmupDueAt: Map<string, number> = new Map();
+const autoModeTimers: Map<string, NodeJS.Timeout> = new Map();
+const responseTimeouts: Map<string, NodeJS.Timeout> = new Map();
+const reactionTimeouts: Map<string, NodeJS.Timeout> = new Map();
+const pausedSessions: Map<string, PausedSession> = new Map();
 
-  // ========================================================================
-  // HELPER: Generate contextual next tip
-  // ========================================================================
-  async function generateContextualNextTip(conversationId: string): Promise<void> {
-    try {
-      const conversation = conversationService.getConversation(conversationId);
-      if (!conversation) {
-        serverLogger.warn('Conversation not found for tip generation', { conversationId });
-        return;
-      }
+/**
+ * Emit an event to every socket attached to a conversation
+ */
+function emitToConversation(conversationId: string, type: string, payload: any): void {
+  io.to(conversationId).emit(type, { type, payload });
+}
 
-      // Update state
-      conversationService.updateState(conversationId, 'GENERATING_NEXT');
+/**
+ * Move the tracked call stage to the stage of a tip just sent and tell the client
+ * Moves the stage tracker does not allow are logged and ignored
+ */
+function trackStage(conversationId: string, tip: AITipPayload): void {
+  const change = conversationService.changeStage(conversationId, tip.stage, tip.recommendationId);
+  if (!change) return;
 
-      // Build payload for AI analysis
-      const payload: RequestNextTipPayload = {
-        conversationId,
-        selectedRecommendationId: conversation.lastSelectedRecommendationId || '',
-        selectedOption: 1, // Not used in contextual generation
-        selectedScript: conversation.lastSelectedScript || '',
-        agentResponse: conversation.capturedResponse
-          ? {
-              speaker: 'agent',
-              text: conversation.capturedResponse,
-              timestamp: conversation.responseTimestamp || Date.now(),
-              confidence: 1.0,
-            }
-          : undefined,
-        customerReaction: conversation.customerReaction
-          ? {
-              speaker: 'caller',
-              text: conversation.customerReaction,
-              timestamp: conversation.reactionTimestamp || Date.now(),
-              confidence: 1.0,
-            }
-          : undefined,
-        transcriptHistory: conversationService.getTranscriptHistory(conversationId),
-        timestamp: Date.now(),
-      };
+  const payload: StageChangedPayload = { conversationId, ...change };
+  emitToConversation(conversationId, 'STAGE_CHANGED', payload);
+}
 
-      serverLogger.info('Generating contextual tip with captured context', {
-        conversationId,
-        hasAgentResponse: !!payload.agentResponse,
-        hasCustomerReaction: !!payload.customerReaction,
-        historyLength: payload.transcriptHistory.length,
-      });
+/**
+ * Schedule the greeting tip, then start auto mode
+ */
+function scheduleWarmup(conversationId: string, delayMs: number): void {
+  warmupDueAt.set(conversationId, Date.now() + delayMs);
 
-      // Generate tip
-      const tip = await aiAnalysisService.generateContextualTip(payload);
+  const timer = setTimeout(async () => {
+    warmupTimers.delete(conversationId);
+    warmupDueAt.delete(conversationId);
 
-      // Store recommendation
-      conversationService.storeRecommendation(tip);
+    try {
+      const greeting = await coachingTip(conversationId, () =>
+        aiAnalysisService.generateGreetingTip(tipContext(conversationId), (partial) =>
+          emitToConversation(conversationId, 'AI_TIP_PARTIAL', withExperimentsPartial(conversationId, partial))
+        )
+      );
 
-      // Reset response capture state
-      conversationService.resetResponseCapture(conversationId);
+      // Store recommendation for later retrieval
+      conversationService.storeRecommendation(greeting);
+      conversationService.updateState(conversationId, 'DISPLAYING_TIP');
 
-      // Send to client
-      socket.emit('AI_TIP', {
-        type: 'AI_TIP',
-        payload: tip,
+      emitToConversation(conversationId, 'AI_TIP', greeting);
+      trackStage(conversationId, greeting);
+
+      serverLogger.info('Warmup complete - greeting sent', { conversationId });
+
+      startAutoMode(conversationId);
+    } catch (error: any) {
+      serverLogger.error('Error generating greeting', {
+        conversationId,
+        error: error.message,
       });
 
-      serverLogger.info('Contextual tip sent', {
+      emitToConversation(conversationId, 'ERROR', {
         conversationId,
-        heading: tip.heading,
-        responseTime: Date.now() - (conversation.lastScriptTimestamp || Date.now()),
+        message: 'Failed to generate greeting',
+        code: 'GREETING_ERROR',
+        timestamp: Date.now(),
       });
+    }
+  }, delayMs);
+
+  warmupTimers.set(conversationId, timer);
+}
+
+/**
+ * Start auto mode periodic tips
+ */
+function startAutoMode(conversationId: string): void {
+  const periodicTimer = setInterval(async () => {
+    // LLM budget spent and LLM_BUDGET_ACTION=pause: no auto tips until the budget resets
+    if (usageService.autoTipsPaused(conversationService.getConversation(conversationId)?.agentId)) {
+      serverLogger.debug('Periodic tip skipped - LLM budget exceeded', { conversationId });
+      return;
+    }
+
+    try {
+      const tip = await coachingTip(conversationId, () =>
+        aiAnalysisService.generatePeriodicTip(tipContext(conversationId), (partial) =>
+          emitToConversation(conversationId, 'AI_TIP_PARTIAL', withExperimentsPartial(conversationId, partial))
+        )
+      );
+
+      // Store recommendation
+      conversationService.storeRecommendation(tip);
+      conversationService.updateState(conversationId, 'DISPLAYING_TIP');
+
+      emitToConversation(conversationId, 'AI_TIP', tip);
+      trackStage(conversationId, tip);
+
+      conversationService.updateLastAnalysisTime(conversationId);
+      serverLogger.info('Periodic tip sent', { conversationId });
     } catch (error: any) {
-      serverLogger.error('Error generating contextual tip', {
+      serverLogger.error('Error generating periodic tip', {
         conversationId,
         error: error.message,
       });
+    }
+  }, AUTO_TIP_INTERVAL_MS);
 
-      // Reset state on error
-      conversationService.updateState(conversationId, 'DISPLAYING_TIP');
+  autoModeTimers.set(conversationId, periodicTimer);
+}
+
+/**
+ * Agent silence: once the agent stops talking, listen for the customer
+ */
+function scheduleAgentSilence(conversationId: string): void {
+  const existingTimeout = responseTimeouts.get(conversationId);
+  if (existingTimeout) {
+    clearTimeout(existingTimeout);
+  }
+
+  const newTimeout = setTimeout(() => {
+    responseTimeouts.delete(conversationId);
+
+    const conv = conversationService.getConversation(conversationId);
+    if (!conv) return;
+
+    serverLogger.info('Agent finished speaking - listening for customer reaction', {
+      conversationId,
+      capturedResponse: conv.capturedResponse?.substring(0, 100),
+    });
+
+    emitAdherenceScore(conversationId);
+
+    // Transition to next state
+    conversationService.updateState(conversationId, 'CAPTURING_CUSTOMER_REACTION');
+
+    scheduleReactionTimeout(conversationId);
+  }, SILENCE_TIMEOUT_MS);
+
+  responseTimeouts.set(conversationId, newTimeout);
+}
+
+/**
+ * Score the captured agent response against the selected script and tell the client
+ * Uses the library template when the script id is known so placeholders act as wildcards
+ */
+function emitAdherenceScore(conversationId: string): void {
+  const conv = conversationService.getConversation(conversationId);
+  if (!conv?.capturedResponse || !conv.lastSelectedScript || !conv.lastSelectedRecommendationId) return;
+
+  const script = publishedScripts(conv.playbookId).find((s) => s.id === conv.lastSelectedScriptId);
+  const template = script && localizeScript(script, conv.language).text;
+  const adherence = scoreAdherence(template || conv.lastSelectedScript, conv.capturedResponse);
+  conversationService.storeAdherence(conversationId, adherence);
+
+  const payload: AdherenceScorePayload = {
+    conversationId,
+    recommendationId: conv.lastSelectedRecommendationId,
+    scriptId: conv.lastSelectedScriptId,
+    ...adherence,
+    timestamp: Date.now(),
+  };
+  emitToConversation(conversationId, 'ADHERENCE_SCORE', payload);
+
+  serverLogger.info('Adherence scored', {
+    conversationId,
+    scriptId: conv.lastSelectedScriptId,
+    score: adherence.score,
+    level: adherence.level,
+  });
+}
+
+/**
+ * Placeholder values for this call's golden scripts (see PlaceholderService for precedence)
+ */
+function placeholderValuesFor(conversationId: string): PlaceholderValues {
+  const conv = conversationService.getConversation(conversationId);
+  return conv ? placeholderService.resolve(conv).values : DEFAULT_PLACEHOLDER_VALUES;
+}
+
+/**
+ * Playbook the call uses (scripts, goal, persona)
+ */
+function playbookFor(conversationId: string): Playbook {
+  return playbookService.get(conversationService.getConversation(conversationId)?.playbookId);
+}
+
+/**
+ * Language the call is coached in (scripts, tips)
+ */
+function languageFor(conversationId: string): ScriptLanguage {
+  return conversationService.getConversation(conversationId)?.language || DEFAULT_LANGUAGE;
+}
+
+/**
+ * Server-side call state a greeting or periodic tip is generated from
+ */
+function tipContext(conversationId: string): TipContext {
+  const conv = conversationService.getConversation(conversationId);
+  return {
+    conversationId,
+    transcriptHistory: conversationService.getTranscriptHistory(conversationId),
+    callMemory: conv?.callMemory,
+    placeholders: placeholderValuesFor(conversationId),
+    currentStage: conv?.stage,
+    scriptUsage: conv?.scriptUsage,
+    playbook: playbookFor(conversationId),
+    language: languageFor(conversationId),
+  };
+}
+
+/**
+ * Switch the call to the language transcription identified and tell the client
+ */
+function updateCallLanguage(conversationId: string, language: ScriptLanguage): void {
+  if (!conversationService.setLanguage(conversationId, language)) return;
+
+  const payload: LanguageDetectedPayload = { conversationId, language, timestamp: Date.now() };
+  emitToConversation(conversationId, 'LANGUAGE_DETECTED', payload);
+}
+
+/**
+ * Count a strike if the caller segment is an objection
+ */
+function recordObjection(conversationId: string, segment: TranscriptSegment): void {
+  const objection = objectionService.detect(segment.text, segment.timestamp);
+  if (objection) {
+    conversationService.recordObjection(conversationId, objection);
+  }
+}
+
+/**
+ * Tip forced by an escalation rule once the call reaches its strike threshold (fires once per rule)
+ */
+function escalationTip(conversationId: string): AITipPayload | undefined {
+  const conv = conversationService.getConversation(conversationId);
+  const rule = conv && objectionService.dueEscalation(conv);
+  if (!conv || !rule) return undefined;
+
+  const strikes = conv.objections?.length || 0;
+  conversationService.markEscalated(conversationId, rule.name);
+  serverLogger.info('Escalation rule applied', { conversationId, rule: rule.name, strikes });
+
+  return objectionService.buildEscalationTip(
+    conversationId,
+    rule,
+    strikes,
+    placeholderValuesFor(conversationId),
+    conv.playbookId,
+    conv.language
+  );
+}
+
+/**
+ * Attach the call's current strike count so the agent can see it
+ */
+function withStrikes(conversationId: string, tip: AITipPayload): AITipPayload {
+  return { ...tip, strikes: conversationService.getConversation(conversationId)?.objections?.length || 0 };
+}
+
+/**
+ * Offer the call's experiment variants in place of the scripts they are tested against
+ */
+function withExperiments(conversationId: string, tip: AITipPayload): AITipPayload {
+  const conv = conversationService.getConversation(conversationId);
+  return conv ? experimentService.applyToTip(conv, tip, placeholderValuesFor(conversationId)) : tip;
+}
+
+/**
+ * Same for the script streamed ahead of the tip, so the partial matches the AI_TIP that follows
+ */
+function withExperimentsPartial(conversationId: string, partial: AITipPartialPayload): AITipPartialPayload {
+  const conv = conversationService.getConversation(conversationId);
+  return conv ? experimentService.applyToPartial(conv, partial, placeholderValuesFor(conversationId)) : partial;
+}
+
+/**
+ * Next tip for a call: the escalation rule that is due (its scripts as configured),
+ * otherwise the generated tip with experiment variants applied; strikes attached to both
+ */
+async function coachingTip(conversationId: string, generate: () => Promise<AITipPayload>): Promise<AITipPayload> {
+  const escalation = escalationTip(conversationId);
+  return withStrikes(conversationId, escalation ?? withExperiments(conversationId, await generate()));
+}
+
+/**
+ * Capture lead details from a caller segment and tell the client what changed
+ * The selected script (while waiting for the customer) or the agent's last words say what was asked
+ */
+function captureLead(conversationId: string, callerText: string): void {
+  const conv = conversationService.getConversation(conversationId);
+  if (!conv) return;
+
+  const lastAgentText = [...conv.transcriptHistory].reverse().find((t) => t.speaker === 'agent')?.text;
+  const scriptId = conv.state === 'CAPTURING_CUSTOMER_REACTION' ? conv.lastSelectedScriptId : undefined;
+
+  const fields = extractLeadFields(callerText, detectLeadQuestion(scriptId, lastAgentText));
+  const updatedFields = conversationService.updateLead(conversationId, fields);
+  if (updatedFields.length === 0 || !conv.lead) return;
+
+  const payload: LeadUpdatedPayload = {
+    conversationId,
+    lead: conv.lead,
+    updatedFields,
+    timestamp: Date.now(),
+  };
+  emitToConversation(conversationId, 'LEAD_UPDATED', payload);
+}
+
+/**
+ * Build post-call intelligence from the full transcript, store it and tell the client
+ * Deepgram calls get this from Deepgram; AWS Transcribe calls only get it from here
+ */
+async function generatePostCallIntelligence(conversationId: string): Promise<void> {
+  const conv = conversationService.getConversation(conversationId);
+  if (!conv || conv.transcriptHistory.length === 0) return;
+
+  try {
+    const analysis = await aiAnalysisService.generatePostCallAnalysis(
+      conversationId,
+      conv.transcriptHistory,
+      conv.callMemory,
+      playbookFor(conversationId)
+    );
+    conversationService.storePostCallAnalysis(conversationId, analysis);
+
+    const payload: PostCallIntelligencePayload = { conversationId, ...analysis };
+    emitToConversation(conversationId, 'POST_CALL_INTELLIGENCE', payload);
+  } catch (error: any) {
+    serverLogger.error('Error generating post-call intelligence', {
+      conversationId,
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Customer never responded: generate the next tip anyway
+ */
+function scheduleReactionTimeout(conversationId: string): void {
+  const existingTimeout = reactionTimeouts.get(conversationId);
+  if (existingTimeout) {
+    clearTimeout(existingTimeout);
+  }
+
+  const reactionTimeout = setTimeout(async () => {
+    reactionTimeouts.delete(conversationId);
+    serverLogger.warn('Customer reaction timeout - generating tip anyway', {
+      conversationId,
+    });
+    await generateContextualNextTip(conversationId);
+  }, REACTION_TIMEOUT_MS);
+
+  reactionTimeouts.set(conversationId, reactionTimeout);
+}
+
+/**
+ * Customer silence: once the customer stops talking, generate the next tip
+ */
+function scheduleCustomerSilence(conversationId: string): void {
+  const existingTimeout = reactionTimeouts.get(conversationId);
+  if (existingTimeout) {
+    clearTimeout(existingTimeout);
+  }
+
+  const newTimeout = setTimeout(async () => {
+    reactionTimeouts.delete(conversationId);
+
+    const conv = conversationService.getConversation(conversationId);
+    if (!conv) return;
+
+    serverLogger.info('Customer finished responding - generating next tip', {
+      conversationId,
+      customerReaction: conv.customerReaction?.substring(0, 100),
+    });
+
+    // Generate next tip NOW
+    await generateContextualNextTip(conversationId);
+  }, SILENCE_TIMEOUT_MS);
+
+  reactionTimeouts.set(conversationId, newTimeout);
+}
+
+/**
+ * Clear every coaching timer for a conversation
+ */
+function stopCoachingTimers(conversationId: string): void {
+  const warmup = warmupTimers.get(conversationId);
+  if (warmup) clearTimeout(warmup);
+  warmupTimers.delete(conversationId);
+  warmupDueAt.delete(conversationId);
+
+  const autoTimer = autoModeTimers.get(conversationId);
+  if (autoTimer) clearInterval(autoTimer);
+  autoModeTimers.delete(conversationId);
+
+  const responseTimeout = responseTimeouts.get(conversationId);
+  if (responseTimeout) clearTimeout(responseTimeout);
+  responseTimeouts.delete(conversationId);
+
+  const reactionTimeout = reactionTimeouts.get(conversationId);
+  if (reactionTimeout) clearTimeout(reactionTimeout);
+  reactionTimeouts.delete(conversationId);
+}
+
+/**
+ * Last socket left a live conversation: stop timers but remember what was running
+ */
+function pauseCoaching(conversationId: string): void {
+  const conversation = conversationService.getConversation(conversationId);
+
+  if (conversation && !conversation.endTime) {
+    const dueAt = warmupDueAt.get(conversationId);
+    pausedSessions.set(conversationId, {
+      warmupRemainingMs: dueAt !== undefined ? Math.max(dueAt - Date.now(), 0) : undefined,
+      autoMode: autoModeTimers.has(conversationId),
+      pausedAt: Date.now(),
+    });
+
+    serverLogger.info('Coaching paused - waiting for RESUME_CONVERSATION', {
+      conversationId,
+      state: conversation.state,
+    });
+  }
+
+  stopCoachingTimers(conversationId);
+}
+
+/**
+ * Restart the timers a paused conversation had, based on where the state machine was
+ */
+function resumeCoaching(conversationId: string): void {
+  const paused = pausedSessions.get(conversationId);
+  const conversation = conversationService.getConversation(conversationId);
+  if (!paused || !conversation) return;
+
+  pausedSessions.delete(conversationId);
+
+  if (paused.warmupRemainingMs !== undefined) {
+    scheduleWarmup(conversationId, paused.warmupRemainingMs);
+  } else if (paused.autoMode) {
+    startAutoMode(conversationId);
+  }
+
+  // Event-driven state machine: re-arm the silence / reaction timeout we were waiting on
+  if (conversation.state === 'CAPTURING_AGENT_RESPONSE' && conversation.capturedResponse) {
+    scheduleAgentSilence(conversationId);
+  } else if (conversation.state === 'CAPTURING_CUSTOMER_REACTION') {
+    if (conversation.customerReaction) {
+      scheduleCustomerSilence(conversationId);
+    } else {
+      scheduleReactionTimeout(conversationId);
+    }
+  }
+
+  serverLogger.info('Coaching resumed', {
+    conversationId,
+    state: conversation.state,
+    pausedFor: Date.now() - paused.pausedAt,
+  });
+}
+
+/**
+ * Generate contextual next tip (event-driven mode)
+ */
+async function generateContextualNextTip(conversationId: string): Promise<void> {
+  try {
+    const conversation = conversationService.getConversation(conversationId);
+    if (!conversation) {
+      serverLogger.warn('Conversation not found for tip generation', { conversationId });
+      return;
+    }
+
+    // Update state
+    conversationService.updateState(conversationId, 'GENERATING_NEXT');
+
+    // Build payload for AI analysis
+    const payload: RequestNextTipPayload = {
+      conversationId,
+      selectedRecommendationId: conversation.lastSelectedRecommendationId || '',
+      selectedOption: 1, // Not used in contextual generation
+      selectedScript: conversation.lastSelectedScript || '',
+      agentResponse: conversation.capturedResponse
+        ? {
+            speaker: 'agent',
+            text: conversation.capturedResponse,
+            timestamp: conversation.responseTimestamp || Date.now(),
+            confidence: 1.0,
+          }
+        : undefined,
+      customerReaction: conversation.customerReaction
+        ? {
+            speaker: 'caller',
+            text: conversation.customerReaction,
+            timestamp: conversation.reactionTimestamp || Date.now(),
+            confidence: 1.0,
+          }
+        : undefined,
+      transcriptHistory: conversationService.getTranscriptHistory(conversationId),
+      callMemory: conversation.callMemory,
+      placeholders: placeholderValuesFor(conversationId),
+      currentStage: conversationService.getConversation(conversationId)?.stage,
+      objections: conversation.objections,
+      scriptUsage: conversation.scriptUsage,
+      playbook: playbookFor(conversationId),
+      language: languageFor(conversationId),
+      timestamp: Date.now(),
+    };
+
+    serverLogger.info('Generating contextual tip with captured context', {
+      conversationId,
+      hasAgentResponse: !!payload.agentResponse,
+      hasCustomerReaction: !!payload.customerReaction,
+      historyLength: payload.transcriptHistory.length,
+    });
+
+    // Generate tip, streaming the heading and first script as soon as they are known
+    // (an escalation rule due after enough strikes replaces it)
+    let suggestedAt: number | undefined;
+    const tip = await coachingTip(conversationId, () =>
+      aiAnalysisService.generateContextualTip(payload, (partial) => {
+        suggestedAt = partial.timestamp;
+        emitToConversation(conversationId, 'AI_TIP_PARTIAL', withExperimentsPartial(conversationId, partial));
+      })
+    );
+
+    // Store recommendation
+    conversationService.storeRecommendation(tip);
+
+    // Record the finished turn (with end of customer speech -> first suggestion), then reset response capture state
+    conversationService.completeCoachingTurn(conversationId, tip.recommendationId, suggestedAt ?? Date.now());
+    conversationService.resetResponseCapture(conversationId);
+
+    // Send to client
+    emitToConversation(conversationId, 'AI_TIP', tip);
+    trackStage(conversationId, tip);
+
+    serverLogger.info('Contextual tip sent', {
+      conversationId,
+      heading: tip.heading,
+      responseTime: Date.now() - (conversation.lastScriptTimestamp || Date.now()),
+    });
+  } catch (error: any) {
+    serverLogger.error('Error generating contextual tip', {
+      conversationId,
+      error: error.message,
+    });
+
+    // Keep the turn (without a next tip) and reset state on error
+    conversationService.completeCoachingTurn(conversationId);
+    conversationService.updateState(conversationId, 'DISPLAYING_TIP');
+
+    emitToConversation(conversationId, 'ERROR', {
+      conversationId,
+      message: 'Failed to generate next tip',
+      code: 'CONTEXTUAL_TIP_ERROR',
+      timestamp: Date.now(),
+    });
+  }
+}
+
+// Socket.io connection handler
+io.on('connection', (socket: Socket) => {
+  serverLogger.info('Client connected', { socketId: socket.id });
+
+  // Conversations this socket is attached to (its Socket.io rooms)
+  const attachedConversations: Set<string> = new Set();
+
+  function attachConversation(conversationId: string): void {
+    socket.join(conversationId);
+    attachedConversations.add(conversationId);
+  }
+
+  // ========================================================================
+  // START_CONVERSATION - Initialize new conversation session
+  // ========================================================================
+  socket.on('START_CONVERSATION', async (payload: StartConversationPayload) => {
+    try {
+      serverLogger.info('Starting conversation', { agentId: payload.agentId });
 
+      // metadata.playbookId picks the playbook (unknown or missing: the default one)
+      const playbook = playbookService.select(payload.metadata);
+      const language = parseLanguage(payload.language);
+      if (payload.language !== undefined && !language) {
+        serverLogger.warn('Unsupported call language, coaching in the default one', {
+          agentId: payload.agentId,
+          language: payload.language,
+          supported: SCRIPT_LANGUAGES,
+        });
+      }
+      const conversation = conversationService.startConversation(
+        payload.agentId,
+        payload.metadata,
+        playbook.id,
+        language || DEFAULT_LANGUAGE
+      );
+
+      attachConversation(conversation.id);
+
+      const { unresolved } = placeholderService.resolve(conversation);
+      if (unresolved.length > 0) {
+        serverLogger.warn('Script placeholders without a value for this call', {
+          conversationId: conversation.id,
+          agentId: payload.agentId,
+          unresolved,
+        });
+      }
+
+      socket.emit('CONVERSATION_STARTED', {
+        type: 'CONVERSATION_STARTED',
+        payload: {
+          conversationId: conversation.id,
+          playbookId: playbook.id,
+          language: conversation.language,
+          timestamp: Date.now(),
+        },
+      });
+
+      serverLogger.info('Conversation started', {
+        conversationId: conversation.id,
+        playbookId: playbook.id,
+        language: conversation.language,
+      });
+
+      // Start 3-minute warmup timer
+      scheduleWarmup(conversation.id, WARMUP_DELAY_MS);
+    } catch (error: any) {
+      serverLogger.error('Error starting conversation', { error: error.message });
       socket.emit('ERROR', {
         type: 'ERROR',
         payload: {
+          message: 'Failed to start conversation',
+          code: 'START_ERROR',
+          timestamp: Date.now(),
+        },
+      });
+    }
+  });
+
+  // ========================================================================
+  // RESUME_CONVERSATION - Reattach a reconnected socket to a live conversation
+  // ========================================================================
+  socket.on('RESUME_CONVERSATION', (payload: ResumeConversationPayload) => {
+    try {
+      const { conversationId } = payload;
+      const conversation = conversationService.getConversation(conversationId);
+
+      if (!conversation || conversation.endTime) {
+        serverLogger.warn('Cannot resume conversation', {
           conversationId,
-          message: 'Failed to generate next tip',
-          code: 'CONTEXTUAL_TIP_ERROR',
+          reason: conversation ? 'ended' : 'not found',
+        });
+        socket.emit('ERROR', {
+          type: 'ERROR',
+          payload: {
+            conversationId,
+            message: conversation ? 'Conversation has ended' : 'Conversation not found',
+            code: 'RESUME_ERROR',
+            timestamp: Date.now(),
+          },
+        });
+        return;
+      }
+
+      attachConversation(conversationId);
+      resumeCoaching(conversationId);
+
+      socket.emit('CONVERSATION_RESUMED', {
+        type: 'CONVERSATION_RESUMED',
+        payload: {
+          conversationId,
+          state: conversation.state,
+          stage: conversation.stage,
+          timestamp: Date.now(),
+        },
+      });
+
+      // Re-send the tip the agent was looking at before the disconnect
+      const lastTip = conversationService.getLatestRecommendation(conversationId);
+      if (lastTip) {
+        socket.emit('AI_TIP', {
+          type: 'AI_TIP',
+          payload: lastTip,
+        });
+      }
+
+      serverLogger.info('Conversation resumed', {
+        socketId: socket.id,
+        conversationId,
+        state: conversation.state,
+        resentTip: !!lastTip,
+      });
+    } catch (error: any) {
+      serverLogger.error('Error resuming conversation', {
+        error: error.message,
+        conversationId: payload.conversationId,
+      });
+      socket.emit('ERROR', {
+        type: 'ERROR',
+        payload: {
+          conversationId: payload.conversationId,
+          message: 'Failed to resume conversation',
+          code: 'RESUME_ERROR',
           timestamp: Date.now(),
         },
       });
     }
-  }
+  });
+
+  // ========================================================================
+  // TRANSCRIPT - Receive transcript from client
+  // ========================================================================
+  socket.on('TRANSCRIPT', async (payload: TranscriptPayload) => {
+    try {
+      const { conversationId, speaker, text, isFinal, timestamp } = payload;
+
+      if (!isFinal) {
+        // Ignore interim transcripts
+        return;
+      }
+
+      const transcript: TranscriptSegment = {
+        speaker,
+        text,
+        timestamp,
+        confidence: 1.0, // Deepgram provides this, but we'll default to 1.0
+      };
+
+      // Always store transcript in history
+      const success = conversationService.addTranscript(conversationId, transcript);
+      if (!success) {
+        serverLogger.warn('Failed to add transcript - conversation not found', {
+          conversationId,
+        });
+        return;
+      }
+
+      // Fold older segments into the rolling call memory (background)
+      callMemoryService.onTranscript(conversationId);
+
+      if (speaker === 'caller') {
+        captureLead(conversationId, text);
+        recordObjection(conversationId, transcript);
+      }
+
+      // Get conversation to check state
+      const conversation = conversationService.getConversation(conversationId);
+      if (!conversation || !conversation.state) {
+        return; // No state machine active
+      }
+
+      // ============================================================
+      // STATE MACHINE: Event-Driven Coaching
+      // ============================================================
+
+      // STATE: CAPTURING_AGENT_RESPONSE
+      // Listening for agent to speak after selecting a script
+      if (conversation.state === 'CAPTURING_AGENT_RESPONSE' && speaker === 'agent') {
+        serverLogger.info('Capturing agent response', {
+          conversationId,
+          textLength: text.length,
+        });
+
+        // Append agent response
+        conversationService.appendAgentResponse(conversationId, text);
+
+        // Restart silence timer - 3 seconds of silence = agent finished
+        scheduleAgentSilence(conversationId);
+      }
+
+      // STATE: CAPTURING_CUSTOMER_REACTION
+      // Listening for customer to respond
+      else if (conversation.state === 'CAPTURING_CUSTOMER_REACTION' && speaker === 'caller') {
+        serverLogger.info('Capturing customer reaction', {
+          conversationId,
+          textLength: text.length,
+        });
+
+        // Append customer reaction
+        conversationService.appendCustomerReaction(conversationId, text);
+
+        // Restart silence timer - 3 seconds of silence = customer finished
+        scheduleCustomerSilence(conversationId);
+      }
+    } catch (error: any) {
+      serverLogger.error('Error processing transcript', {
+        error: error.message,
+        conversationId: payload.conversationId,
+      });
+    }
+  });
 
   // ========================================================================
   // OPTION_SELECTED - User selected a dialogue option
@@ -1102,7 +2033,8 @@ io.on('connection', (socket: Socket) => {
         payload.recommendationId,
         payload.selectedOption,
         selectedOption.script,
-        selectedOption.label
+        selectedOption.label,
+        selectedOption.id
       );
 
       if (success) {
@@ -1133,12 +2065,30 @@ io.on('connection', (socket: Socket) => {
       });
 
       // Generate contextual tip based on actual conversation flow
-      const tip = await aiAnalysisService.generateContextualTip(payload);
+      // (call memory and placeholder values are server-side state, the client never sends them)
+      // (as are objections, which can trigger an escalation rule instead)
+      const tip = await coachingTip(payload.conversationId, () =>
+        aiAnalysisService.generateContextualTip({
+          ...payload,
+          ...tipContext(payload.conversationId),
+          transcriptHistory: payload.transcriptHistory,
+          objections: conversationService.getConversation(payload.conversationId)?.objections,
+        }, (partial) =>
+          socket.emit('AI_TIP_PARTIAL', {
+            type: 'AI_TIP_PARTIAL',
+            payload: withExperimentsPartial(payload.conversationId, partial),
+          })
+        )
+      );
+
+      // Store recommendation so OPTION_SELECTED and resume can find it
+      conversationService.storeRecommendation(tip);
 
       socket.emit('AI_TIP', {
         type: 'AI_TIP',
         payload: tip,
       });
+      trackStage(payload.conversationId, tip);
 
       serverLogger.info('Contextual tip sent', {
         conversationId: payload.conversationId,
@@ -1167,23 +2117,43 @@ io.on('connection', (socket: Socket) => {
   // ========================================================================
   socket.on('REQUEST_ALTERNATIVE_TIP', async (payload: { conversationId: string; currentStage: import('./types').ConversationStage; currentScriptId?: string }) => {
     try {
+      // The server-tracked stage; the client's only for calls the server does not know
+      const conv = conversationService.getConversation(payload.conversationId);
+      const currentStage = conv?.stage ?? payload.currentStage;
       serverLogger.info('Generating alternative tip', {
         conversationId: payload.conversationId,
-        stage: payload.currentStage,
+        stage: currentStage,
+        clientStage: payload.currentStage,
         currentScriptId: payload.currentScriptId,
       });
 
-      // Generate alternative tip (strict selection)
-      const tip = await aiAnalysisService.generateAlternativeTip(
+      // Generate alternative tip (next unused script for the stage, from the usage ledger)
+      // The rotation skips experiment variants the call was not assigned; the tip is stamped like any other
+      const tip = withStrikes(
         payload.conversationId,
-        payload.currentStage,
-        payload.currentScriptId
+        withExperiments(
+          payload.conversationId,
+          aiAnalysisService.generateAlternativeTip({
+            conversationId: payload.conversationId,
+            currentStage,
+            currentScriptId: payload.currentScriptId,
+            withheldScriptIds: conv ? experimentService.withheldScripts(conv) : [],
+            scriptUsage: conv?.scriptUsage,
+            placeholders: placeholderValuesFor(payload.conversationId),
+            playbook: playbookFor(payload.conversationId),
+            language: languageFor(payload.conversationId),
+          })
+        )
       );
 
+      // Store recommendation so OPTION_SELECTED and resume can find it
+      conversationService.storeRecommendation(tip);
+
       socket.emit('AI_TIP', {
         type: 'AI_TIP',
         payload: tip,
       });
+      trackStage(payload.conversationId, tip);
 
       serverLogger.info('Alternative tip sent', {
         conversationId: payload.conversationId,
@@ -1214,24 +2184,26 @@ io.on('connection', (socket: Socket) => {
     try {
       const { conversationId } = payload;
 
-      // Clear auto mode timer if exists
-      const timer = autoModeTimers.get(conversationId);
-      if (timer) {
-        clearInterval(timer);
-        autoModeTimers.delete(conversationId);
-      }
+      // Clear warmup, auto mode and response capture timers
+      stopCoachingTimers(conversationId);
+      pausedSessions.delete(conversationId);
 
-      conversationService.endConversation(conversationId);
+      // Outcome reported by the agent (callback booked or not), otherwise detected from the lead
+      conversationService.endConversation(conversationId, payload.outcome?.callbackBooked);
 
       socket.emit('CONVERSATION_ENDED', {
         type: 'CONVERSATION_ENDED',
         payload: {
           conversationId,
+          outcome: conversationService.getConversation(conversationId)?.outcome,
           timestamp: Date.now(),
         },
       });
 
       serverLogger.info('Conversation ended', { conversationId });
+
+      // Summary, sentiment, intents, topics and entities (non-blocking)
+      void generatePostCallIntelligence(conversationId);
     } catch (error: any) {
       serverLogger.error('Error ending conversation', {
         error: error.message,
@@ -1275,11 +2247,17 @@ io.on('connection', (socket: Socket) => {
         return;
       }
 
-      const { sessionId } = payload;
+      const { sessionId, conversationId, identifyLanguage } = payload;
+      // The requested language, else the linked call's language
+      const language =
+        parseLanguage(payload.language) || (conversationId && languageFor(conversationId)) || DEFAULT_LANGUAGE;
 
       serverLogger.info('Starting transcription session', {
         socketId: socket.id,
         sessionId,
+        conversationId,
+        language,
+        identifyLanguage: Boolean(identifyLanguage),
       });
 
       // Start AWS Transcribe session
@@ -1292,10 +2270,16 @@ io.on('connection', (socket: Socket) => {
             isFinal: result.isFinal,
             speaker: result.speaker,
             confidence: result.confidence,
+            language: result.language,
             sessionId,
             timestamp: result.timestamp,
           };
 
+          // Identified language of a final result switches the linked call's coaching language
+          if (identifyLanguage && conversationId && result.isFinal && result.language) {
+            updateCallLanguage(conversationId, result.language);
+          }
+
           socket.emit('TRANSCRIPTION_RESULT', {
             type: 'TRANSCRIPTION_RESULT',
             payload: response,
@@ -1324,7 +2308,8 @@ io.on('connection', (socket: Socket) => {
             sessionId,
             error: error.message,
           });
-        }
+        },
+        { language, identifyLanguage }
       );
 
       // Acknowledge session start
@@ -1332,6 +2317,8 @@ io.on('connection', (socket: Socket) => {
         type: 'TRANSCRIPTION_STARTED',
         payload: {
           sessionId,
+          language,
+          identifyLanguage: Boolean(identifyLanguage),
           timestamp: Date.now(),
         },
       });
@@ -1506,16 +2493,15 @@ io.on('connection', (socket: Socket) => {
   socket.on('disconnect', (reason) => {
     serverLogger.info('Client disconnected', { socketId: socket.id, reason });
 
-    // Clean up all auto mode timers for this socket
-    autoModeTimers.forEach((timer) => clearInterval(timer));
-    autoModeTimers.clear();
-
-    // Clean up response capture timeouts
-    responseTimeouts.forEach((timeout) => clearTimeout(timeout));
-    responseTimeouts.clear();
-
-    reactionTimeouts.forEach((timeout) => clearTimeout(timeout));
-    reactionTimeouts.clear();
+    // Pause coaching for conversations no other socket is attached to
+    // (the socket has already left its rooms at this point)
+    // Timers restart when a new socket sends RESUME_CONVERSATION
+    attachedConversations.forEach((conversationId) => {
+      if (!io.sockets.adapter.rooms.get(conversationId)?.size) {
+        pauseCoaching(conversationId);
+      }
+    });
+    attachedConversations.clear();
 
     // Clean up transcription sessions
     // Note: We don't have socket-to-session mapping here
@@ -1533,14 +2519,43 @@ io.on('connection', (socket: Socket) => {
   });
 });
 
-// Start server
+/**
+ * Re-read the script library every SCRIPT_LIBRARY_REFRESH_MS (default 30 s, 0 = never),
+ * so versions published on another instance reach this instance's tips
+ */
+function startScriptLibraryRefresh(): void {
+  const intervalMs = Number(process.env.SCRIPT_LIBRARY_REFRESH_MS ?? 30_000);
+  if (!(intervalMs > 0)) return;
+
+  setInterval(() => {
+    scriptLibraryService.refresh().catch((error: any) => {
+      serverLogger.error('Failed to refresh the script library', { error: error.message });
+    });
+  }, intervalMs).unref();
+}
+
+// Start server (after the conversation store is ready, today's LLM spend and the
+// published script library are loaded)
 const PORT = process.env.PORT || 8080;
-httpServer.listen(PORT, () => {
-  serverLogger.info(`Server running on port ${PORT}`);
-  serverLogger.info(`Environment: ${process.env.NODE_ENV || 'development'}`);
-  serverLogger.info(`Environment: ${process.env.NODE_ENV || 'development'}`);
-  serverLogger.info(`CORS configured dynamically`);
-});
+conversationService
+  .init()
+  .then(() => usageService.init())
+  .then(() => scriptLibraryService.init())
+  .then(() => {
+    startScriptLibraryRefresh();
+    httpServer.listen(PORT, () => {
+      serverLogger.info(`Server running on port ${PORT}`);
+      serverLogger.info(`Environment: ${process.env.NODE_ENV || 'development'}`);
+      serverLogger.info(`CORS configured dynamically`);
+    });
+  })
+  .catch((error: any) => {
+    serverLogger.error('Failed to initialize conversation store', {
+      error: error.message,
+      stack: error.stack,
+    });
+    process.exit(1);
+  });
 
 // Graceful shutdown
 process.on('SIGTERM', async () => {
@@ -1558,7 +2573,15 @@ process.on('SIGTERM', async () => {
     }
   }
 
-  httpServer.close(() => {
+  httpServer.close(async () => {
+    try {
+      await conversationService.close();
+    } catch (error: any) {
+      serverLogger.error('Error closing conversation store', {
+        error: error.message,
+      });
+    }
+
     serverLogger.info('Server closed');
     process.exit(0);
   });
@@ -1580,7 +2603,15 @@ process.on('SIGINT', async () => {
     }
   }
 
-  httpServer.close(() => {
+  httpServer.close(async () => {
+    try {
+      await conversationService.close();
+    } catch (error: any) {
+      serverLogger.error('Error closing conversation store', {
+        error: error.message,
+      });
+    }
+
     serverLogger.info('Server closed');
     process.exit(0);
   });
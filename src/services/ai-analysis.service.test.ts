@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { AIAnalysisService } from './ai-analysis.service';
+import { LLMClient, OPERATION_DEFAULTS, type LLMProvider } from '../llm';
+import { DEFAULT_PLAYBOOK } from '../constants/playbooks';
+import type { LLMCompletionRequest, LLMOperation, LLMOperationConfig } from '../types';
+
+/**
+ * openai-compatible stub (json_object only, no enforced id enum) answering with the given option ids in turn
+ */
+function stubService(optionIds: string[]) {
+  const requests: LLMCompletionRequest[] = [];
+  const provider: LLMProvider = {
+    name: 'openai-compatible',
+    async complete(request) {
+      requests.push(request);
+      const id = optionIds[Math.min(requests.length, optionIds.length) - 1];
+      return {
+        content: JSON.stringify({ heading: 'Open Call', stage: 'GREETING', options: [{ id }], context: 'Call start' }),
+        provider: 'openai-compatible',
+        model: 'stub',
+      };
+    },
+  };
+  const operations = Object.fromEntries(
+    Object.keys(OPERATION_DEFAULTS).map((operation) => [operation, { provider: 'openai-compatible', model: 'stub' }])
+  ) as Record<LLMOperation, Pick<LLMOperationConfig, 'provider' | 'model'>>;
+
+  return { service: new AIAnalysisService(new LLMClient(new Map([['openai-compatible', provider]]), operations)), requests };
+}
+
+describe('AIAnalysisService tip approval', () => {
+  it('repairs a tip whose script was not offered in the prompt', async () => {
+    const { service, requests } = stubService(['final-close', 'intro-basic']);
+
+    const tip = await service.generateGreetingTip({ conversationId: 'conv-1', transcriptHistory: [] });
+
+    expect(tip.fallback).toBeUndefined();
+    expect(tip.options.map((option) => option.id)).toEqual(['intro-basic']);
+    expect(requests).toHaveLength(2);
+    expect(requests[1].messages[requests[1].messages.length - 1].content).toContain('rejected (unapproved_script)');
+  });
+
+  it('falls back instead of sending a script of another stage', async () => {
+    const { service, requests } = stubService(['final-close']);
+
+    const tip = await service.generateGreetingTip({ conversationId: 'conv-1', transcriptHistory: [] });
+
+    expect(requests).toHaveLength(2);
+    expect(tip.fallback).toBe(true);
+    expect(tip.options.map((option) => option.id)).not.toContain('final-close');
+  });
+
+  it('fails instead of sending a tip without options when the playbook library is not loaded', async () => {
+    const { service } = stubService(['intro-basic']);
+    const playbook = { ...DEFAULT_PLAYBOOK, id: 'not-loaded' };
+
+    await expect(service.generateGreetingTip({ conversationId: 'conv-1', transcriptHistory: [], playbook })).rejects.toThrow(
+      'No scripts for a fallback tip (unapproved_script) in playbook "not-loaded"'
+    );
+    expect(() =>
+      service.generateAlternativeTip({ conversationId: 'conv-1', currentStage: 'DISCOVERY', playbook })
+    ).toThrow('No scripts for a fallback tip (no_stage_scripts) in playbook "not-loaded"');
+  });
+
+  it('never approves a script the agent already spoke on the call', async () => {
+    const { service, requests } = stubService(['intro-basic', 'opener-check']);
+
+    const tip = await service.generatePeriodicTip({
+      conversationId: 'conv-1',
+      transcriptHistory: [],
+      currentStage: 'GREETING',
+      scriptUsage: [{ scriptId: 'intro-basic', event: 'spoken', timestamp: Date.now() - 3_600_000 }],
+    });
+
+    expect(requests).toHaveLength(2);
+    expect(tip.options.map((option) => option.id)).toEqual(['opener-check']);
+  });
+});
@@ -1,34 +1,72 @@
-import OpenAI from 'openai';
 import { v4 as uuidv4 } from 'uuid';
 
 import type {
+  AITipPartialPayload,
+  AlternativeTipRequest,
+  LLMMessage,
   AITipPayload,
+  CallIntelligence,
+  CallMemory,
+  PostCallAnalysis,
   ConversationStage,
-  DialogueOption,
+  LLMOperation,
+  PlaceholderValues,
+  Playbook,
+  QualityScript,
+  ScriptLanguage,
+  ScriptUsage,
+  TipContext,
   TranscriptSegment,
   RequestNextTipPayload,
 } from '../types';
-import { QUALITY_SCRIPTS } from '../constants/quality-scripts';
+import type { LLMClient } from '../llm';
+import { DEFAULT_PLAYBOOK } from '../constants/playbooks';
+import { DEFAULT_LANGUAGE, LANGUAGE_NAMES } from '../constants/languages';
+import { extractContactInfo, mergeEntities } from '../utils/entity-extraction';
+import { DEFAULT_PLACEHOLDER_VALUES, enforceGoldenScripts } from '../utils/script-enforcement';
+import { buildFallbackTip, lastCallerText, type FallbackContext } from '../utils/fallback-tips';
+import { publishedScripts } from '../utils/golden-library';
+import { parsePartialTip } from '../utils/partial-tip';
+import { availableScripts, nextAlternativeScript } from '../utils/script-usage';
+import { currentScriptId, nextScripts } from '../utils/script-graph';
+import { CONVERSATION_STAGES, reachableStages } from '../utils/stage-tracker';
+import {
+  classifyTipFailure,
+  isRepairable,
+  parseTipOutput,
+  tipOutputSchema,
+  TipOutputError,
+} from '../utils/tip-output';
 import { logger } from '../utils/logger';
 
+// One tip prompt, run through the shared output contract by completeTip
+interface TipRequest {
+  recommendationId: string;
+  conversationId: string;
+  messages: LLMMessage[];
+  scriptIds: string[]; // Library offered in the prompt (schema enum for option ids, the only ids approved)
+  stages?: ConversationStage[]; // Stages the tip may be in (default: all)
+  placeholders: PlaceholderValues;
+  playbookId: string;
+  language: ScriptLanguage; // Options are shown in this language (English where a script has no translation)
+  onPartial?: (partial: AITipPartialPayload) => void;
+}
+
+const MAX_TIP_ATTEMPTS = 2; // First try plus one repair retry
+
 /**
  * AI Analysis Service
  *
- * Handles OpenAI GPT-4o-mini integration for generating coaching tips
+ * Generates coaching tips through the LLM provider layer (provider and model per operation)
+ * Tip completions are streamed; onPartial gets the heading and first script before the full tip
+ * Tips only offer and approve scripts the call's usage ledger does not block (cooldown / already spoken)
+ * Scripts, persona and goal come from the call's playbook (the default one if none is given)
  * Supports both:
  * - Auto mode: Generate tips every 30 seconds based on recent transcripts
  * - Event-driven mode: Generate contextual tips based on actual conversation flow
  */
 export class AIAnalysisService {
-  private openai: OpenAI;
-
-  constructor() {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is required');
-    }
-
-    this.openai = new OpenAI({ apiKey });
+  constructor(private readonly llm: LLMClient) {
     logger.info('AI Analysis Service initialized');
   }
 
@@ -37,267 +75,239 @@ export class AIAnalysisService {
    * Used after 3-minute warmup or in auto mode
    */
   async generateGreetingTip(
-    conversationId: string,
-    transcriptHistory: TranscriptSegment[]
+    context: TipContext,
+    onPartial?: (partial: AITipPartialPayload) => void
   ): Promise<AITipPayload> {
-    logger.info('Generating greeting tip', { conversationId, transcriptCount: transcriptHistory.length });
+    const recommendationId = uuidv4();
+    try {
+      return await this.requestGreetingTip(recommendationId, context, onPartial);
+    } catch (error: any) {
+      return this.fallbackTip('greeting', error, {
+        recommendationId,
+        conversationId: context.conversationId,
+        lastCallerText: lastCallerText(context.transcriptHistory),
+        stage: 'GREETING',
+        scriptUsage: context.scriptUsage,
+        placeholders: context.placeholders || DEFAULT_PLACEHOLDER_VALUES,
+        playbook: context.playbook || DEFAULT_PLAYBOOK,
+        language: context.language,
+      });
+    }
+  }
 
-    const prompt = this.buildGreetingPrompt(transcriptHistory);
+  /**
+   * LLM path of generateGreetingTip
+   */
+  private async requestGreetingTip(
+    recommendationId: string,
+    context: TipContext,
+    onPartial?: (partial: AITipPartialPayload) => void
+  ): Promise<AITipPayload> {
+    const playbook = context.playbook || DEFAULT_PLAYBOOK;
+    const language = context.language || DEFAULT_LANGUAGE;
+    logger.info('Generating greeting tip', {
+      conversationId: context.conversationId,
+      playbookId: playbook.id,
+      language,
+      transcriptCount: context.transcriptHistory.length,
+    });
 
-    const completion = await this.openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const prompt = this.buildGreetingPrompt(context.transcriptHistory, context.callMemory);
+    const library = availableScripts(
+      publishedScripts(playbook.id).filter((s) => s.stage === 'GREETING'),
+      context.scriptUsage
+    ).map(({ next: _next, translations: _translations, ...script }) => script);
+
+    return this.completeTip('greeting', {
+      recommendationId,
+      conversationId: context.conversationId,
+      scriptIds: library.map((s) => s.id),
+      stages: ['GREETING'],
+      placeholders: context.placeholders || DEFAULT_PLACEHOLDER_VALUES,
+      playbookId: playbook.id,
+      language,
+      onPartial,
       messages: [
         {
           role: 'system',
-          content: `You are Mk1 (or Agent), Bob Hansen's assistant at Simple.Biz.
+          content: `You are ${playbook.persona}.
 YOUR ONLY JOB IS TO SELECT A SCRIPT.
 You are FORBIDDEN from generating original text.
 You MUST select one valid object from the GOLDEN SCRIPTS LIBRARY below.
 
 GOLDEN SCRIPTS LIBRARY:
-${JSON.stringify(QUALITY_SCRIPTS.filter(s => s.stage === 'GREETING'), null, 2)}
-
+${JSON.stringify(library, null, 2)}
+${this.languageInstruction(language)}
 INSTRUCTIONS:
 1. Identify the current conversation stage (likely GREETING).
 2. Select the SINGLE BEST SCRIPT from the library.
-3. Replace placeholders: [Agent Name] -> "Mark", [Location] -> "Sacramento", [Customer Name] -> Detect or "there".
-4. DO NOT PARAPHRASE. Use the exact "text" field from the library.
+3. Return the script's "id". The server inserts the exact library text and fills placeholders.
+4. DO NOT PARAPHRASE. Options without a valid library id are discarded.
 
 Return ONLY valid JSON:
 {
   "heading": "2-word max heading",
   "stage": "Detected Stage",
-  "context": "Why this script fits",
   "options": [
-    { "label": "Label from library", "script": "EXACT TEXT from library with placeholders filled" }
-  ]
+    { "id": "id from library", "label": "Label from library" }
+  ],
+  "context": "Why this script fits"
 }`,
         },
         { role: 'user', content: prompt },
       ],
-      temperature: 0.3, // Lower temperature for faster, more consistent results
-      max_tokens: 200, // Reduced for latency
     });
+  }
 
-    const content = completion.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No response from OpenAI');
-    }
-
-    // Clean and parse JSON (handle markdown code blocks, etc.)
-    let parsed;
+  /**
+   * Generate contextual next tip (event-driven mode)
+   * Analyzes what agent actually said vs suggested script
+   * Considers customer reaction to adapt coaching
+   */
+  async generateContextualTip(
+    payload: RequestNextTipPayload,
+    onPartial?: (partial: AITipPartialPayload) => void
+  ): Promise<AITipPayload> {
+    const recommendationId = uuidv4();
     try {
-      const cleanedContent = this.cleanJsonResponse(content);
-      parsed = JSON.parse(cleanedContent);
-
-      // Validate required fields
-      if (!parsed.options || !Array.isArray(parsed.options) || parsed.options.length === 0) {
-        logger.error('Invalid options array in AI response', { options: parsed.options });
-        throw new Error('AI response missing valid options array');
-      }
-
-      // Validate each option has required fields
-      for (const option of parsed.options) {
-        if (!option.label || !option.script) {
-          logger.error('Invalid option in AI response', { option });
-          throw new Error('AI response has option missing label or script');
-        }
-      }
-
-      logger.info('Successfully parsed greeting tip', {
-        heading: parsed.heading,
-        optionCount: parsed.options.length,
-        scriptLengths: parsed.options.map((o: any) => o.script?.length || 0),
-      });
+      return await this.requestContextualTip(recommendationId, payload, onPartial);
     } catch (error: any) {
-      logger.error('Failed to parse greeting tip response', {
-        error: error.message,
-        rawContent: content,
+      return this.fallbackTip('contextual', error, {
+        recommendationId,
+        conversationId: payload.conversationId,
+        lastCallerText: payload.customerReaction?.text || lastCallerText(payload.transcriptHistory),
+        stage: payload.currentStage,
+        scriptUsage: payload.scriptUsage,
+        placeholders: payload.placeholders || DEFAULT_PLACEHOLDER_VALUES,
+        playbook: payload.playbook || DEFAULT_PLAYBOOK,
+        language: payload.language,
       });
-      throw new Error(`Failed to parse AI response: ${error.message}`);
     }
-
-    return {
-      recommendationId: uuidv4(),
-      conversationId,
-      stage: parsed.stage as ConversationStage,
-      heading: parsed.heading,
-      context: parsed.context,
-      options: parsed.options as DialogueOption[],
-      timestamp: Date.now(),
-    };
   }
 
   /**
-   * Generate contextual next tip (event-driven mode)
-   * Analyzes what agent actually said vs suggested script
-   * Considers customer reaction to adapt coaching
+   * LLM path of generateContextualTip
    */
-  async generateContextualTip(payload: RequestNextTipPayload): Promise<AITipPayload> {
+  private async requestContextualTip(
+    recommendationId: string,
+    payload: RequestNextTipPayload,
+    onPartial?: (partial: AITipPartialPayload) => void
+  ): Promise<AITipPayload> {
+    const playbook = payload.playbook || DEFAULT_PLAYBOOK;
+    const language = payload.language || DEFAULT_LANGUAGE;
     logger.info('Generating contextual tip', {
       conversationId: payload.conversationId,
+      playbookId: playbook.id,
+      language,
       selectedOption: payload.selectedOption,
       hasAgentResponse: !!payload.agentResponse,
       hasCustomerReaction: !!payload.customerReaction,
       transcriptCount: payload.transcriptHistory.length,
     });
 
-    const prompt = this.buildContextualPrompt(payload);
+    const prompt = this.buildContextualPrompt(payload, playbook);
+    const placeholders = payload.placeholders || DEFAULT_PLACEHOLDER_VALUES;
+    const { stages, library } = this.stageLibrary(playbook, payload.currentStage, payload.scriptUsage);
+    const goalScript = publishedScripts(playbook.id).find((s) => s.id === playbook.goalScriptId);
 
-    const completion = await this.openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    return this.completeTip('contextual', {
+      recommendationId,
+      conversationId: payload.conversationId,
+      scriptIds: library.map((s) => s.id),
+      stages,
+      placeholders,
+      playbookId: playbook.id,
+      language,
+      onPartial,
       messages: [
         {
           role: 'system',
-          content: `You are Mk1 (or Agent), Bob Hansen's assistant at Simple.Biz.
+          content: `You are ${playbook.persona}.
 YOUR ONLY JOB IS TO SELECT A SCRIPT.
 You are FORBIDDEN from generating original text.
 You MUST select one valid object from the GOLDEN SCRIPTS LIBRARY below.
 
 GOLDEN SCRIPTS LIBRARY:
-${JSON.stringify(QUALITY_SCRIPTS, null, 2)}
-
+${JSON.stringify(library, null, 2)}
+${this.graphInstruction(library)}${this.languageInstruction(language)}
 INSTRUCTIONS:
 1. Analyze the conversation history and the user's latest input.
-2. Determine the current Conversation Stage (GREETING, VALUE_PROP, OBJECTION_HANDLING, CLOSING, CONVERSION).
+2. ${this.stageInstruction(payload.currentStage, stages)}
 3. Select the SINGLE BEST SCRIPT from the library that matches the context.
-4. FILL PLACEHOLDERS ONLY: [Agent Name] -> "Mark", [Location] -> "Sacramento", [Customer Name] -> Detect or "there".
-5. DO NOT PARAPHRASE. Use the exact "text" field from the library.
+4. Return the script's "id". The server inserts the exact library text and fills placeholders.
+5. DO NOT PARAPHRASE. Options without a valid library id are discarded.
 
 CRITICAL OVERRIDE:
-The user's GOAL is to make the customer agree for a callback from Bob.
-Unless the customer is completely rejecting, you MUST prioritize scripts involved with CLOSING or OBJECTION_HANDLING that lead to the "Ask for Call" (id: 'ask-callback') script.
-If the conversation is in a neutral or positive state, suggest 'ask-callback'.
+The user's GOAL is to ${playbook.goal}.
+Unless the customer is completely rejecting, you MUST prioritize scripts involved with CLOSING or OBJECTION_HANDLING that lead to the "${goalScript?.label || 'Goal'}" (id: '${playbook.goalScriptId}') script.
+If the conversation is in a neutral or positive state, suggest '${playbook.goalScriptId}'.
 
 Return ONLY valid JSON:
 {
   "heading": "2-word max heading (e.g. 'Handle Objection')",
   "stage": "Detected Stage",
-  "context": "Why this specific script was selected based on the last user message",
   "options": [
-    { "label": "Label from library", "script": "EXACT TEXT from library with placeholders filled" }
-  ]
+    { "id": "id from library", "label": "Label from library" }
+  ],
+  "context": "Why this specific script was selected based on the last user message"
 }`,
         },
         { role: 'user', content: prompt },
       ],
-      temperature: 0.4, // Lowered for consistency
-      max_tokens: 250, // Reduced for latency
     });
-
-    const content = completion.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No response from OpenAI');
-    }
-
-    // Clean and parse JSON (handle markdown code blocks, etc.)
-    let parsed;
-    try {
-      const cleanedContent = this.cleanJsonResponse(content);
-      parsed = JSON.parse(cleanedContent);
-
-      // Validate required fields
-      if (!parsed.options || !Array.isArray(parsed.options) || parsed.options.length === 0) {
-        logger.error('Invalid options array in AI response', { options: parsed.options });
-        throw new Error('AI response missing valid options array');
-      }
-
-      // Validate each option has required fields
-      for (const option of parsed.options) {
-        if (!option.label || !option.script) {
-          logger.error('Invalid option in AI response', { option });
-          throw new Error('AI response has option missing label or script');
-        }
-      }
-
-      logger.info('Successfully parsed contextual tip', {
-        heading: parsed.heading,
-        optionCount: parsed.options.length,
-        scriptLengths: parsed.options.map((o: any) => o.script?.length || 0),
-      });
-    } catch (error: any) {
-      logger.error('Failed to parse contextual tip response', {
-        error: error.message,
-        rawContent: content,
-      });
-      throw new Error(`Failed to parse AI response: ${error.message}`);
-    }
-
-    return {
-      recommendationId: uuidv4(),
-      conversationId: payload.conversationId,
-      stage: parsed.stage as ConversationStage,
-      heading: parsed.heading,
-      context: parsed.context,
-      options: parsed.options as DialogueOption[],
-      timestamp: Date.now(),
-    };
   }
 
   /**
-   * Generate an alternative tip (Strict Golden Script cycling)
+   * Generate an alternative tip (Strict Golden Script cycling, no LLM)
    * Used when user clicks "Next Tip" / "Cycle"
-   * STRICTLY selects a different script from the Quality Library
+   * Offers the stage's next script not yet used on this call, in library order
    */
-  async generateAlternativeTip(
-    conversationId: string,
-    currentStage: ConversationStage,
-    currentScriptId?: string
-  ): Promise<AITipPayload> {
-    logger.info('Generating alternative tip', { conversationId, currentStage, currentScriptId });
-
-    const completion = await this.openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: `You are Mk1. YOUR ONLY JOB IS TO SELECT A DIFFERENT SCRIPT.
-You are FORBIDDEN from generating original text.
-You MUST select one valid object from the GOLDEN SCRIPTS LIBRARY below.
-
-GOLDEN SCRIPTS LIBRARY:
-${JSON.stringify(
-  QUALITY_SCRIPTS.filter((s) => s.stage === currentStage),
-  null,
-  2
-)}
-
-INSTRUCTIONS:
-1. Review the "GOLDEN SCRIPTS LIBRARY" for the stage: "${currentStage}".
-2. Select a script that is DIFFERENT from the current script ID: "${currentScriptId || 'none'}".
-3. If no other script exists for this stage, return the same one but acknowledge it's the best fit.
-4. Replace placeholders: [Agent Name] -> "Mark", [Location] -> "Sacramento", [Customer Name] -> Detect or "there".
-5. DO NOT PARAPHRASE. Use the exact "text" field.
-
-Return ONLY valid JSON:
-{
-  "heading": "Alternative Option",
-  "stage": "${currentStage}",
-  "context": "Why this alternative approach might work better",
-  "options": [
-    { "label": "Label from library", "script": "EXACT TEXT from library", "id": "id from library" }
-  ]
-}`,
-        },
-        { role: 'user', content: `Give me an alternative script for stage: ${currentStage}` },
-      ],
-      temperature: 0.2, // Low temp for strict selection
-      max_tokens: 250,
+  generateAlternativeTip(request: AlternativeTipRequest): AITipPayload {
+    const { conversationId, currentStage, currentScriptId, scriptUsage } = request;
+    const placeholders = request.placeholders || DEFAULT_PLACEHOLDER_VALUES;
+    const playbook = request.playbook || DEFAULT_PLAYBOOK;
+    const language = request.language || DEFAULT_LANGUAGE;
+    const withheld = new Set(request.withheldScriptIds);
+    const library = publishedScripts(playbook.id).filter((s) => s.stage === currentStage && !withheld.has(s.id));
+    const script = nextAlternativeScript(library, scriptUsage, currentScriptId);
+
+    logger.info('Generating alternative tip', {
+      conversationId,
+      playbookId: playbook.id,
+      currentStage,
+      currentScriptId,
+      scriptId: script?.id,
     });
 
-    const content = completion.choices[0]?.message?.content;
-    if (!content) throw new Error('No response from OpenAI');
+    if (!script) {
+      // No golden scripts for this stage (e.g. DISCOVERY): the rule-based engine picks
+      return buildFallbackTip({
+        conversationId,
+        stage: currentStage,
+        scriptUsage,
+        placeholders,
+        playbook,
+        language,
+        reason: 'no_stage_scripts',
+      });
+    }
 
-    const cleanedContent = this.cleanJsonResponse(content);
-    const parsed = JSON.parse(cleanedContent);
+    const { options, unresolved, libraryVersion } = enforceGoldenScripts(
+      [{ id: script.id }],
+      placeholders,
+      playbook.id,
+      language
+    );
 
     return {
       recommendationId: uuidv4(),
       conversationId,
-      stage: parsed.stage as ConversationStage,
-      heading: parsed.heading,
-      context: parsed.context,
-      options: parsed.options as DialogueOption[],
+      stage: currentStage,
+      heading: 'Alternative Option',
+      context: script.id === currentScriptId ? `Only script for ${currentStage}` : `Next ${currentStage} script`,
+      options,
+      unresolvedPlaceholders: unresolved.length > 0 ? unresolved : undefined,
+      libraryVersion,
       timestamp: Date.now(),
     };
   }
@@ -306,13 +316,14 @@ Return ONLY valid JSON:
    * Build greeting prompt (simple context)
    *
    */
-  private buildGreetingPrompt(transcriptHistory: TranscriptSegment[]): string {
+  private buildGreetingPrompt(transcriptHistory: TranscriptSegment[], callMemory?: CallMemory): string {
     const recentTranscripts = transcriptHistory.slice(-5);
     const conversationSummary = recentTranscripts
       .map((t) => `${t.speaker.toUpperCase()}: ${t.text}`)
       .join('\n');
 
     return `The agent is starting a sales call. Based on the conversation so far, generate a single, high-impact greeting recommendation.
+${this.formatCallMemory(callMemory)}
 
 Recent conversation:
 ${conversationSummary || 'No conversation yet - this is the very beginning'}
@@ -328,12 +339,14 @@ Focus on keeping the conversation flowing, not pushing for immediate commitment.
   /**
    * Build contextual prompt (enhanced with actual conversation flow)
    */
-  private buildContextualPrompt(payload: RequestNextTipPayload): string {
+  private buildContextualPrompt(payload: RequestNextTipPayload, playbook: Playbook): string {
     const {
       selectedScript,
       agentResponse,
       customerReaction,
       transcriptHistory,
+      callMemory,
+      objections,
     } = payload;
 
     // Build conversation context
@@ -360,8 +373,14 @@ Customer responded: "${customerReaction.text}"
 ANALYSIS NEEDED: What does this reveal about customer's mindset? Are they interested, skeptical, ready to move forward, or pushing back?`;
     }
 
-    return `You are Mk1, analyzing a sales conversation in real-time. The agent selected a coaching option, and we captured what actually happened next.
+    if (objections && objections.length > 0) {
+      analysisSection += `\n\n## Objections So Far
+Strikes: ${objections.length} (${objections.map((o) => o.type).join(', ')})
+Do not repeat a pitch the customer already rejected; handle the latest objection or move towards the email/sign-off.`;
+    }
 
+    return `You are ${playbook.persona}, analyzing a sales conversation in real-time. The agent selected a coaching option, and we captured what actually happened next.
+${this.formatCallMemory(callMemory)}
 ## Conversation History (Last 10 exchanges)
 ${conversationSummary}
 ${analysisSection}
@@ -375,107 +394,499 @@ Based on the ACTUAL conversation flow (not just the suggestion), generate the SI
    * Generate periodic tip (auto mode - every 30 seconds)
    */
   async generatePeriodicTip(
-    conversationId: string,
-    transcriptHistory: TranscriptSegment[]
+    context: TipContext,
+    onPartial?: (partial: AITipPartialPayload) => void
+  ): Promise<AITipPayload> {
+    const recommendationId = uuidv4();
+    try {
+      return await this.requestPeriodicTip(recommendationId, context, onPartial);
+    } catch (error: any) {
+      return this.fallbackTip('periodic', error, {
+        recommendationId,
+        conversationId: context.conversationId,
+        lastCallerText: lastCallerText(context.transcriptHistory),
+        stage: context.currentStage,
+        scriptUsage: context.scriptUsage,
+        placeholders: context.placeholders || DEFAULT_PLACEHOLDER_VALUES,
+        playbook: context.playbook || DEFAULT_PLAYBOOK,
+        language: context.language,
+      });
+    }
+  }
+
+  /**
+   * LLM path of generatePeriodicTip
+   */
+  private async requestPeriodicTip(
+    recommendationId: string,
+    context: TipContext,
+    onPartial?: (partial: AITipPartialPayload) => void
   ): Promise<AITipPayload> {
-    logger.info('Generating periodic tip', { conversationId, transcriptCount: transcriptHistory.length });
+    const playbook = context.playbook || DEFAULT_PLAYBOOK;
+    const language = context.language || DEFAULT_LANGUAGE;
+    logger.info('Generating periodic tip', {
+      conversationId: context.conversationId,
+      playbookId: playbook.id,
+      language,
+      transcriptCount: context.transcriptHistory.length,
+    });
 
     // Use simpler prompt for auto mode
-    const recentTranscripts = transcriptHistory.slice(-10);
+    const recentTranscripts = context.transcriptHistory.slice(-10);
     const conversationSummary = recentTranscripts
       .map((t) => `${t.speaker.toUpperCase()}: ${t.text}`)
       .join('\n');
 
     const prompt = `Analyze this sales conversation and provide the next best coaching recommendation.
-
+${this.formatCallMemory(context.callMemory)}
 Recent conversation:
 ${conversationSummary}
 
 Generate a 2-word heading and 1 high-quality coaching option that moves the conversation forward naturally.`;
-
-    const completion = await this.openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const { stages, library } = this.stageLibrary(playbook, context.currentStage, context.scriptUsage);
+
+    return this.completeTip('periodic', {
+      recommendationId,
+      conversationId: context.conversationId,
+      scriptIds: library.map((s) => s.id),
+      stages,
+      placeholders: context.placeholders || DEFAULT_PLACEHOLDER_VALUES,
+      playbookId: playbook.id,
+      language,
+      onPartial,
       messages: [
         {
           role: 'system',
-          content: `You are Mk1, Bob Hansen's assistant at Simple.Biz.
+          content: `You are ${playbook.persona}.
 MUST USE GOLDEN SCRIPTS from the library below. Do not generate custom text.
 Match the conversation stage to the best script.
 
 GOLDEN SCRIPTS LIBRARY:
-${JSON.stringify(QUALITY_SCRIPTS, null, 2)}
-
+${JSON.stringify(library, null, 2)}
+${this.graphInstruction(library)}${this.languageInstruction(language)}
 INSTRUCTIONS:
-1. Identify the current conversation stage and context.
+1. Identify the conversation context.
 2. Select the ONE best script from the library.
-3. Replace placeholders: [Agent Name] -> "Mark", [Location] -> "Sacramento/Roseville", [Customer Name] -> Detect or "there".
-4. Determine stage from: GREETING, VALUE_PROP, OBJECTION_HANDLING, CLOSING, CONVERSION, NEXT_STEPS.
+3. Return the script's "id". The server inserts the exact library text and fills placeholders.
+4. ${this.stageInstruction(context.currentStage, stages)}
 
 Return ONLY valid JSON:
 {
   "heading": "2-word max heading",
-  "stage": "DISCOVERY" | "VALUE_PROP" | "REBUTTAL" | "CLOSING",
-  "context": "Context",
+  "stage": "Detected Stage",
   "options": [
-    { "label": "Best Suggestion", "script": "Script 1" }
-  ]
+    { "id": "id from library", "label": "Label from library" }
+  ],
+  "context": "Context"
 }`,
         },
         { role: 'user', content: prompt },
       ],
-      temperature: 0.5,
-      max_tokens: 150,
     });
+  }
 
-    const content = completion.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No response from OpenAI');
-    }
+  /**
+   * Fold older transcript segments into the rolling call memory
+   * Keeps facts (names, business, existing website), objections and commitments
+   */
+  async summarizeCallMemory(
+    conversationId: string,
+    previous: CallMemory | undefined,
+    segments: TranscriptSegment[],
+    playbook: Playbook = DEFAULT_PLAYBOOK
+  ): Promise<CallMemory> {
+    logger.info('Updating call memory', {
+      conversationId,
+      segmentCount: segments.length,
+      previousCount: previous?.summarizedCount || 0,
+    });
 
-    // Clean and parse JSON (handle markdown code blocks, etc.)
-    let parsed;
-    try {
-      const cleanedContent = this.cleanJsonResponse(content);
-      parsed = JSON.parse(cleanedContent);
+    const transcript = segments.map((t) => `${t.speaker.toUpperCase()}: ${t.text}`).join('\n');
+
+    const { content } = await this.llm.complete(
+      'callMemory',
+      [
+        {
+          role: 'system',
+          content: `You maintain the running memory of a live sales call (agent = caller from ${playbook.company} selling ${playbook.offer}, caller = the business owner).
+Merge the NEW TRANSCRIPT into the EXISTING MEMORY. Never drop existing facts unless the transcript contradicts them.
 
-      // Validate required fields
-      if (!parsed.options || !Array.isArray(parsed.options) || parsed.options.length === 0) {
-        logger.error('Invalid options array in AI response', { options: parsed.options });
-        throw new Error('AI response missing valid options array');
+Keep:
+- facts: concrete details (customer name, business name, role, whether they already have a website, location, preferences)
+- objections: every objection or pushback the customer raised, in their words where possible
+- commitments: anything either side agreed to (callback, email, time, sending samples)
+- summary: 2-3 sentences on how the call has gone so far
+
+Return ONLY valid JSON:
+{ "summary": "...", "facts": ["..."], "objections": ["..."], "commitments": ["..."] }`,
+        },
+        {
+          role: 'user',
+          content: `EXISTING MEMORY:
+${JSON.stringify(
+  previous
+    ? {
+        summary: previous.summary,
+        facts: previous.facts,
+        objections: previous.objections,
+        commitments: previous.commitments,
       }
+    : null,
+  null,
+  2
+)}
+
+NEW TRANSCRIPT:
+${transcript}`,
+        },
+      ], { json: true, conversationId }
+    );
+
+    const parsed = JSON.parse(this.cleanJsonResponse(content));
+    const toList = (value: unknown): string[] =>
+      Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+    return {
+      summary: typeof parsed.summary === 'string' ? parsed.summary : previous?.summary || '',
+      facts: toList(parsed.facts),
+      objections: toList(parsed.objections),
+      commitments: toList(parsed.commitments),
+      summarizedCount: (previous?.summarizedCount || 0) + segments.length,
+      updatedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Generate post-call intelligence from the stored transcript
+   * Same shapes the email report renders for Deepgram (intelligence + entities),
+   * so AWS Transcribe calls get a summary, sentiment, intents, topics and entities too
+   */
+  async generatePostCallAnalysis(
+    conversationId: string,
+    transcriptHistory: TranscriptSegment[],
+    callMemory?: CallMemory,
+    playbook: Playbook = DEFAULT_PLAYBOOK
+  ): Promise<PostCallAnalysis> {
+    logger.info('Generating post-call intelligence', {
+      conversationId,
+      transcriptCount: transcriptHistory.length,
+    });
 
-      // Validate each option has required fields
-      for (const option of parsed.options) {
-        if (!option.label || !option.script) {
-          logger.error('Invalid option in AI response', { option });
-          throw new Error('AI response has option missing label or script');
+    const contactInfo = extractContactInfo(transcriptHistory);
+    const transcript = transcriptHistory
+      .map((t) => `${t.speaker === 'agent' ? 'AGENT' : 'CUSTOMER'}: ${t.text}`)
+      .join('\n');
+
+    const { content } = await this.llm.complete(
+      'postCall',
+      [
+        {
+          role: 'system',
+          content: `You analyze finished sales calls from ${playbook.company} (${playbook.offer}).
+AGENT is the ${playbook.company} caller, CUSTOMER is the business owner.
+
+Return ONLY valid JSON:
+{
+  "summary": "3-4 sentence summary of the call and its outcome",
+  "sentiment": { "label": "positive" | "neutral" | "negative", "score": 0.0-1.0 confidence },
+  "intents": [ { "intent": "short customer intent, e.g. 'Agree to callback'", "confidence": 0.0-1.0, "segment": "quote from the CUSTOMER" } ],
+  "topics": [ { "topic": "short topic", "confidence": 0.0-1.0 } ],
+  "entities": {
+    "businessNames": [], "people": [], "locations": [], "dates": [],
+    "contactInfo": { "emails": [], "phoneNumbers": [], "urls": [] }
+  }
+}
+
+Sentiment is the CUSTOMER's overall sentiment. Only list entities actually mentioned in the transcript.`,
+        },
+        {
+          role: 'user',
+          content: `${this.formatCallMemory(callMemory)}
+## Transcript
+${transcript || 'No transcript'}`,
+        },
+      ], { json: true, conversationId }
+    );
+
+    const parsed = JSON.parse(this.cleanJsonResponse(content));
+    const confidence = (value: unknown) =>
+      typeof value === 'number' && value >= 0 && value <= 1 ? value : 0.5;
+    const sentimentLabels: CallIntelligence['sentiment']['label'][] = ['positive', 'neutral', 'negative'];
+
+    const intelligence: CallIntelligence = {
+      summary: typeof parsed.summary === 'string' ? parsed.summary : '',
+      sentiment: {
+        label: sentimentLabels.includes(parsed.sentiment?.label) ? parsed.sentiment.label : 'neutral',
+        score: confidence(parsed.sentiment?.score),
+      },
+      intents: (Array.isArray(parsed.intents) ? parsed.intents : [])
+        .filter((i: any) => typeof i?.intent === 'string')
+        .map((i: any) => ({
+          intent: i.intent,
+          confidence: confidence(i.confidence),
+          segment: typeof i.segment === 'string' ? i.segment : undefined,
+        })),
+      topics: (Array.isArray(parsed.topics) ? parsed.topics : [])
+        .filter((t: any) => typeof t?.topic === 'string')
+        .map((t: any) => ({ topic: t.topic, confidence: confidence(t.confidence) })),
+    };
+
+    logger.info('Post-call intelligence generated', {
+      conversationId,
+      sentiment: intelligence.sentiment.label,
+      intentCount: intelligence.intents.length,
+      topicCount: intelligence.topics.length,
+    });
+
+    return {
+      intelligence,
+      entities: mergeEntities(parsed.entities, contactInfo),
+      generatedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Run a tip prompt and turn the response into an AI_TIP
+   * The response must match the tip schema (structured output where the provider supports it)
+   * and name at least one approved script. A repairable failure gets one retry with the
+   * error and the rejected response in the prompt; anything else throws
+   */
+  private async completeTip(operation: LLMOperation, request: TipRequest): Promise<AITipPayload> {
+    const { recommendationId, conversationId } = request;
+    const jsonSchema = tipOutputSchema(request.scriptIds, request.stages);
+    let messages = request.messages;
+
+    for (let attempt = 1; ; attempt++) {
+      let content: string | undefined;
+      try {
+        ({ content } = await this.llm.complete(operation, messages, {
+          jsonSchema,
+          conversationId,
+          // Only the first attempt streams; a repaired tip arrives as a whole
+          onDelta: attempt === 1 ? this.partialTipStream(request) : undefined,
+        }));
+
+        const output = parseTipOutput(content, request.stages);
+        const approved = this.approveOptions(request, output.options);
+
+        logger.info('Tip generated', {
+          conversationId,
+          operation,
+          attempt,
+          heading: output.heading,
+          scriptIds: approved.options.map((o) => o.id),
+        });
+
+        return {
+          recommendationId,
+          conversationId,
+          stage: output.stage,
+          heading: output.heading,
+          context: output.context,
+          ...approved,
+          timestamp: Date.now(),
+        };
+      } catch (error: any) {
+        const kind = classifyTipFailure(error);
+        logger.warn('Tip response rejected', {
+          conversationId,
+          operation,
+          attempt,
+          kind,
+          error: error.message,
+          rawContent: content,
+        });
+
+        if (attempt >= MAX_TIP_ATTEMPTS || !isRepairable(kind)) {
+          throw error;
         }
+
+        messages = [
+          ...request.messages,
+          ...(content ? [{ role: 'assistant' as const, content }] : []),
+          {
+            role: 'user',
+            content: `Your previous response was rejected (${kind}): ${error.message}
+Reply again with ONLY a JSON object with "heading", "stage", "options" (each { "id", "label" } using an id from the GOLDEN SCRIPTS LIBRARY) and "context".`,
+          },
+        ];
       }
+    }
+  }
 
-      logger.info('Successfully parsed periodic tip', {
-        heading: parsed.heading,
-        optionCount: parsed.options.length,
-        scriptLengths: parsed.options.map((o: any) => o.script?.length || 0),
-      });
-    } catch (error: any) {
-      logger.error('Failed to parse periodic tip response', {
-        error: error.message,
-        rawContent: content,
-      });
-      throw new Error(`Failed to parse AI response: ${error.message}`);
+  /**
+   * Playbook scripts that fit the tracked stage: its own and those of the stages it may move to
+   * Without a tracked stage the whole library is offered; the usage ledger then drops
+   * scripts that are cooling down or were already spoken
+   */
+  private stageLibrary(playbook: Playbook, stage?: ConversationStage, scriptUsage?: ScriptUsage[]) {
+    const stages = stage ? reachableStages(stage) : CONVERSATION_STAGES;
+    const scripts = publishedScripts(playbook.id);
+    const candidates: Array<QualityScript & { intent?: string }> = scripts.filter((s) => stages.includes(s.stage));
+
+    // Where the script the agent last used has transitions, only its branches (and the goal script) are offered
+    const fromScriptId = currentScriptId(scriptUsage);
+    const branches: Array<QualityScript & { intent?: string }> = nextScripts(scripts, fromScriptId)
+      .filter(({ script }) => stages.includes(script.stage))
+      .map(({ script, intent }) => ({ ...script, intent }));
+    const goalScript = candidates.find((s) => s.id === playbook.goalScriptId);
+    if (goalScript && branches.length > 0 && !branches.some((s) => s.id === goalScript.id)) {
+      branches.push(goalScript);
+    }
+    if (branches.length > 0) {
+      logger.debug('Candidates narrowed by playbook graph', { fromScriptId, scriptIds: branches.map((s) => s.id) });
     }
 
     return {
-      recommendationId: uuidv4(),
-      conversationId,
-      stage: parsed.stage as ConversationStage,
-      heading: parsed.heading,
-      context: parsed.context,
-      options: parsed.options as DialogueOption[],
-      timestamp: Date.now(),
+      stages,
+      // Prompt entries without the transitions themselves or translations
+      library: availableScripts(branches.length > 0 ? branches : candidates, scriptUsage).map(
+        ({ next: _next, translations: _translations, ...script }) => script
+      ),
     };
   }
 
+  /**
+   * Prompt line for libraries narrowed by the playbook graph
+   */
+  private graphInstruction(library: Array<{ intent?: string }>): string {
+    return library.some((s) => s.intent)
+      ? 'Scripts with an "intent" answer the script the agent just used: prefer the one whose intent matches the customer\'s reply.\n'
+      : '';
+  }
+
+  /**
+   * Prompt line for calls in another language than the (English) library
+   */
+  private languageInstruction(language: ScriptLanguage): string {
+    return language === DEFAULT_LANGUAGE
+      ? ''
+      : `The call is in ${LANGUAGE_NAMES[language]}: read the conversation in ${LANGUAGE_NAMES[language]} and select scripts by id as usual; the agent is shown each script's ${LANGUAGE_NAMES[language]} version.\n`;
+  }
+
+  /**
+   * Prompt line telling the model where the call is and which stages it may pick
+   */
+  private stageInstruction(stage: ConversationStage | undefined, stages: ConversationStage[]): string {
+    const current = stage ? `The call is currently in the ${stage} stage. ` : '';
+    return `${current}Set "stage" to the stage of the script you select (one of: ${stages.join(', ')}).`;
+  }
+
+  /**
+   * Rule-based tip when the LLM errors, times out or returns nothing usable
+   * The agent gets a golden script with fallback: true, or the error when the library has none to offer
+   */
+  private fallbackTip(
+    operation: LLMOperation,
+    error: Error,
+    context: Omit<FallbackContext, 'reason'>
+  ): AITipPayload {
+    const reason = classifyTipFailure(error);
+    const tip = buildFallbackTip({ ...context, reason });
+
+    logger.warn('LLM tip failed - using fallback engine', {
+      conversationId: context.conversationId,
+      operation,
+      reason,
+      error: error.message,
+      heading: tip.heading,
+      scriptIds: tip.options.map((o) => o.id),
+    });
+
+    return tip;
+  }
+
+  /**
+   * Streaming handler that reports the tip once its heading and first script id have arrived
+   * Fires at most once; a first id outside the library is skipped (the full tip still follows)
+   */
+  private partialTipStream(request: TipRequest): ((text: string) => void) | undefined {
+    const { recommendationId, conversationId, placeholders, playbookId, language, scriptIds, onPartial } = request;
+    if (!onPartial) {
+      return undefined;
+    }
+
+    let streamed = '';
+    let done = false;
+
+    return (text) => {
+      if (done) return;
+      streamed += text;
+
+      const { heading, stage, scriptId } = parsePartialTip(streamed);
+      if (!heading || !scriptId) return;
+      done = true;
+
+      const [option] = enforceGoldenScripts([{ id: scriptId }], placeholders, playbookId, language, scriptIds).options;
+      if (!option) return;
+
+      onPartial({
+        recommendationId,
+        conversationId,
+        stage: stage as ConversationStage | undefined,
+        heading,
+        option,
+        timestamp: Date.now(),
+      });
+    };
+  }
+
+  /**
+   * Replace model output with approved golden-script text (placeholders filled here)
+   * Only the scripts the prompt offered are approved: providers without strict structured
+   * output can still name scripts of other stages, cooling down or withheld by an experiment.
+   * Throws when nothing in the response maps to the offered library
+   */
+  private approveOptions(
+    request: TipRequest,
+    rawOptions: unknown
+  ): Pick<AITipPayload, 'options' | 'unresolvedPlaceholders' | 'libraryVersion'> {
+    const { conversationId } = request;
+    const { options, unresolved, corrected, rejected, libraryVersion } = enforceGoldenScripts(
+      rawOptions,
+      request.placeholders,
+      request.playbookId,
+      request.language,
+      request.scriptIds
+    );
+
+    if (corrected.length > 0 || rejected.length > 0) {
+      logger.warn('AI options did not match the golden scripts', { conversationId, corrected, rejected });
+    }
+
+    if (options.length === 0) {
+      throw new TipOutputError('unapproved_script', 'None of the option ids is in the GOLDEN SCRIPTS LIBRARY above');
+    }
+
+    if (unresolved.length > 0) {
+      logger.warn('Unresolved placeholders in tip', { conversationId, unresolved });
+    }
+
+    return { options, unresolvedPlaceholders: unresolved.length > 0 ? unresolved : undefined, libraryVersion };
+  }
+
+  /**
+   * Render call memory as a prompt section (empty string if there is none yet)
+   */
+  private formatCallMemory(callMemory?: CallMemory): string {
+    if (!callMemory) {
+      return '';
+    }
+
+    const list = (items: string[]) => (items.length > 0 ? items.map((i) => `- ${i}`).join('\n') : '- none');
+
+    return `
+## Call Memory (earlier in the call)
+Summary: ${callMemory.summary || 'n/a'}
+Facts:
+${list(callMemory.facts)}
+Objections raised:
+${list(callMemory.objections)}
+Commitments:
+${list(callMemory.commitments)}
+`;
+  }
+
   /**
    * Clean JSON response from AI (remove markdown code blocks, extra whitespace, etc.)
    */
@@ -6,6 +6,9 @@ import {
   Result,
 } from '@aws-sdk/client-transcribe-streaming';
 import { createLogger } from '../utils/logger';
+import { parseLanguage } from '../utils/language';
+import { DEFAULT_LANGUAGE, SCRIPT_LANGUAGES, TRANSCRIBE_LANGUAGE_CODES } from '../constants/languages';
+import type { ScriptLanguage } from '../types';
 import { Readable } from 'stream';
 
 const logger = createLogger('aws-transcribe');
@@ -15,9 +18,15 @@ export interface TranscriptResult {
   isFinal: boolean;
   speaker: 'agent' | 'caller' | 'unknown';
   confidence: number;
+  language: ScriptLanguage; // Identified language when identifyLanguage is on, else the session's
   timestamp: number;
 }
 
+export interface TranscriptionOptions {
+  language?: ScriptLanguage; // Default: English
+  identifyLanguage?: boolean; // Identify English or Spanish (language is the preferred one)
+}
+
 export interface AudioChunk {
   chunk: Buffer;
   sessionId: string;
@@ -34,6 +43,7 @@ export interface AudioChunk {
  * - Real-time streaming transcription
  * - Speaker detection (basic)
  * - Partial and final results
+ * - English or Spanish, or automatic identification between them
  * - Auto-reconnection on errors
  * - Session management
  */
@@ -63,7 +73,8 @@ export class AWSTranscribeService {
   async startSession(
     sessionId: string,
     onTranscript: (result: TranscriptResult) => void,
-    onError?: (error: Error) => void
+    onError?: (error: Error) => void,
+    options: TranscriptionOptions = {}
   ): Promise<void> {
     try {
       // Check if session already exists
@@ -72,7 +83,9 @@ export class AWSTranscribeService {
         return;
       }
 
-      logger.info('Starting transcription session', { sessionId });
+      const language = options.language || DEFAULT_LANGUAGE;
+      const identifyLanguage = options.identifyLanguage === true;
+      logger.info('Starting transcription session', { sessionId, language, identifyLanguage });
 
       // Create audio stream
       const audioStream = new AudioInputStream();
@@ -83,6 +96,8 @@ export class AWSTranscribeService {
         audioStream,
         onTranscript,
         onError,
+        language,
+        identifyLanguage,
         isActive: true,
         retryCount: 0,
         lastSpeaker: 'unknown',
@@ -191,8 +206,15 @@ export class AWSTranscribeService {
     try {
       const audioStream = this.createAudioStream(session.audioStream);
 
+      const languageCode = TRANSCRIBE_LANGUAGE_CODES[session.language];
       const command = new StartStreamTranscriptionCommand({
-        LanguageCode: 'en-US',
+        ...(session.identifyLanguage
+          ? {
+              IdentifyLanguage: true,
+              LanguageOptions: SCRIPT_LANGUAGES.map((language) => TRANSCRIBE_LANGUAGE_CODES[language]).join(','),
+              PreferredLanguage: languageCode,
+            }
+          : { LanguageCode: languageCode }),
         MediaEncoding: 'pcm',
         MediaSampleRateHertz: 16000,
         AudioStream: audioStream,
@@ -382,6 +404,7 @@ export class AWSTranscribeService {
       isFinal,
       speaker,
       confidence,
+      language: parseLanguage(result.LanguageCode) || session.language,
       timestamp: Date.now(),
     };
 
@@ -391,6 +414,7 @@ export class AWSTranscribeService {
         sessionId: session.sessionId,
         text: text.substring(0, 50),
         speaker,
+        language: transcriptResult.language,
         confidence: confidence.toFixed(2),
       });
     }
@@ -469,6 +493,8 @@ interface TranscriptionSession {
   audioStream: AudioInputStream;
   onTranscript: (result: TranscriptResult) => void;
   onError?: (error: Error) => void;
+  language: ScriptLanguage;
+  identifyLanguage: boolean;
   isActive: boolean;
   retryCount: number;
   lastSpeaker: 'agent' | 'caller' | 'unknown';
@@ -0,0 +1,77 @@
+import { createLogger } from '../utils/logger';
+import type { AIAnalysisService } from './ai-analysis.service';
+import type { ConversationService } from './conversation.service';
+import type { PlaybookService } from './playbook.service';
+
+const logger = createLogger('call-memory');
+
+// Prompts show the last 10 segments verbatim; anything older belongs in the memory
+const RECENT_WINDOW = 10;
+
+// Summarize in batches so we are not calling the LLM on every transcript
+const SUMMARY_BATCH_SIZE = 20;
+
+/**
+ * Call Memory Service
+ *
+ * Maintains a rolling "call memory" per conversation: transcript segments that
+ * fall out of the prompts' recent window are condensed (facts, objections,
+ * commitments) so tips on long calls still know what was said early on.
+ * The raw transcript is never trimmed.
+ */
+export class CallMemoryService {
+  private inFlight: Set<string> = new Set();
+
+  constructor(
+    private readonly aiAnalysisService: AIAnalysisService,
+    private readonly conversationService: ConversationService,
+    private readonly playbookService: PlaybookService
+  ) {}
+
+  /**
+   * Called after each final transcript; summarizes in the background when a batch is ready
+   */
+  onTranscript(conversationId: string): void {
+    if (this.inFlight.has(conversationId)) {
+      return;
+    }
+
+    const conversation = this.conversationService.getConversation(conversationId);
+    if (!conversation) {
+      return;
+    }
+
+    const summarizedCount = conversation.callMemory?.summarizedCount || 0;
+    const summarizableEnd = conversation.transcriptHistory.length - RECENT_WINDOW;
+    if (summarizableEnd - summarizedCount < SUMMARY_BATCH_SIZE) {
+      return;
+    }
+
+    const segments = conversation.transcriptHistory.slice(summarizedCount, summarizableEnd);
+    this.inFlight.add(conversationId);
+
+    this.aiAnalysisService
+      .summarizeCallMemory(
+        conversationId,
+        conversation.callMemory,
+        segments,
+        this.playbookService.get(conversation.playbookId)
+      )
+      .then((callMemory) => {
+        this.conversationService.updateCallMemory(conversationId, callMemory);
+        logger.info('Call memory updated', {
+          conversationId,
+          summarizedCount: callMemory.summarizedCount,
+          facts: callMemory.facts.length,
+          objections: callMemory.objections.length,
+        });
+      })
+      .catch((error: any) => {
+        // Tips still work without memory; the next transcript retries
+        logger.error('Failed to update call memory', { conversationId, error: error.message });
+      })
+      .finally(() => {
+        this.inFlight.delete(conversationId);
+      });
+  }
+}
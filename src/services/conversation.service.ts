@@ -1,37 +1,96 @@
 import { v4 as uuidv4 } from 'uuid';
 import { createLogger } from '../utils/logger';
-import type { Conversation, TranscriptSegment, AITipPayload, CoachingState } from '../types';
+import { canTransition } from '../utils/stage-tracker';
+import { MemoryConversationStore, type ConversationStore } from '../storage';
+import type {
+  Conversation,
+  TranscriptSegment,
+  AITipPayload,
+  AIRecommendation,
+  AdherenceScore,
+  CallMemory,
+  CallOutcome,
+  CoachingState,
+  CoachingTurn,
+  ConversationQuery,
+  ConversationStage,
+  ExperimentExposure,
+  Lead,
+  LeadField,
+  Objection,
+  PostCallAnalysis,
+  ScriptLanguage,
+  ScriptSelection,
+  ScriptUsageEvent,
+  StageChange,
+  StateTransition,
+} from '../types';
 
 const logger = createLogger('conversation');
 
 /**
  * Conversation Service
  *
- * Manages active conversations in memory (no database for MVP)
+ * Manages active conversations in memory (live coaching state)
  * Tracks transcript history and conversation state
  * Manages event-driven coaching state machine
+ * Tracks the call stage (GREETING -> ... -> CONVERSION) with validated transitions
+ * Keeps a script usage ledger (shown / selected / spoken) so tips do not repeat scripts
+ * Records the call outcome (callback booked or not) when the call ends
+ * Writes everything through to a ConversationStore so calls can be queried after they end
  */
 export class ConversationService {
   private conversations: Map<string, Conversation> = new Map();
   private recommendations: Map<string, AITipPayload> = new Map(); // Store recommendations by ID
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly store: ConversationStore = new MemoryConversationStore()) {}
+
+  /**
+   * Prepare the underlying store (run migrations etc.)
+   */
+  async init(): Promise<void> {
+    await this.store.init();
+  }
+
+  /**
+   * Flush pending writes and close the store (graceful shutdown)
+   */
+  async close(): Promise<void> {
+    await this.flush();
+    await this.store.close();
+  }
 
   /**
-   * Start a new conversation
+   * Start a new conversation with the playbook it uses
    */
-  startConversation(agentId: string, metadata?: Record<string, any>): Conversation {
+  startConversation(
+    agentId: string,
+    metadata?: Record<string, any>,
+    playbookId?: string,
+    language?: ScriptLanguage
+  ): Conversation {
+    const startTime = Date.now();
     const conversation: Conversation = {
       id: uuidv4(),
       agentId,
-      startTime: Date.now(),
+      startTime,
       metadata: metadata || {},
+      playbookId,
+      language,
       transcriptHistory: [],
       state: 'IDLE', // Initialize coaching state machine
+      stage: 'GREETING', // Every call opens with the greeting
+      stageHistory: [{ toStage: 'GREETING', reason: 'start', timestamp: startTime }],
     };
 
     this.conversations.set(conversation.id, conversation);
+    this.persist('saveConversation', () => this.store.saveConversation(conversation));
     logger.info('Conversation started', {
       conversationId: conversation.id,
       agentId,
+      playbookId,
+      language,
     });
 
     return conversation;
@@ -48,11 +107,9 @@ export class ConversationService {
     }
 
     conversation.transcriptHistory.push(transcript);
+    this.persist('appendTranscript', () => this.store.appendTranscript(conversationId, transcript));
 
-    // Keep last 50 transcripts to manage memory
-    if (conversation.transcriptHistory.length > 50) {
-      conversation.transcriptHistory = conversation.transcriptHistory.slice(-50);
-    }
+    // Full transcript is kept for reports; prompts use the call memory plus a recent window
 
     return true;
   }
@@ -72,10 +129,81 @@ export class ConversationService {
     return conversation?.transcriptHistory || [];
   }
 
+  /**
+   * Change the call language (identified by transcription); false when it is already that language
+   */
+  setLanguage(conversationId: string, language: ScriptLanguage): boolean {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation || (conversation.language || 'en') === language) {
+      return false;
+    }
+
+    logger.info('Call language changed', { conversationId, from: conversation.language || 'en', to: language });
+    conversation.language = language;
+    this.persist('saveConversation', () => this.store.saveConversation(conversation));
+    return true;
+  }
+
+  /**
+   * Replace the rolling call memory (see CallMemoryService)
+   */
+  updateCallMemory(conversationId: string, callMemory: CallMemory): boolean {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      return false;
+    }
+
+    conversation.callMemory = callMemory;
+    this.persist('saveConversation', () => this.store.saveConversation(conversation));
+    return true;
+  }
+
+  /**
+   * Merge newly captured lead fields into the conversation's lead
+   * Returns the fields whose value actually changed (empty if nothing new)
+   */
+  updateLead(conversationId: string, fields: Partial<Omit<Lead, 'updatedAt'>>): LeadField[] {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      return [];
+    }
+
+    const lead: Lead = conversation.lead || { updatedAt: Date.now() };
+    const changed = (Object.keys(fields) as LeadField[]).filter(
+      (field) => fields[field] !== undefined && lead[field] !== fields[field]
+    );
+    if (changed.length === 0) {
+      return [];
+    }
+
+    conversation.lead = { ...lead, ...fields, updatedAt: Date.now() };
+    this.persist('saveConversation', () => this.store.saveConversation(conversation));
+
+    logger.info('Lead updated', { conversationId, fields: changed });
+    return changed;
+  }
+
+  /**
+   * Store post-call intelligence generated after END_CONVERSATION
+   */
+  storePostCallAnalysis(conversationId: string, analysis: PostCallAnalysis): boolean {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      logger.warn('Conversation not found', { conversationId });
+      return false;
+    }
+
+    conversation.postCallAnalysis = analysis;
+    this.persist('saveConversation', () => this.store.saveConversation(conversation));
+    return true;
+  }
+
   /**
    * End conversation
+   * The outcome is the one the agent reported, otherwise a callback counts as booked
+   * once a callback time was captured from the customer
    */
-  endConversation(conversationId: string): boolean {
+  endConversation(conversationId: string, callbackBooked?: boolean): boolean {
     const conversation = this.conversations.get(conversationId);
     if (!conversation) {
       logger.warn('Conversation not found', { conversationId });
@@ -83,10 +211,21 @@ export class ConversationService {
     }
 
     conversation.endTime = Date.now();
+    if (typeof callbackBooked === 'boolean') {
+      conversation.outcome = { callbackBooked, source: 'agent', recordedAt: conversation.endTime };
+    } else if (!conversation.outcome) {
+      conversation.outcome = {
+        callbackBooked: !!conversation.lead?.callbackTime,
+        source: 'lead',
+        recordedAt: conversation.endTime,
+      };
+    }
+    this.persist('saveConversation', () => this.store.saveConversation(conversation));
     logger.info('Conversation ended', {
       conversationId,
       duration: conversation.endTime - conversation.startTime,
       transcriptCount: conversation.transcriptHistory.length,
+      callbackBooked: conversation.outcome.callbackBooked,
     });
 
     // Remove from memory after 5 minutes (cleanup)
@@ -123,6 +262,18 @@ export class ConversationService {
    */
   storeRecommendation(recommendation: AITipPayload): void {
     this.recommendations.set(recommendation.recommendationId, recommendation);
+    this.persist('saveRecommendation', () => this.store.saveRecommendation(recommendation));
+
+    const conversation = this.conversations.get(recommendation.conversationId);
+    if (conversation) {
+      conversation.lastRecommendationId = recommendation.recommendationId;
+      this.recordScriptUsage(
+        conversation,
+        recommendation.options.flatMap((option) => (option.id ? [option.id] : [])),
+        'shown',
+        recommendation.recommendationId
+      );
+    }
     logger.info('Recommendation stored', {
       recommendationId: recommendation.recommendationId,
       conversationId: recommendation.conversationId,
@@ -143,6 +294,14 @@ export class ConversationService {
     return this.recommendations.get(recommendationId);
   }
 
+  /**
+   * Get the most recent tip sent for a conversation (still held in memory)
+   */
+  getLatestRecommendation(conversationId: string): AITipPayload | undefined {
+    const recommendationId = this.conversations.get(conversationId)?.lastRecommendationId;
+    return recommendationId ? this.recommendations.get(recommendationId) : undefined;
+  }
+
   /**
    * Update conversation state
    */
@@ -153,20 +312,99 @@ export class ConversationService {
       return false;
     }
 
-    conversation.state = state;
+    this.transition(conversation, state);
     logger.info('Conversation state updated', { conversationId, state });
     return true;
   }
 
+  /**
+   * Move the call to a new stage if the stage tracker allows it
+   * Returns the recorded change, or undefined if the stage is unchanged or the move is not allowed
+   */
+  changeStage(
+    conversationId: string,
+    stage: ConversationStage,
+    recommendationId?: string
+  ): StageChange | undefined {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      return undefined;
+    }
+
+    const fromStage = conversation.stage || 'GREETING';
+    if (stage === fromStage) {
+      return undefined;
+    }
+
+    if (!canTransition(fromStage, stage)) {
+      logger.warn('Stage change rejected', { conversationId, fromStage, toStage: stage, recommendationId });
+      return undefined;
+    }
+
+    const change: StageChange = { fromStage, toStage: stage, reason: 'tip', recommendationId, timestamp: Date.now() };
+    conversation.stage = stage;
+    conversation.stageHistory = [...(conversation.stageHistory || []), change];
+    this.persist('saveConversation', () => this.store.saveConversation(conversation));
+
+    logger.info('Conversation stage changed', { conversationId, fromStage, toStage: stage });
+    return change;
+  }
+
+  /**
+   * Count a customer objection as a strike
+   * One strike per customer turn: further objections before the agent speaks again are ignored
+   * Returns the strike count after recording, or undefined if nothing was recorded
+   */
+  recordObjection(conversationId: string, objection: Objection): number | undefined {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      return undefined;
+    }
+
+    const objections = conversation.objections || [];
+    const last = objections[objections.length - 1];
+    if (
+      last &&
+      !conversation.transcriptHistory.some((segment) => segment.speaker === 'agent' && segment.timestamp > last.timestamp)
+    ) {
+      return undefined;
+    }
+
+    conversation.objections = [...objections, objection];
+    this.persist('saveConversation', () => this.store.saveConversation(conversation));
+
+    logger.info('Objection recorded', {
+      conversationId,
+      type: objection.type,
+      strikes: conversation.objections.length,
+    });
+    return conversation.objections.length;
+  }
+
+  /**
+   * Remember that an escalation rule fired so it is not applied again
+   */
+  markEscalated(conversationId: string, ruleName: string): boolean {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      return false;
+    }
+
+    conversation.escalations = [...(conversation.escalations || []), ruleName];
+    this.persist('saveConversation', () => this.store.saveConversation(conversation));
+    return true;
+  }
+
   /**
    * Store selected script context in conversation
    */
   storeSelectedScript(
     conversationId: string,
     recommendationId: string,
-    _selectedOption: 1 | 2 | 3, // Not currently used but kept for API compatibility
+    selectedOption: 1 | 2 | 3,
     scriptText: string,
-    scriptType: string
+    scriptType: string,
+    scriptId?: string
   ): boolean {
     const conversation = this.conversations.get(conversationId);
     if (!conversation) {
@@ -177,12 +415,32 @@ export class ConversationService {
     conversation.lastSelectedRecommendationId = recommendationId;
     conversation.lastSelectedScript = scriptText;
     conversation.lastScriptType = scriptType;
+    conversation.lastSelectedOption = selectedOption;
+    conversation.lastSelectedScriptId = scriptId;
     conversation.lastScriptTimestamp = Date.now();
-    conversation.state = 'CAPTURING_AGENT_RESPONSE';
+
+    const selection: ScriptSelection = {
+      conversationId,
+      recommendationId,
+      selectedOption,
+      script: scriptText,
+      label: scriptType,
+      timestamp: conversation.lastScriptTimestamp,
+    };
+    this.persist('recordSelection', () => this.store.recordSelection(selection));
+    this.transition(conversation, 'CAPTURING_AGENT_RESPONSE');
+    if (scriptId) {
+      this.recordScriptUsage(conversation, [scriptId], 'selected', recommendationId);
+    }
 
     // Reset captured responses
     conversation.capturedResponse = '';
     conversation.customerReaction = '';
+    conversation.responseTimestamp = undefined;
+    conversation.lastResponseTimestamp = undefined;
+    conversation.reactionTimestamp = undefined;
+    conversation.lastReactionTimestamp = undefined;
+    conversation.lastAdherence = undefined;
 
     logger.info('Selected script stored', {
       conversationId,
@@ -208,6 +466,7 @@ export class ConversationService {
     } else {
       conversation.capturedResponse += ' ' + text;
     }
+    conversation.lastResponseTimestamp = Date.now();
 
     return true;
   }
@@ -227,10 +486,97 @@ export class ConversationService {
     } else {
       conversation.customerReaction += ' ' + text;
     }
+    conversation.lastReactionTimestamp = Date.now();
 
     return true;
   }
 
+  /**
+   * Attach the adherence score of the captured agent response to the current turn
+   * Unless the agent went off script, the selected script counts as spoken
+   */
+  storeAdherence(conversationId: string, adherence: AdherenceScore): boolean {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      return false;
+    }
+
+    conversation.lastAdherence = adherence;
+    if (conversation.lastSelectedScriptId && adherence.level !== 'OFF_SCRIPT') {
+      this.recordScriptUsage(
+        conversation,
+        [conversation.lastSelectedScriptId],
+        'spoken',
+        conversation.lastSelectedRecommendationId
+      );
+    }
+    return true;
+  }
+
+  /**
+   * Record the coaching turn that just finished (selection -> agent response -> customer reaction)
+   * Call before resetResponseCapture, which discards the captured text
+   * suggestedAt is when the next suggestion first became visible (partial or full tip)
+   */
+  completeCoachingTurn(
+    conversationId: string,
+    nextRecommendationId?: string,
+    suggestedAt?: number
+  ): CoachingTurn | undefined {
+    const conversation = this.conversations.get(conversationId);
+    if (
+      !conversation ||
+      !conversation.lastSelectedRecommendationId ||
+      !conversation.lastSelectedOption ||
+      !conversation.lastScriptTimestamp
+    ) {
+      return undefined;
+    }
+
+    const turn: CoachingTurn = {
+      id: uuidv4(),
+      conversationId,
+      recommendationId: conversation.lastSelectedRecommendationId,
+      selectedOption: conversation.lastSelectedOption,
+      selectedLabel: conversation.lastScriptType || '',
+      selectedScript: conversation.lastSelectedScript || '',
+      scriptId: conversation.lastSelectedScriptId,
+      agentResponse: conversation.capturedResponse || undefined,
+      customerReaction: conversation.customerReaction || undefined,
+      selectedAt: conversation.lastScriptTimestamp,
+      agentStartedAt: conversation.responseTimestamp,
+      customerStartedAt: conversation.reactionTimestamp,
+      completedAt: Date.now(),
+      timeToSpeakMs: conversation.responseTimestamp
+        ? conversation.responseTimestamp - conversation.lastScriptTimestamp
+        : undefined,
+      reactionLatencyMs:
+        conversation.reactionTimestamp && conversation.lastResponseTimestamp
+          ? conversation.reactionTimestamp - conversation.lastResponseTimestamp
+          : undefined,
+      adherence: conversation.lastAdherence,
+      nextRecommendationId,
+      tipLatencyMs:
+        suggestedAt && conversation.lastReactionTimestamp
+          ? suggestedAt - conversation.lastReactionTimestamp
+          : undefined,
+    };
+
+    // One turn per selection
+    conversation.lastSelectedOption = undefined;
+
+    this.persist('saveCoachingTurn', () => this.store.saveCoachingTurn(turn));
+    logger.info('Coaching turn recorded', {
+      conversationId,
+      recommendationId: turn.recommendationId,
+      timeToSpeakMs: turn.timeToSpeakMs,
+      reactionLatencyMs: turn.reactionLatencyMs,
+      tipLatencyMs: turn.tipLatencyMs,
+    });
+
+    return turn;
+  }
+
   /**
    * Reset response capture state (after generating next tip)
    */
@@ -242,8 +588,144 @@ export class ConversationService {
 
     conversation.capturedResponse = '';
     conversation.customerReaction = '';
-    conversation.state = 'DISPLAYING_TIP';
+    conversation.responseTimestamp = undefined;
+    conversation.lastResponseTimestamp = undefined;
+    conversation.reactionTimestamp = undefined;
+    conversation.lastReactionTimestamp = undefined;
+    conversation.lastAdherence = undefined;
+    this.transition(conversation, 'DISPLAYING_TIP');
 
     return true;
   }
+
+  /**
+   * Set the outcome of a call (e.g. corrected from the CRM after the call ended)
+   */
+  async recordOutcome(
+    conversationId: string,
+    callbackBooked: boolean,
+    source: CallOutcome['source'] = 'api'
+  ): Promise<Conversation | undefined> {
+    const outcome: CallOutcome = { callbackBooked, source, recordedAt: Date.now() };
+
+    const live = this.conversations.get(conversationId);
+    const conversation = live || (await this.findConversation(conversationId));
+    if (!conversation) return undefined;
+
+    conversation.outcome = outcome;
+    this.persist('saveConversation', () => this.store.saveConversation(conversation));
+    await this.flush();
+
+    logger.info('Call outcome recorded', { conversationId, callbackBooked, source, live: !!live });
+    return conversation;
+  }
+
+  /**
+   * Get a conversation from the store (full transcript, includes ended calls)
+   */
+  async findConversation(conversationId: string): Promise<Conversation | undefined> {
+    await this.flush();
+    return this.store.getConversation(conversationId);
+  }
+
+  /**
+   * Search stored conversations
+   */
+  async findConversations(query: ConversationQuery): Promise<Conversation[]> {
+    await this.flush();
+    return this.store.listConversations(query);
+  }
+
+  /**
+   * Get every recommendation issued for a stored conversation
+   */
+  async findRecommendations(conversationId: string): Promise<AIRecommendation[]> {
+    await this.flush();
+    return this.store.getRecommendations(conversationId);
+  }
+
+  /**
+   * Get the script selections made during a stored conversation
+   */
+  async findSelections(conversationId: string): Promise<ScriptSelection[]> {
+    await this.flush();
+    return this.store.getSelections(conversationId);
+  }
+
+  /**
+   * Get the coaching state history of a stored conversation
+   */
+  async findStateTransitions(conversationId: string): Promise<StateTransition[]> {
+    await this.flush();
+    return this.store.getStateTransitions(conversationId);
+  }
+
+  /**
+   * Get the coaching turns recorded for a stored conversation
+   */
+  async findCoachingTurns(conversationId: string): Promise<CoachingTurn[]> {
+    await this.flush();
+    return this.store.getCoachingTurns(conversationId);
+  }
+
+  /**
+   * Get the calls offered a variant of an experiment, with their outcomes
+   */
+  async findExperimentExposures(experimentId: string): Promise<ExperimentExposure[]> {
+    await this.flush();
+    return this.store.getExperimentExposures(experimentId);
+  }
+
+  /**
+   * Wait for pending writes to reach the store
+   */
+  async flush(): Promise<void> {
+    await this.writeQueue;
+  }
+
+  /**
+   * Change coaching state and record the transition
+   */
+  private transition(conversation: Conversation, state: CoachingState): void {
+    const transition: StateTransition = {
+      conversationId: conversation.id,
+      fromState: conversation.state,
+      toState: state,
+      timestamp: Date.now(),
+    };
+
+    conversation.state = state;
+    this.persist('recordStateTransition', () => this.store.recordStateTransition(transition));
+    this.persist('saveConversation', () => this.store.saveConversation(conversation));
+  }
+
+  /**
+   * Append script ids to the conversation's usage ledger
+   */
+  private recordScriptUsage(
+    conversation: Conversation,
+    scriptIds: string[],
+    event: ScriptUsageEvent,
+    recommendationId?: string
+  ): void {
+    if (scriptIds.length === 0) return;
+
+    const timestamp = Date.now();
+    conversation.scriptUsage = [
+      ...(conversation.scriptUsage || []),
+      ...scriptIds.map((scriptId) => ({ scriptId, event, recommendationId, timestamp })),
+    ];
+    this.persist('saveConversation', () => this.store.saveConversation(conversation));
+  }
+
+  /**
+   * Queue a store write
+   * Writes run one at a time so rows land in order (conversation before its transcript)
+   * and a failing store never breaks live coaching.
+   */
+  private persist(operation: string, write: () => Promise<void>): void {
+    this.writeQueue = this.writeQueue.then(write).catch((error: any) => {
+      logger.error('Failed to persist conversation data', { operation, error: error.message });
+    });
+  }
 }
@@ -0,0 +1,240 @@
+import { readFileSync } from 'fs';
+import { createLogger } from '../utils/logger';
+import { DEFAULT_PLAYBOOK_ID } from '../constants/playbooks';
+import { assignVariant, summarizeExperiment } from '../utils/experiments';
+import { enforceGoldenScripts } from '../utils/script-enforcement';
+import type { ConversationService } from './conversation.service';
+import type {
+  AITipPartialPayload,
+  AITipPayload,
+  Conversation,
+  DialogueOption,
+  Experiment,
+  ExperimentAssignment,
+  ExperimentResults,
+  PlaceholderValues,
+} from '../types';
+
+const logger = createLogger('experiments');
+
+type ExperimentCall = Pick<Conversation, 'id' | 'agentId' | 'playbookId' | 'language'>;
+
+/**
+ * Problems with an experiment definition (empty = valid)
+ */
+function validateExperiment(experiment: any, playbookIds: string[]): string[] {
+  const problems: string[] = [];
+
+  if (typeof experiment?.id !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(experiment.id)) {
+    problems.push('id must be lowercase letters, digits and dashes');
+  }
+  if (experiment?.unit !== 'agent' && experiment?.unit !== 'conversation') {
+    problems.push('unit must be agent or conversation');
+  }
+  if (experiment?.playbookId !== undefined && !playbookIds.includes(experiment.playbookId)) {
+    problems.push(`unknown playbook "${experiment.playbookId}"`);
+  }
+
+  const variants: any[] = Array.isArray(experiment?.variants) ? experiment.variants : [];
+  if (variants.length < 2) {
+    problems.push('variants must list at least two scripts');
+  }
+  variants.forEach((variant, index) => {
+    if (typeof variant?.scriptId !== 'string' || !variant.scriptId) {
+      problems.push(`variants[${index}]: scriptId is required`);
+    } else if (variants.findIndex((other) => other?.scriptId === variant.scriptId) !== index) {
+      problems.push(`variants[${index}]: duplicate script "${variant.scriptId}"`);
+    }
+    if (variant?.weight !== undefined && !(typeof variant.weight === 'number' && variant.weight > 0)) {
+      problems.push(`variants[${index}]: weight must be a positive number`);
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * Load experiments from EXPERIMENTS_PATH (JSON array of Experiment)
+ * No path configured = no experiments. Throws on invalid definitions, duplicate ids or a
+ * script in more than one active experiment of the same playbook.
+ */
+export function loadExperiments(playbookIds: string[], path = process.env.EXPERIMENTS_PATH): Experiment[] {
+  if (!path) {
+    logger.info('No experiments (EXPERIMENTS_PATH not set)');
+    return [];
+  }
+
+  const experiments = JSON.parse(readFileSync(path, 'utf8'));
+  if (!Array.isArray(experiments)) {
+    throw new Error(`${path} must contain a JSON array of experiments`);
+  }
+
+  const ids = new Set<string>();
+  const tested = new Map<string, string>(); // playbook:script -> active experiment
+  for (const experiment of experiments as Experiment[]) {
+    const problems = validateExperiment(experiment, playbookIds);
+    if (problems.length > 0) {
+      throw new Error(`Invalid experiment "${experiment?.id}" in ${path}: ${problems.join('; ')}`);
+    }
+    if (ids.has(experiment.id)) {
+      throw new Error(`Duplicate experiment "${experiment.id}" in ${path}`);
+    }
+    ids.add(experiment.id);
+
+    if (experiment.active === false) continue;
+    for (const variant of experiment.variants) {
+      const key = `${experiment.playbookId ?? DEFAULT_PLAYBOOK_ID}:${variant.scriptId}`;
+      if (tested.has(key)) {
+        throw new Error(
+          `Script "${variant.scriptId}" is in active experiments "${tested.get(key)}" and "${experiment.id}"`
+        );
+      }
+      tested.set(key, experiment.id);
+    }
+  }
+
+  logger.info('Experiments loaded', {
+    path,
+    experiments: experiments.map((e: Experiment) => `${e.id}${e.active === false ? ' (inactive)' : ''}`),
+  });
+  return experiments;
+}
+
+/**
+ * Experiment Service
+ *
+ * A/B tests golden script variants for the same moment (e.g. ask-callback vs ask-callback-fomo).
+ * Each agent or call is assigned one variant per active experiment of its playbook (stable hash,
+ * weighted); whenever a tip offers any variant, the assigned one is offered instead and the tip
+ * is stamped with the assignment. Results attribute each call's outcome to its variant.
+ */
+export class ExperimentService {
+  private readonly experiments: Map<string, Experiment>;
+
+  constructor(
+    private readonly conversationService: ConversationService,
+    experiments: Experiment[] = []
+  ) {
+    this.experiments = new Map(experiments.map((experiment) => [experiment.id, experiment]));
+  }
+
+  list(): Experiment[] {
+    return Array.from(this.experiments.values());
+  }
+
+  has(experimentId: string): boolean {
+    return this.experiments.has(experimentId);
+  }
+
+  /**
+   * Variant of every active experiment a call gets
+   */
+  assignments(call: ExperimentCall): ExperimentAssignment[] {
+    return this.activeFor(call).map((experiment) => ({
+      experimentId: experiment.id,
+      variant: assignVariant(experiment, experiment.unit === 'agent' ? call.agentId : call.id),
+    }));
+  }
+
+  /**
+   * Variants of the call's experiments it was not assigned (never offered to it)
+   */
+  withheldScripts(call: ExperimentCall): string[] {
+    return this.assignments(call).flatMap((assignment) =>
+      this.experiments
+        .get(assignment.experimentId)!
+        .variants.map((variant) => variant.scriptId)
+        .filter((scriptId) => scriptId !== assignment.variant)
+    );
+  }
+
+  /**
+   * Offer the call's assigned variants in a tip and stamp the experiments it now takes part in
+   */
+  applyToTip(call: ExperimentCall, tip: AITipPayload, placeholders: PlaceholderValues): AITipPayload {
+    const assignments = this.assignments(call);
+    if (assignments.length === 0) return tip;
+
+    const stamped: ExperimentAssignment[] = [];
+    const options: DialogueOption[] = [];
+    const unresolved = new Set(tip.unresolvedPlaceholders);
+    for (const option of tip.options) {
+      const swapped = this.swap(call, option, assignments, placeholders);
+      if (options.some((existing) => existing.id === swapped.option.id)) continue;
+
+      options.push(swapped.option);
+      if (swapped.assignment) stamped.push(swapped.assignment);
+      swapped.unresolved?.forEach((name) => unresolved.add(name));
+    }
+
+    if (stamped.length === 0) return tip;
+
+    logger.info('Experiment variants offered', {
+      conversationId: call.id,
+      recommendationId: tip.recommendationId,
+      experiments: stamped.map((assignment) => `${assignment.experimentId}:${assignment.variant}`),
+    });
+    return {
+      ...tip,
+      options,
+      unresolvedPlaceholders: unresolved.size > 0 ? Array.from(unresolved) : undefined,
+      experiments: stamped,
+    };
+  }
+
+  /**
+   * Same swap for the first script streamed ahead of the tip
+   */
+  applyToPartial(call: ExperimentCall, partial: AITipPartialPayload, placeholders: PlaceholderValues): AITipPartialPayload {
+    const assignments = this.assignments(call);
+    if (assignments.length === 0) return partial;
+
+    return { ...partial, option: this.swap(call, partial.option, assignments, placeholders).option };
+  }
+
+  /**
+   * Conversion rate per variant with 95% confidence intervals (undefined for an unknown experiment)
+   */
+  async results(experimentId: string): Promise<ExperimentResults | undefined> {
+    const experiment = this.experiments.get(experimentId);
+    if (!experiment) return undefined;
+
+    const exposures = await this.conversationService.findExperimentExposures(experimentId);
+    return summarizeExperiment(experiment, exposures);
+  }
+
+  private activeFor(call: ExperimentCall): Experiment[] {
+    const playbookId = call.playbookId ?? DEFAULT_PLAYBOOK_ID;
+    return this.list().filter(
+      (experiment) => experiment.active !== false && (experiment.playbookId ?? DEFAULT_PLAYBOOK_ID) === playbookId
+    );
+  }
+
+  /**
+   * An option that is a variant becomes the assigned variant (text from the published library)
+   * Left as it is when the assigned variant is not in the published library
+   */
+  private swap(
+    call: ExperimentCall,
+    option: DialogueOption,
+    assignments: ExperimentAssignment[],
+    placeholders: PlaceholderValues
+  ): { option: DialogueOption; assignment?: ExperimentAssignment; unresolved?: string[] } {
+    const assignment = assignments.find((candidate) =>
+      this.experiments.get(candidate.experimentId)!.variants.some((variant) => variant.scriptId === option.id)
+    );
+    if (!assignment) return { option };
+    if (assignment.variant === option.id) return { option, assignment };
+
+    const enforced = enforceGoldenScripts([{ id: assignment.variant }], placeholders, call.playbookId, call.language);
+    const [assigned] = enforced.options;
+    if (!assigned) {
+      logger.warn('Assigned experiment variant is not in the published library', {
+        conversationId: call.id,
+        ...assignment,
+      });
+      return { option };
+    }
+    return { option: assigned, assignment, unresolved: enforced.unresolved };
+  }
+}
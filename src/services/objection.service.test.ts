@@ -0,0 +1,133 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { DEFAULT_ESCALATION_RULES, loadEscalationRules, ObjectionService } from './objection.service';
+import type { Objection } from '../types';
+
+function strikes(count: number): Objection[] {
+  return Array.from({ length: count }, (_, i) => ({ type: 'not_interested', text: 'No thanks', timestamp: i }));
+}
+
+describe('ObjectionService.detect', () => {
+  const service = new ObjectionService();
+
+  it('classifies English and Spanish rejections', () => {
+    expect(service.detect("We're not interested, thanks", 1)).toEqual({
+      type: 'not_interested',
+      text: "We're not interested, thanks",
+      timestamp: 1,
+    });
+    expect(service.detect('I already have a website', 2)?.type).toBe('has_website');
+    expect(service.detect('Please stop calling me', 3)?.type).toBe('do_not_call');
+    expect(service.detect('Estoy muy ocupado ahora', 4)?.type).toBe('busy');
+    expect(service.detect('Es demasiado caro', 5)?.type).toBe('too_expensive');
+  });
+
+  it('takes the first matching kind in order', () => {
+    expect(service.detect('Not interested, just send me an email', 1)?.type).toBe('send_email');
+  });
+
+  it('is not a strike when the caller is open to it', () => {
+    expect(service.detect('Sure, tell me more about the website', 1)).toBeUndefined();
+    expect(service.detect('Sí, me interesa', 1)).toBeUndefined();
+  });
+});
+
+describe('ObjectionService.dueEscalation', () => {
+  const service = new ObjectionService();
+
+  it('has no rule below the first threshold', () => {
+    expect(service.dueEscalation({ objections: strikes(1) })).toBeUndefined();
+    expect(service.dueEscalation({})).toBeUndefined();
+  });
+
+  it('applies the highest threshold the call has reached', () => {
+    expect(service.dueEscalation({ objections: strikes(2) })?.name).toBe('pivot');
+    expect(service.dueEscalation({ objections: strikes(3) })?.name).toBe('email');
+    expect(service.dueEscalation({ objections: strikes(7) })?.name).toBe('sign-off');
+  });
+
+  it('fires each rule once per call', () => {
+    expect(service.dueEscalation({ objections: strikes(3), escalations: ['email'] })).toBeUndefined();
+    expect(service.dueEscalation({ objections: strikes(4), escalations: ['pivot', 'email'] })?.name).toBe('sign-off');
+  });
+
+  it('skips rules whose scripts are not in the call playbook library', () => {
+    const custom = new ObjectionService([
+      { name: 'other', strikes: 3, heading: 'Other', scriptIds: ['not-in-library'] },
+      { name: 'email', strikes: 2, heading: 'Get Email', scriptIds: ['info-email'] },
+    ]);
+
+    expect(custom.dueEscalation({ objections: strikes(3) })?.name).toBe('email');
+    expect(custom.dueEscalation({ objections: strikes(3), playbookId: 'not-loaded' })).toBeUndefined();
+  });
+});
+
+describe('ObjectionService.buildEscalationTip', () => {
+  it('offers the rule scripts from the library with the strike count', () => {
+    const service = new ObjectionService();
+    const rule = DEFAULT_ESCALATION_RULES.find((candidate) => candidate.name === 'email')!;
+
+    const tip = service.buildEscalationTip('conv-1', rule, 3, {});
+
+    expect(tip).toMatchObject({
+      conversationId: 'conv-1',
+      stage: 'CLOSING',
+      heading: 'Get Email',
+      context: '3 strikes: escalation "email"',
+      strikes: 3,
+      escalation: 'email',
+      libraryVersion: 1,
+    });
+    expect(tip.options).toEqual([{ id: 'info-email', label: expect.any(String), script: "Oh, what's your email?" }]);
+  });
+
+  it('lists the rule scripts once each', () => {
+    expect(new ObjectionService().scriptIds()).toEqual([
+      'sign-off-options',
+      'sign-off-excited',
+      'info-email',
+      'pivot-digital-marketing',
+      'pivot-seo',
+    ]);
+  });
+});
+
+describe('loadEscalationRules', () => {
+  let dir: string | undefined;
+
+  function rulesFile(rules: unknown): string {
+    dir = mkdtempSync(join(tmpdir(), 'escalation-rules-'));
+    const path = join(dir, 'rules.json');
+    writeFileSync(path, JSON.stringify(rules));
+    return path;
+  }
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it('uses the default rules without a path', () => {
+    expect(loadEscalationRules('')).toBe(DEFAULT_ESCALATION_RULES);
+  });
+
+  it('loads valid rules', () => {
+    const rules = [{ name: 'email', strikes: 2, heading: 'Get Email', scriptIds: ['info-email'] }];
+
+    expect(loadEscalationRules(rulesFile(rules))).toEqual(rules);
+  });
+
+  it('refuses malformed rules, duplicate names and unknown scripts', () => {
+    const email = { name: 'email', strikes: 2, heading: 'Get Email', scriptIds: ['info-email'] };
+
+    expect(() => loadEscalationRules(rulesFile({ rules: [email] }))).toThrow('must contain a JSON array');
+    expect(() => loadEscalationRules(rulesFile([{ ...email, strikes: 0 }]))).toThrow('Invalid escalation rule');
+    expect(() => loadEscalationRules(rulesFile([{ ...email, scriptIds: [] }]))).toThrow('Invalid escalation rule');
+    expect(() => loadEscalationRules(rulesFile([email, email]))).toThrow('Invalid escalation rule');
+    expect(() => loadEscalationRules(rulesFile([{ ...email, scriptIds: ['made-up'] }]))).toThrow(
+      'uses unknown script ids: made-up'
+    );
+  });
+});
@@ -0,0 +1,145 @@
+import { readFileSync } from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { createLogger } from '../utils/logger';
+import { detectObjection } from '../utils/objection-detection';
+import { enforceGoldenScripts } from '../utils/script-enforcement';
+import { publishedScripts } from '../utils/golden-library';
+import type {
+  AITipPayload,
+  Conversation,
+  EscalationRule,
+  Objection,
+  PlaceholderValues,
+  ScriptLanguage,
+} from '../types';
+
+const logger = createLogger('objections');
+
+// The sales-coach "3 strikes" rule: pivot after two rejections, ask for the email
+// after three, sign off politely after four
+export const DEFAULT_ESCALATION_RULES: EscalationRule[] = [
+  { name: 'pivot', strikes: 2, heading: 'Pivot Offer', scriptIds: ['pivot-digital-marketing', 'pivot-seo'] },
+  { name: 'email', strikes: 3, heading: 'Get Email', scriptIds: ['info-email'] },
+  { name: 'sign-off', strikes: 4, heading: 'Sign Off', scriptIds: ['sign-off-options', 'sign-off-excited'] },
+];
+
+/**
+ * Load escalation rules from OBJECTION_RULES_PATH (JSON array of EscalationRule)
+ * No path configured = DEFAULT_ESCALATION_RULES. Throws on malformed rules or script ids unknown
+ * to the default playbook (other playbooks skip rules whose scripts they do not have).
+ */
+export function loadEscalationRules(path = process.env.OBJECTION_RULES_PATH): EscalationRule[] {
+  if (!path) {
+    logger.info('Using default escalation rules (OBJECTION_RULES_PATH not set)');
+    return DEFAULT_ESCALATION_RULES;
+  }
+
+  const rules = JSON.parse(readFileSync(path, 'utf8'));
+  if (!Array.isArray(rules)) {
+    throw new Error(`${path} must contain a JSON array of escalation rules`);
+  }
+
+  const names = new Set<string>();
+  for (const rule of rules as EscalationRule[]) {
+    const valid =
+      typeof rule?.name === 'string' &&
+      !names.has(rule.name) &&
+      Number.isInteger(rule.strikes) &&
+      rule.strikes > 0 &&
+      typeof rule.heading === 'string' &&
+      Array.isArray(rule.scriptIds) &&
+      rule.scriptIds.length > 0;
+    if (!valid) {
+      throw new Error(`Invalid escalation rule in ${path}: ${JSON.stringify(rule)}`);
+    }
+
+    const unknown = rule.scriptIds.filter((id) => !publishedScripts().some((script) => script.id === id));
+    if (unknown.length > 0) {
+      throw new Error(`Escalation rule "${rule.name}" uses unknown script ids: ${unknown.join(', ')}`);
+    }
+    names.add(rule.name);
+  }
+
+  logger.info('Escalation rules loaded', { path, rules: rules.map((r: EscalationRule) => `${r.name}@${r.strikes}`) });
+  return rules;
+}
+
+/**
+ * Objection Service
+ *
+ * Detects customer rejections (strikes) in caller segments and decides when an
+ * escalation rule forces the next tip (pivot, email, sign-off) instead of the LLM.
+ */
+export class ObjectionService {
+  private readonly rules: EscalationRule[];
+
+  constructor(rules: EscalationRule[] = DEFAULT_ESCALATION_RULES) {
+    // Highest threshold first
+    this.rules = [...rules].sort((a, b) => b.strikes - a.strikes);
+  }
+
+  /**
+   * Library scripts the escalation rules use (must stay in a published library)
+   */
+  scriptIds(): string[] {
+    return Array.from(new Set(this.rules.flatMap((rule) => rule.scriptIds)));
+  }
+
+  /**
+   * Objection in a caller segment, if any
+   */
+  detect(callerText: string, timestamp: number): Objection | undefined {
+    const type = detectObjection(callerText);
+    return type ? { type, text: callerText, timestamp } : undefined;
+  }
+
+  /**
+   * Rule to apply now: the highest threshold the call has reached, unless it already fired
+   * Only rules with a script in the call's playbook library count
+   */
+  dueEscalation(
+    conversation: Pick<Conversation, 'objections' | 'escalations' | 'playbookId'>
+  ): EscalationRule | undefined {
+    const strikes = conversation.objections?.length || 0;
+    const library = publishedScripts(conversation.playbookId);
+    const rule = this.rules.find(
+      (candidate) =>
+        strikes >= candidate.strikes && candidate.scriptIds.some((id) => library.some((script) => script.id === id))
+    );
+    return rule && !conversation.escalations?.includes(rule.name) ? rule : undefined;
+  }
+
+  /**
+   * Tip forced by an escalation rule (library scripts, no LLM)
+   */
+  buildEscalationTip(
+    conversationId: string,
+    rule: EscalationRule,
+    strikes: number,
+    placeholders: PlaceholderValues,
+    playbookId?: string,
+    language?: ScriptLanguage
+  ): AITipPayload {
+    const { options, unresolved, libraryVersion } = enforceGoldenScripts(
+      rule.scriptIds.map((id) => ({ id })),
+      placeholders,
+      playbookId,
+      language
+    );
+    const stage = publishedScripts(playbookId).find((script) => script.id === options[0]?.id)?.stage || 'CLOSING';
+
+    return {
+      recommendationId: uuidv4(),
+      conversationId,
+      stage,
+      heading: rule.heading,
+      context: `${strikes} strikes: escalation "${rule.name}"`,
+      options,
+      unresolvedPlaceholders: unresolved.length > 0 ? unresolved : undefined,
+      strikes,
+      escalation: rule.name,
+      libraryVersion,
+      timestamp: Date.now(),
+    };
+  }
+}
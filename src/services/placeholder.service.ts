@@ -0,0 +1,118 @@
+import { readFileSync } from 'fs';
+import { createLogger } from '../utils/logger';
+import { DEFAULT_PLACEHOLDER_VALUES, listPlaceholders } from '../utils/script-enforcement';
+import { publishedScripts } from '../utils/golden-library';
+import type { PlaybookService } from './playbook.service';
+import type {
+  Conversation,
+  PlaceholderConfig,
+  PlaceholderResolution,
+  PlaceholderSource,
+  PlaceholderValues,
+} from '../types';
+
+const logger = createLogger('placeholders');
+
+/**
+ * Load agent profiles and campaign settings from PLACEHOLDER_CONFIG_PATH (JSON)
+ * No path configured = empty config (metadata and fallbacks only)
+ */
+export function loadPlaceholderConfig(path = process.env.PLACEHOLDER_CONFIG_PATH): PlaceholderConfig {
+  if (!path) {
+    logger.info('No placeholder config (PLACEHOLDER_CONFIG_PATH not set)');
+    return {};
+  }
+
+  const config = JSON.parse(readFileSync(path, 'utf8')) as PlaceholderConfig;
+  logger.info('Placeholder config loaded', {
+    path,
+    agents: Object.keys(config.agents || {}).length,
+    campaigns: Object.keys(config.campaigns || {}).length,
+  });
+  return config;
+}
+
+/**
+ * Only non-empty string values count as set
+ */
+function pickStrings(values: Record<string, unknown> | undefined): PlaceholderValues {
+  return Object.fromEntries(
+    Object.entries(values || {}).filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1].trim() !== '')
+  );
+}
+
+/**
+ * Placeholder Service
+ *
+ * Resolves golden-script placeholders for a call. First match wins:
+ * 1. lead     - [Customer Name] captured from the customer during the call
+ * 2. metadata - StartConversationPayload.metadata (placeholders, agentName, location, customerName)
+ * 3. campaign - campaigns[metadata.campaignId] from the config file
+ * 4. playbook - placeholders of the call's playbook
+ * 5. agent    - agents[agentId] from the config file
+ * 6. defaults - defaults from the config file
+ * 7. fallback - built-in values ([Location], [Customer Name]; [Agent Name] has none)
+ */
+export class PlaceholderService {
+  constructor(
+    private readonly config: PlaceholderConfig = {},
+    private readonly playbookService?: PlaybookService
+  ) {}
+
+  /**
+   * Resolve placeholder values for a conversation
+   */
+  resolve(conversation: Pick<Conversation, 'agentId' | 'metadata' | 'lead' | 'playbookId'>): PlaceholderResolution {
+    const metadata = conversation.metadata || {};
+    const campaignId = typeof metadata.campaignId === 'string' ? metadata.campaignId : undefined;
+    const campaign = campaignId ? this.config.campaigns?.[campaignId] : undefined;
+    const agent = this.config.agents?.[conversation.agentId];
+    const playbook = this.playbookService?.get(conversation.playbookId);
+
+    if (campaignId && !campaign) {
+      logger.warn('Unknown campaign in conversation metadata', { campaignId });
+    }
+
+    const layers: [PlaceholderSource, PlaceholderValues][] = [
+      ['lead', pickStrings({ 'Customer Name': conversation.lead?.name })],
+      [
+        'metadata',
+        pickStrings({
+          'Agent Name': metadata.agentName,
+          Location: metadata.location,
+          'Customer Name': metadata.customerName,
+          ...metadata.placeholders,
+        }),
+      ],
+      ['campaign', pickStrings({ Location: campaign?.location, ...campaign?.placeholders })],
+      ['playbook', pickStrings(playbook?.placeholders)],
+      ['agent', pickStrings({ 'Agent Name': agent?.name, Location: agent?.location, ...agent?.placeholders })],
+      ['defaults', pickStrings(this.config.defaults)],
+      ['fallback', DEFAULT_PLACEHOLDER_VALUES],
+    ];
+
+    const values: PlaceholderValues = {};
+    const sources: Record<string, PlaceholderSource> = {};
+
+    for (const [source, layer] of layers) {
+      for (const [name, value] of Object.entries(layer)) {
+        if (values[name] !== undefined) continue;
+        values[name] = value;
+        sources[name] = source;
+      }
+    }
+
+    return {
+      values,
+      sources,
+      unresolved: this.libraryPlaceholders(conversation.playbookId).filter((name) => values[name] === undefined),
+    };
+  }
+
+  /**
+   * Every placeholder the playbook's published library uses, to report the ones a call cannot fill
+   */
+  private libraryPlaceholders(playbookId?: string): string[] {
+    return Array.from(new Set(publishedScripts(playbookId).flatMap((script) => listPlaceholders(script.text))));
+  }
+}
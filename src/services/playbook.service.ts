@@ -0,0 +1,141 @@
+import { readFileSync } from 'fs';
+import { createLogger } from '../utils/logger';
+import { DEFAULT_PLAYBOOK, DEFAULT_PLAYBOOK_ID } from '../constants/playbooks';
+import { validateScript } from '../utils/script-library';
+import { buildScriptGraph } from '../utils/script-graph';
+import type { Playbook, QualityScript } from '../types';
+
+const logger = createLogger('playbooks');
+
+const TEXT_FIELDS = ['name', 'company', 'offer', 'persona', 'goal'] as const;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Problems with a playbook definition (empty = valid)
+ */
+function validatePlaybook(playbook: unknown): string[] {
+  if (!isObject(playbook)) {
+    return ['must be an object'];
+  }
+  const problems: string[] = [];
+
+  if (typeof playbook.id !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(playbook.id)) {
+    problems.push('id must be lowercase letters, digits and dashes');
+  }
+  for (const field of TEXT_FIELDS) {
+    const value = playbook[field];
+    if (typeof value !== 'string' || !value.trim()) {
+      problems.push(`${field} is required`);
+    }
+  }
+
+  const scripts: unknown[] = Array.isArray(playbook.scripts) ? playbook.scripts : [];
+  if (scripts.length === 0) {
+    problems.push('scripts must be a non-empty array');
+  }
+  scripts.forEach((script, index) => {
+    if (!isObject(script)) {
+      problems.push(`scripts[${index}]: must be an object`);
+      return;
+    }
+    problems.push(...validateScript(script).map((problem) => `scripts[${index}]: ${problem}`));
+    if (scripts.findIndex((other) => isObject(other) && other.id === script.id) !== index) {
+      problems.push(`scripts[${index}]: duplicate id "${script.id}"`);
+    }
+  });
+  if (!scripts.some((script) => isObject(script) && script.id === playbook.goalScriptId)) {
+    problems.push('goalScriptId must be the id of one of its scripts');
+  }
+  if (problems.length === 0) {
+    buildScriptGraph(scripts as QualityScript[])
+      .issues.filter((issue) => issue.kind === 'unknown_target')
+      .forEach((issue) => problems.push(issue.message));
+  }
+
+  const placeholders = playbook.placeholders;
+  if (isObject(placeholders)) {
+    for (const [name, value] of Object.entries(placeholders)) {
+      if (typeof value !== 'string') {
+        problems.push(`placeholders.${name} must be a string`);
+      }
+    }
+  } else if (placeholders !== undefined) {
+    problems.push('placeholders must be an object of strings');
+  }
+
+  return problems;
+}
+
+/**
+ * Load playbooks from PLAYBOOKS_PATH (JSON array of Playbook), after the built-in default
+ * A file entry with the default id replaces the built-in playbook. Throws on invalid or duplicate playbooks.
+ */
+export function loadPlaybooks(path = process.env.PLAYBOOKS_PATH): Playbook[] {
+  if (!path) {
+    logger.info('Using the default playbook only (PLAYBOOKS_PATH not set)');
+    return [DEFAULT_PLAYBOOK];
+  }
+
+  const playbooks = JSON.parse(readFileSync(path, 'utf8'));
+  if (!Array.isArray(playbooks)) {
+    throw new Error(`${path} must contain a JSON array of playbooks`);
+  }
+
+  const ids = new Set<string>();
+  for (const playbook of playbooks) {
+    const problems = validatePlaybook(playbook);
+    if (problems.length > 0) {
+      throw new Error(`Invalid playbook "${playbook?.id}" in ${path}: ${problems.join('; ')}`);
+    }
+    if (ids.has(playbook.id)) {
+      throw new Error(`Duplicate playbook "${playbook.id}" in ${path}`);
+    }
+    ids.add(playbook.id);
+  }
+
+  logger.info('Playbooks loaded', { path, playbooks: Array.from(ids) });
+  return ids.has(DEFAULT_PLAYBOOK_ID) ? playbooks : [DEFAULT_PLAYBOOK, ...playbooks];
+}
+
+/**
+ * Playbook Service
+ *
+ * The configured playbooks. A call picks one with metadata.playbookId when it starts;
+ * calls without one (or with an unknown id) use the default playbook.
+ */
+export class PlaybookService {
+  private readonly playbooks: Map<string, Playbook>;
+
+  constructor(playbooks: Playbook[] = [DEFAULT_PLAYBOOK]) {
+    this.playbooks = new Map(playbooks.map((playbook) => [playbook.id, playbook]));
+  }
+
+  list(): Playbook[] {
+    return Array.from(this.playbooks.values());
+  }
+
+  has(playbookId: string): boolean {
+    return this.playbooks.has(playbookId);
+  }
+
+  /**
+   * A playbook by id; the default one when the id is missing or unknown
+   */
+  get(playbookId?: string): Playbook {
+    return (playbookId && this.playbooks.get(playbookId)) || this.playbooks.get(DEFAULT_PLAYBOOK_ID) || DEFAULT_PLAYBOOK;
+  }
+
+  /**
+   * Playbook chosen by START_CONVERSATION metadata (playbookId)
+   */
+  select(metadata: Record<string, any> = {}): Playbook {
+    const playbookId = typeof metadata.playbookId === 'string' ? metadata.playbookId : undefined;
+    if (playbookId && !this.playbooks.has(playbookId)) {
+      logger.warn('Unknown playbook in conversation metadata - using the default', { playbookId });
+    }
+    return this.get(playbookId);
+  }
+}
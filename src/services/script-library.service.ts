@@ -0,0 +1,512 @@
+import { createLogger } from '../utils/logger';
+import { publishedLibraryVersion, publishedScripts, setPublishedLibrary } from '../utils/golden-library';
+import { diffLibraries, validateScript } from '../utils/script-library';
+import { buildScriptGraph } from '../utils/script-graph';
+import type { ConversationStore } from '../storage';
+import type {
+  Playbook,
+  QualityScript,
+  ScriptChange,
+  ScriptGraph,
+  ScriptImportResult,
+  ScriptLibraryErrorCode,
+  ScriptLibraryPublication,
+  ScriptLibraryVersion,
+} from '../types';
+
+const logger = createLogger('script-library');
+
+/**
+ * A library request that cannot be applied, tagged with why
+ */
+export class ScriptLibraryError extends Error {
+  constructor(
+    readonly code: ScriptLibraryErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ScriptLibraryError';
+  }
+}
+
+/**
+ * Another instance committed the version this one was about to make (the change is retried
+ * from the new head)
+ */
+class StaleHeadError extends Error {}
+
+const MAX_COMMIT_ATTEMPTS = 3;
+
+export type ScriptUpdate = Partial<
+  Pick<QualityScript, 'stage' | 'label' | 'text' | 'condition' | 'next' | 'translations'>
+>;
+
+/**
+ * Script Library Service
+ *
+ * Owns the golden script library of every playbook. Every create, update or delete makes a
+ * new immutable version of that playbook's library (author, message and diff against the
+ * previous version); tips keep drawing from the published version until another one is
+ * published or a rollback is made. The first start seeds version 1 of each playbook from
+ * its configured scripts and publishes it.
+ *
+ * Several instances can share the store: every change re-reads versions and publications
+ * first, a version number another instance took in the meantime makes the change retry, and
+ * refresh() picks up versions published elsewhere.
+ */
+export class ScriptLibraryService {
+  private versions: Map<string, ScriptLibraryVersion[]> = new Map();
+  private publications: Map<string, ScriptLibraryPublication[]> = new Map();
+  private readonly playbooks: Map<string, Playbook>;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly store: ConversationStore,
+    playbooks: Playbook[],
+    private readonly requiredScriptIds: string[] = [] // Referenced elsewhere (escalation rules)
+  ) {
+    this.playbooks = new Map(playbooks.map((playbook) => [playbook.id, playbook]));
+  }
+
+  /**
+   * Load versions and publications from the store (call after the store is initialized)
+   */
+  async init(): Promise<void> {
+    await this.load();
+
+    for (const playbook of this.playbooks.values()) {
+      if (!this.versions.has(playbook.id)) {
+        const seed: ScriptLibraryVersion = {
+          playbookId: playbook.id,
+          version: 1,
+          scripts: playbook.scripts,
+          author: 'system',
+          message: 'Playbook scripts',
+          diff: diffLibraries([], playbook.scripts),
+          createdAt: Date.now(),
+        };
+        if (await this.store.saveScriptLibraryVersion(seed)) {
+          this.versions.set(playbook.id, [seed]);
+        } else {
+          await this.load(); // Seeded by an instance starting at the same time
+        }
+      }
+
+      if (!this.publications.has(playbook.id)) {
+        await this.recordPublication(playbook.id, 1, 'system', false);
+      }
+    }
+
+    logger.info('Script libraries loaded', {
+      published: Object.fromEntries(Array.from(this.playbooks.keys(), (id) => [id, this.publishedVersion(id)])),
+    });
+  }
+
+  /**
+   * Re-read versions and publications, so tips follow versions published by other instances
+   */
+  refresh(): Promise<void> {
+    return this.serialize(() => this.load());
+  }
+
+  /**
+   * Version number a playbook's tips currently draw from
+   */
+  publishedVersion(playbookId: string): number {
+    const publications = this.publicationsOf(playbookId);
+    return publications[publications.length - 1]?.version ?? 1;
+  }
+
+  /**
+   * Latest version number of a playbook's library (may not be published yet)
+   */
+  latestVersion(playbookId: string): number {
+    return this.head(playbookId).version;
+  }
+
+  /**
+   * Every version of a playbook's library, newest first, without the scripts themselves
+   */
+  listVersions(
+    playbookId: string
+  ): Array<Omit<ScriptLibraryVersion, 'scripts'> & { scriptCount: number; published: boolean }> {
+    const published = this.publishedVersion(playbookId);
+
+    return [...this.versionsOf(playbookId)].reverse().map(({ scripts, ...version }) => ({
+      ...version,
+      scriptCount: scripts.length,
+      published: version.version === published,
+    }));
+  }
+
+  /**
+   * Publication history of a playbook's library, newest first
+   */
+  listPublications(playbookId: string): ScriptLibraryPublication[] {
+    return [...this.publicationsOf(playbookId)].reverse();
+  }
+
+  /**
+   * A version with its scripts
+   */
+  getVersion(playbookId: string, version: number): ScriptLibraryVersion {
+    const found = this.versionsOf(playbookId).find((candidate) => candidate.version === version);
+    if (!found) {
+      throw new ScriptLibraryError('not_found', `Library version ${version} of playbook "${playbookId}" not found`);
+    }
+    return found;
+  }
+
+  /**
+   * Scripts of a version (default: the latest, which may not be published yet)
+   */
+  getScripts(playbookId: string, version?: number): QualityScript[] {
+    return version === undefined ? this.head(playbookId).scripts : this.getVersion(playbookId, version).scripts;
+  }
+
+  /**
+   * Playbook graph of a version (default: the latest) with its problems
+   */
+  getGraph(playbookId: string, version?: number): ScriptGraph {
+    return buildScriptGraph(this.getScripts(playbookId, version));
+  }
+
+  /**
+   * Add a script (new version)
+   */
+  createScript(playbookId: string, script: QualityScript, author: string, message?: string): Promise<ScriptLibraryVersion> {
+    return this.serialize(async () => {
+      const scripts = this.head(playbookId).scripts;
+      this.assertValid(script);
+      if (scripts.some((existing) => existing.id === script.id)) {
+        throw new ScriptLibraryError('conflict', `Script "${script.id}" already exists`);
+      }
+
+      return this.commit(playbookId, [...scripts, this.normalize(script)], author, message);
+    });
+  }
+
+  /**
+   * Change a script's stage, label, text, condition, transitions or translations (new version)
+   * An empty condition, transition list or translation map removes it
+   */
+  updateScript(
+    playbookId: string,
+    id: string,
+    update: ScriptUpdate,
+    author: string,
+    message?: string
+  ): Promise<ScriptLibraryVersion> {
+    return this.serialize(async () => {
+      const scripts = this.head(playbookId).scripts;
+      const existing = this.findScript(scripts, id);
+
+      const changes = Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined));
+      const updated = this.normalize({ ...existing, ...changes, id });
+      this.assertValid(updated);
+
+      const next = scripts.map((script) => (script.id === id ? updated : script));
+      if (diffLibraries(scripts, next).length === 0) {
+        throw new ScriptLibraryError('invalid', `No changes to script "${id}"`);
+      }
+
+      return this.commit(playbookId, next, author, message);
+    });
+  }
+
+  /**
+   * Remove a script (new version)
+   */
+  deleteScript(playbookId: string, id: string, author: string, message?: string): Promise<ScriptLibraryVersion> {
+    return this.serialize(async () => {
+      const scripts = this.head(playbookId).scripts;
+      this.findScript(scripts, id);
+
+      return this.commit(
+        playbookId,
+        scripts.filter((script) => script.id !== id),
+        author,
+        message
+      );
+    });
+  }
+
+  /**
+   * Replace the library with the scripts of an imported file (new version, not published)
+   * A dry run only returns the diff against the latest version and the graph problems
+   */
+  importScripts(
+    playbookId: string,
+    scripts: QualityScript[],
+    author: string,
+    options: { message?: string; dryRun?: boolean } = {}
+  ): Promise<ScriptImportResult> {
+    return this.serialize(async () => {
+      const head = this.head(playbookId);
+      const ids = new Set<string>();
+      for (const script of scripts) {
+        this.assertValid(script);
+        if (ids.has(script.id)) {
+          throw new ScriptLibraryError('invalid', `Script "${script.id}" is in the import more than once`);
+        }
+        ids.add(script.id);
+      }
+
+      const imported = scripts.map((script) => this.normalize(script));
+      const preview = {
+        playbookId,
+        baseVersion: head.version,
+        scriptCount: imported.length,
+        diff: diffLibraries(head.scripts, imported),
+        issues: buildScriptGraph(imported).issues,
+      };
+      if (options.dryRun) {
+        return { ...preview, dryRun: true };
+      }
+
+      const version = await this.commit(playbookId, imported, author, options.message || 'Import');
+      return { ...preview, dryRun: false, version: version.version };
+    });
+  }
+
+  /**
+   * Make a version the one the playbook's tips draw from
+   */
+  publish(playbookId: string, version: number, author: string): Promise<ScriptLibraryPublication> {
+    return this.serialize(async () => {
+      this.assertAuthor(author);
+      const target = this.getVersion(playbookId, version);
+      if (target.version === this.publishedVersion(playbookId)) {
+        throw new ScriptLibraryError('conflict', `Library version ${version} is already published`);
+      }
+      this.assertPublishable(playbookId, target.scripts);
+
+      return this.recordPublication(playbookId, version, author, false);
+    });
+  }
+
+  /**
+   * Restore an earlier version: its scripts become a new version, which is published
+   */
+  rollback(playbookId: string, version: number, author: string): Promise<ScriptLibraryPublication> {
+    return this.serialize(async () => {
+      this.assertAuthor(author);
+      const target = this.getVersion(playbookId, version);
+      if (target.version === this.publishedVersion(playbookId)) {
+        throw new ScriptLibraryError('conflict', `Library version ${version} is already published`);
+      }
+      this.assertPublishable(playbookId, target.scripts);
+
+      const restored = await this.commit(playbookId, target.scripts, author, `Rollback to version ${version}`, true);
+      return this.recordPublication(playbookId, restored.version, author, true);
+    });
+  }
+
+  private versionsOf(playbookId: string): ScriptLibraryVersion[] {
+    if (!this.playbooks.has(playbookId)) {
+      throw new ScriptLibraryError('not_found', `Playbook "${playbookId}" not found`);
+    }
+    return this.versions.get(playbookId) || [];
+  }
+
+  private publicationsOf(playbookId: string): ScriptLibraryPublication[] {
+    if (!this.playbooks.has(playbookId)) {
+      throw new ScriptLibraryError('not_found', `Playbook "${playbookId}" not found`);
+    }
+    return this.publications.get(playbookId) || [];
+  }
+
+  private head(playbookId: string): ScriptLibraryVersion {
+    const versions = this.versionsOf(playbookId);
+    return versions[versions.length - 1];
+  }
+
+  private findScript(scripts: QualityScript[], id: string): QualityScript {
+    const script = scripts.find((candidate) => candidate.id === id);
+    if (!script) {
+      throw new ScriptLibraryError('not_found', `Script "${id}" not found`);
+    }
+    return script;
+  }
+
+  /**
+   * Store a new version after the head (written to the store before it is visible)
+   */
+  private async commit(
+    playbookId: string,
+    scripts: QualityScript[],
+    author: string,
+    message?: string,
+    allowUnchanged = false
+  ): Promise<ScriptLibraryVersion> {
+    this.assertAuthor(author);
+    const head = this.head(playbookId);
+    const diff: ScriptChange[] = diffLibraries(head.scripts, scripts);
+    if (diff.length === 0 && !allowUnchanged) {
+      throw new ScriptLibraryError('invalid', 'No changes to the library');
+    }
+
+    const version: ScriptLibraryVersion = {
+      playbookId,
+      version: head.version + 1,
+      scripts,
+      author: author.trim(),
+      message: message?.trim() || undefined,
+      diff,
+      createdAt: Date.now(),
+    };
+
+    if (!(await this.store.saveScriptLibraryVersion(version))) {
+      throw new StaleHeadError(`Version ${version.version} of playbook "${playbookId}" already exists`);
+    }
+    this.versions.get(playbookId)!.push(version);
+    logger.info('Script library version created', {
+      playbookId,
+      version: version.version,
+      author: version.author,
+      changes: diff.map((change) => `${change.change}:${change.scriptId}`),
+    });
+
+    return version;
+  }
+
+  private async recordPublication(
+    playbookId: string,
+    version: number,
+    author: string,
+    rollback: boolean
+  ): Promise<ScriptLibraryPublication> {
+    const publication: ScriptLibraryPublication = {
+      playbookId,
+      version,
+      author: author.trim(),
+      rollback,
+      publishedAt: Date.now(),
+    };
+
+    await this.store.recordScriptLibraryPublication(publication);
+    this.publications.set(playbookId, [...(this.publications.get(playbookId) || []), publication]);
+    this.applyPublished(playbookId);
+    logger.info('Script library version published', { playbookId, version, author: publication.author, rollback });
+
+    return publication;
+  }
+
+  private applyPublished(playbookId: string): void {
+    const version = this.publishedVersion(playbookId);
+    setPublishedLibrary(playbookId, version, this.getVersion(playbookId, version).scripts);
+  }
+
+  /**
+   * Library changes one at a time, each from the head in the store: reloaded first, and
+   * the change made again from the new head when another instance took its version number
+   */
+  private serialize<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(async () => {
+      for (let attempt = 1; ; attempt++) {
+        await this.load();
+        try {
+          return await fn();
+        } catch (error) {
+          if (!(error instanceof StaleHeadError)) throw error;
+          if (attempt === MAX_COMMIT_ATTEMPTS) {
+            throw new ScriptLibraryError('conflict', 'The library kept changing on another instance, try again');
+          }
+          logger.info('Script library changed on another instance, retrying', { attempt });
+        }
+      }
+    });
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Versions and publications from the store; published versions that changed are applied
+   */
+  private async load(): Promise<void> {
+    const versions: Map<string, ScriptLibraryVersion[]> = new Map();
+    for (const version of await this.store.getScriptLibraryVersions()) {
+      versions.set(version.playbookId, [...(versions.get(version.playbookId) || []), version]);
+    }
+    const publications: Map<string, ScriptLibraryPublication[]> = new Map();
+    for (const publication of await this.store.getScriptLibraryPublications()) {
+      publications.set(publication.playbookId, [...(publications.get(publication.playbookId) || []), publication]);
+    }
+
+    this.versions = versions;
+    this.publications = publications;
+    for (const playbookId of this.playbooks.keys()) {
+      if (!this.publications.has(playbookId)) continue;
+
+      const previous = publishedLibraryVersion(playbookId);
+      this.applyPublished(playbookId);
+      if (previous !== undefined && previous !== this.publishedVersion(playbookId)) {
+        logger.info('Published script library changed', { playbookId, from: previous, to: this.publishedVersion(playbookId) });
+      }
+    }
+  }
+
+  /**
+   * Trim fields and drop an empty condition, transition list or translation map
+   */
+  private normalize(script: QualityScript): QualityScript {
+    const trim = (value: string) => (typeof value === 'string' ? value.trim() : value);
+    const condition = typeof script.condition === 'string' ? script.condition.trim() : script.condition;
+    const next = Array.isArray(script.next)
+      ? script.next.map((transition) => ({ intent: transition?.intent, scriptId: transition?.scriptId }))
+      : script.next;
+    const translations =
+      script.translations && typeof script.translations === 'object' && !Array.isArray(script.translations)
+        ? Object.fromEntries(
+            Object.entries(script.translations).map(([language, translation]) => [
+              language,
+              { label: trim(translation?.label), text: trim(translation?.text) },
+            ])
+          )
+        : script.translations;
+    return {
+      id: script.id,
+      stage: script.stage,
+      label: trim(script.label),
+      text: trim(script.text),
+      ...(condition ? { condition } : {}),
+      ...(next === undefined || (Array.isArray(next) && next.length === 0) ? {} : { next }),
+      ...(translations === undefined || Object.keys(translations).length === 0 ? {} : { translations }),
+    };
+  }
+
+  private assertValid(script: Partial<QualityScript>): void {
+    const problems = validateScript(script);
+    if (problems.length > 0) {
+      throw new ScriptLibraryError('invalid', problems.join('; '));
+    }
+  }
+
+  private assertAuthor(author: string): void {
+    if (typeof author !== 'string' || !author.trim()) {
+      throw new ScriptLibraryError('invalid', 'author is required');
+    }
+  }
+
+  /**
+   * A published library must keep the playbook's goal script and the escalation scripts
+   * the currently published version has, and its transitions must lead to scripts it has
+   */
+  private assertPublishable(playbookId: string, scripts: QualityScript[]): void {
+    const live = publishedScripts(playbookId);
+    const required = [
+      this.playbooks.get(playbookId)!.goalScriptId,
+      ...this.requiredScriptIds.filter((id) => live.some((script) => script.id === id)),
+    ];
+
+    const missing = required.filter((id) => !scripts.some((script) => script.id === id));
+    if (missing.length > 0) {
+      throw new ScriptLibraryError('conflict', `Scripts the playbook relies on are missing: ${missing.join(', ')}`);
+    }
+
+    const dangling = buildScriptGraph(scripts).issues.filter((issue) => issue.kind === 'unknown_target');
+    if (dangling.length > 0) {
+      throw new ScriptLibraryError('conflict', dangling.map((issue) => issue.message).join('; '));
+    }
+  }
+}
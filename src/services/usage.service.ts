@@ -0,0 +1,224 @@
+import { readFileSync } from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { createLogger } from '../utils/logger';
+import { DEFAULT_LLM_PRICES, priceFor, roundUsd, summarizeUsage, usageCost, usageDay } from '../utils/llm-usage';
+import type { ConversationStore } from '../storage';
+import type { LLMUsageMeter } from '../llm';
+import type {
+  LLMBudgetAction,
+  LLMBudgets,
+  LLMBudgetStatus,
+  LLMCompletion,
+  LLMModelPrice,
+  LLMOperation,
+  LLMUsageGroupBy,
+  LLMUsageQuery,
+  LLMUsageRecord,
+  LLMUsageSummary,
+} from '../types';
+
+const logger = createLogger('usage');
+
+const BUDGET_ACTIONS: LLMBudgetAction[] = ['fallback', 'pause'];
+
+/**
+ * Load the price table: DEFAULT_LLM_PRICES plus LLM_PRICES_PATH entries
+ * (JSON object: model -> { "input": USD per 1M tokens, "output": USD per 1M tokens }). Throws on malformed entries.
+ */
+export function loadPriceTable(path = process.env.LLM_PRICES_PATH): Record<string, LLMModelPrice> {
+  if (!path) {
+    return DEFAULT_LLM_PRICES;
+  }
+
+  const prices = JSON.parse(readFileSync(path, 'utf8'));
+  if (!prices || typeof prices !== 'object' || Array.isArray(prices)) {
+    throw new Error(`${path} must contain a JSON object of model prices`);
+  }
+
+  for (const [model, price] of Object.entries<any>(prices)) {
+    const valid = [price?.input, price?.output].every((value) => typeof value === 'number' && value >= 0);
+    if (!valid) {
+      throw new Error(`Invalid price for "${model}" in ${path}: ${JSON.stringify(price)}`);
+    }
+  }
+
+  logger.info('LLM price table loaded', { path, models: Object.keys(prices) });
+  return { ...DEFAULT_LLM_PRICES, ...prices };
+}
+
+/**
+ * Budgets from LLM_DAILY_BUDGET_USD, LLM_AGENT_DAILY_BUDGET_USD and LLM_BUDGET_ACTION (fallback | pause)
+ * Unset amounts mean no budget. Throws on invalid values.
+ */
+export function loadBudgets(env: NodeJS.ProcessEnv = process.env): LLMBudgets {
+  const amount = (variable: string): number | undefined => {
+    const value = env[variable];
+    if (value === undefined || value === '') return undefined;
+
+    const parsed = Number(value);
+    if (Number.isNaN(parsed) || parsed <= 0) {
+      throw new Error(`${variable} must be a positive number (got "${value}")`);
+    }
+    return parsed;
+  };
+
+  const action = (env.LLM_BUDGET_ACTION || 'fallback') as LLMBudgetAction;
+  if (!BUDGET_ACTIONS.includes(action)) {
+    throw new Error(`LLM_BUDGET_ACTION must be one of ${BUDGET_ACTIONS.join(', ')} (got "${action}")`);
+  }
+
+  return {
+    dailyUsd: amount('LLM_DAILY_BUDGET_USD'),
+    agentDailyUsd: amount('LLM_AGENT_DAILY_BUDGET_USD'),
+    action,
+  };
+}
+
+/**
+ * Usage Service
+ *
+ * Records the tokens of every LLM request against its conversation, agent and operation,
+ * priced with the price table. Keeps today's spend (UTC) in memory to enforce the optional
+ * daily and per-agent budgets: once a budget is spent LLM requests are refused, so tips fall
+ * back to rule-based ones, and with LLM_BUDGET_ACTION=pause auto tips stop as well.
+ */
+export class UsageService implements LLMUsageMeter {
+  private day = usageDay(Date.now());
+  private spentUsd = 0;
+  private agentSpentUsd: Map<string, number> = new Map();
+  private unpricedModels: Set<string> = new Set();
+
+  constructor(
+    private readonly store: ConversationStore,
+    private readonly prices: Record<string, LLMModelPrice>,
+    private readonly budgets: LLMBudgets,
+    private readonly agentOf: (conversationId: string) => string | undefined
+  ) {
+    logger.info('Usage service initialized', budgets);
+  }
+
+  /**
+   * Load today's spend from the store (call after the store is initialized)
+   */
+  async init(): Promise<void> {
+    const records = await this.store.getLLMUsage({ from: Date.parse(this.day) });
+    records.forEach((record) => this.addSpend(record));
+    logger.info('Today\'s LLM spend loaded', { day: this.day, spentUsd: roundUsd(this.spentUsd) });
+  }
+
+  /**
+   * Refuse the request when the daily or the agent's budget is spent
+   */
+  check(operation: LLMOperation, conversationId?: string): void {
+    const exceeded = this.exceededBudget(conversationId && this.agentOf(conversationId));
+    if (exceeded) {
+      throw new Error(`LLM ${operation} refused: ${exceeded} budget exceeded`);
+    }
+  }
+
+  /**
+   * Price a completion and record it (written to the store in the background)
+   */
+  record(operation: LLMOperation, completion: LLMCompletion, conversationId?: string): void {
+    const price = priceFor(completion.model, this.prices);
+    const inputTokens = completion.usage?.inputTokens || 0;
+    const outputTokens = completion.usage?.outputTokens || 0;
+
+    if (!price && !this.unpricedModels.has(completion.model)) {
+      this.unpricedModels.add(completion.model);
+      logger.warn('No price for LLM model - usage recorded at $0', { model: completion.model });
+    }
+
+    const record: LLMUsageRecord = {
+      id: uuidv4(),
+      operation,
+      provider: completion.provider,
+      model: completion.model,
+      conversationId,
+      agentId: conversationId ? this.agentOf(conversationId) : undefined,
+      inputTokens,
+      outputTokens,
+      costUsd: price ? usageCost(price, inputTokens, outputTokens) : 0,
+      priced: !!price,
+      estimated: !!completion.usage?.estimated,
+      timestamp: Date.now(),
+    };
+
+    this.addSpend(record);
+    this.store.recordLLMUsage(record).catch((error: any) => {
+      logger.error('Failed to persist LLM usage', { operation, error: error.message });
+    });
+  }
+
+  /**
+   * Whether auto (periodic) tips should stop for an agent (budget spent and action 'pause')
+   */
+  autoTipsPaused(agentId?: string): boolean {
+    return this.budgets.action === 'pause' && !!this.exceededBudget(agentId);
+  }
+
+  /**
+   * Usage totals for a query, optionally grouped
+   */
+  async summarize(query: LLMUsageQuery, groupBy?: LLMUsageGroupBy): Promise<LLMUsageSummary> {
+    return summarizeUsage(await this.store.getLLMUsage(query), groupBy);
+  }
+
+  /**
+   * Today's spend against the configured budgets
+   */
+  budgetStatus(): LLMBudgetStatus {
+    this.rollDay();
+    const { dailyUsd, agentDailyUsd, action } = this.budgets;
+
+    return {
+      day: this.day,
+      spentUsd: roundUsd(this.spentUsd),
+      dailyUsd,
+      agentDailyUsd,
+      action,
+      exceeded: dailyUsd !== undefined && this.spentUsd >= dailyUsd,
+      agents: Array.from(this.agentSpentUsd, ([agentId, spent]) => ({
+        agentId,
+        spentUsd: roundUsd(spent),
+        exceeded: agentDailyUsd !== undefined && spent >= agentDailyUsd,
+      })).sort((a, b) => b.spentUsd - a.spentUsd),
+    };
+  }
+
+  /**
+   * Which budget is spent, if any
+   */
+  private exceededBudget(agentId?: string): 'daily' | 'agent' | undefined {
+    this.rollDay();
+    const { dailyUsd, agentDailyUsd } = this.budgets;
+
+    if (dailyUsd !== undefined && this.spentUsd >= dailyUsd) return 'daily';
+    if (agentId && agentDailyUsd !== undefined && (this.agentSpentUsd.get(agentId) || 0) >= agentDailyUsd) {
+      return 'agent';
+    }
+    return undefined;
+  }
+
+  private addSpend(record: LLMUsageRecord): void {
+    this.rollDay();
+    if (usageDay(record.timestamp) !== this.day) return;
+
+    this.spentUsd += record.costUsd;
+    if (record.agentId) {
+      this.agentSpentUsd.set(record.agentId, (this.agentSpentUsd.get(record.agentId) || 0) + record.costUsd);
+    }
+  }
+
+  /**
+   * Budgets reset at midnight UTC
+   */
+  private rollDay(): void {
+    const today = usageDay(Date.now());
+    if (today !== this.day) {
+      this.day = today;
+      this.spentUsd = 0;
+      this.agentSpentUsd.clear();
+    }
+  }
+}
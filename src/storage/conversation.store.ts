@@ -0,0 +1,101 @@
+import type {
+  AITipPayload,
+  AIRecommendation,
+  CoachingTurn,
+  Conversation,
+  ConversationQuery,
+  ExperimentExposure,
+  LLMUsageQuery,
+  LLMUsageRecord,
+  ScriptLibraryPublication,
+  ScriptLibraryVersion,
+  ScriptSelection,
+  StateTransition,
+  TranscriptSegment,
+} from '../types';
+
+/**
+ * Conversation Store
+ *
+ * Persistence contract for conversations and everything recorded during a call.
+ * ConversationService keeps live state in memory and writes through to a store,
+ * so a store only has to answer "what happened" queries, not drive the call.
+ * It also keeps the versions of each playbook's script library and their publications.
+ */
+export interface ConversationStore {
+  /**
+   * Prepare the store (connect, run migrations)
+   */
+  init(): Promise<void>;
+
+  /**
+   * Release connections (graceful shutdown)
+   */
+  close(): Promise<void>;
+
+  /**
+   * Insert or update the conversation record (not its transcript)
+   */
+  saveConversation(conversation: Conversation): Promise<void>;
+
+  appendTranscript(conversationId: string, segment: TranscriptSegment): Promise<void>;
+
+  saveRecommendation(recommendation: AITipPayload): Promise<void>;
+
+  recordSelection(selection: ScriptSelection): Promise<void>;
+
+  recordStateTransition(transition: StateTransition): Promise<void>;
+
+  saveCoachingTurn(turn: CoachingTurn): Promise<void>;
+
+  recordLLMUsage(record: LLMUsageRecord): Promise<void>;
+
+  /**
+   * Insert a library version; false when the playbook already has that version number
+   * (another instance committed first)
+   */
+  saveScriptLibraryVersion(version: ScriptLibraryVersion): Promise<boolean>;
+
+  recordScriptLibraryPublication(publication: ScriptLibraryPublication): Promise<void>;
+
+  /**
+   * Get a conversation with its full transcript history
+   */
+  getConversation(conversationId: string): Promise<Conversation | undefined>;
+
+  /**
+   * List conversations (newest first, without transcript history)
+   */
+  listConversations(query: ConversationQuery): Promise<Conversation[]>;
+
+  /**
+   * Get every recommendation issued for a conversation, with the option selected (if any)
+   */
+  getRecommendations(conversationId: string): Promise<AIRecommendation[]>;
+
+  getSelections(conversationId: string): Promise<ScriptSelection[]>;
+
+  getStateTransitions(conversationId: string): Promise<StateTransition[]>;
+
+  getCoachingTurns(conversationId: string): Promise<CoachingTurn[]>;
+
+  /**
+   * Get one exposure per call and variant offered in an experiment's tips, with the call outcome
+   */
+  getExperimentExposures(experimentId: string): Promise<ExperimentExposure[]>;
+
+  /**
+   * Get LLM usage records matching the query (oldest first)
+   */
+  getLLMUsage(query: LLMUsageQuery): Promise<LLMUsageRecord[]>;
+
+  /**
+   * Get every script library version, of every playbook (oldest first)
+   */
+  getScriptLibraryVersions(): Promise<ScriptLibraryVersion[]>;
+
+  /**
+   * Get the publication history of the script library (oldest first)
+   */
+  getScriptLibraryPublications(): Promise<ScriptLibraryPublication[]>;
+}
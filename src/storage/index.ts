@@ -0,0 +1,29 @@
+import { createLogger } from '../utils/logger';
+import { MemoryConversationStore } from './memory-conversation.store';
+import { PostgresConversationStore } from './postgres-conversation.store';
+import type { ConversationStore } from './conversation.store';
+
+export type { ConversationStore } from './conversation.store';
+export { MemoryConversationStore } from './memory-conversation.store';
+export { PostgresConversationStore } from './postgres-conversation.store';
+
+const logger = createLogger('storage');
+
+/**
+ * Pick the conversation store from environment
+ * ENABLE_DATABASE=true requires DATABASE_URL; otherwise conversations stay in memory
+ */
+export function createConversationStore(): ConversationStore {
+  if (process.env.ENABLE_DATABASE !== 'true') {
+    logger.info('Using in-memory conversation store (ENABLE_DATABASE is not true)');
+    return new MemoryConversationStore();
+  }
+
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) {
+    throw new Error('DATABASE_URL environment variable is required when ENABLE_DATABASE=true');
+  }
+
+  logger.info('Using PostgreSQL conversation store');
+  return new PostgresConversationStore(databaseUrl);
+}
@@ -0,0 +1,254 @@
+import type { ConversationStore } from './conversation.store';
+import type {
+  AITipPayload,
+  AIRecommendation,
+  CallOutcome,
+  CoachingTurn,
+  Conversation,
+  ConversationQuery,
+  ExperimentExposure,
+  LLMUsageQuery,
+  LLMUsageRecord,
+  ScriptLibraryPublication,
+  ScriptLibraryVersion,
+  ScriptSelection,
+  StateTransition,
+  TranscriptSegment,
+} from '../types';
+
+const RETENTION_AFTER_END_MS = 5 * 60 * 1000;
+const MAX_RECOMMENDATIONS = 100;
+const MAX_USAGE_RECORDS = 10000;
+
+interface StoredConversation {
+  conversation: Conversation;
+  transcript: TranscriptSegment[];
+  selections: ScriptSelection[];
+  transitions: StateTransition[];
+  turns: CoachingTurn[];
+  cleanupTimer?: NodeJS.Timeout;
+}
+
+// A call that was offered experiment variants
+interface ExperimentCall {
+  exposures: Array<{ experimentId: string; variant: string; exposedAt: number }>;
+  outcome?: CallOutcome;
+}
+
+/**
+ * In-Memory Conversation Store
+ *
+ * Default store (ENABLE_DATABASE=false). Keeps the MVP retention rules:
+ * conversations are dropped 5 minutes after they end and only the last
+ * 100 recommendations (and 10,000 LLM usage records) are kept. Experiment exposures and the
+ * outcomes of exposed calls are kept apart from both, for as long as the process runs, so
+ * experiment results cover every call. Nothing survives a restart, so script library edits
+ * are lost as well.
+ */
+export class MemoryConversationStore implements ConversationStore {
+  private conversations: Map<string, StoredConversation> = new Map();
+  private recommendations: Map<string, AITipPayload> = new Map();
+  private usage: LLMUsageRecord[] = [];
+  private experimentCalls: Map<string, ExperimentCall> = new Map();
+  private libraryVersions: ScriptLibraryVersion[] = [];
+  private libraryPublications: ScriptLibraryPublication[] = [];
+
+  async init(): Promise<void> {
+    // Nothing to prepare
+  }
+
+  async close(): Promise<void> {
+    this.conversations.forEach((stored) => {
+      if (stored.cleanupTimer) clearTimeout(stored.cleanupTimer);
+    });
+  }
+
+  async saveConversation(conversation: Conversation): Promise<void> {
+    // Transcript is stored separately (appendTranscript) so it is never truncated
+    const record: Conversation = { ...conversation, transcriptHistory: [] };
+
+    let stored = this.conversations.get(conversation.id);
+    if (stored) {
+      stored.conversation = record;
+    } else {
+      stored = { conversation: record, transcript: [], selections: [], transitions: [], turns: [] };
+      this.conversations.set(conversation.id, stored);
+    }
+
+    const experimentCall = this.experimentCalls.get(conversation.id);
+    if (experimentCall) {
+      experimentCall.outcome = conversation.outcome;
+    }
+
+    // Drop the conversation 5 minutes after it ends
+    if (conversation.endTime && !stored.cleanupTimer) {
+      stored.cleanupTimer = setTimeout(() => {
+        this.conversations.delete(conversation.id);
+      }, RETENTION_AFTER_END_MS);
+    }
+  }
+
+  async appendTranscript(conversationId: string, segment: TranscriptSegment): Promise<void> {
+    this.conversations.get(conversationId)?.transcript.push(segment);
+  }
+
+  async saveRecommendation(recommendation: AITipPayload): Promise<void> {
+    this.recommendations.set(recommendation.recommendationId, recommendation);
+    this.recordExposures(recommendation);
+
+    // Keep last 100 recommendations
+    if (this.recommendations.size > MAX_RECOMMENDATIONS) {
+      const keys = Array.from(this.recommendations.keys());
+      keys
+        .slice(0, keys.length - MAX_RECOMMENDATIONS)
+        .forEach((key) => this.recommendations.delete(key));
+    }
+  }
+
+  async recordSelection(selection: ScriptSelection): Promise<void> {
+    this.conversations.get(selection.conversationId)?.selections.push(selection);
+  }
+
+  async recordStateTransition(transition: StateTransition): Promise<void> {
+    this.conversations.get(transition.conversationId)?.transitions.push(transition);
+  }
+
+  async saveCoachingTurn(turn: CoachingTurn): Promise<void> {
+    this.conversations.get(turn.conversationId)?.turns.push(turn);
+  }
+
+  async recordLLMUsage(record: LLMUsageRecord): Promise<void> {
+    this.usage.push(record);
+    if (this.usage.length > MAX_USAGE_RECORDS) {
+      this.usage.splice(0, this.usage.length - MAX_USAGE_RECORDS);
+    }
+  }
+
+  async saveScriptLibraryVersion(version: ScriptLibraryVersion): Promise<boolean> {
+    const taken = this.libraryVersions.some(
+      (existing) => existing.playbookId === version.playbookId && existing.version === version.version
+    );
+    if (taken) return false;
+
+    this.libraryVersions.push(version);
+    return true;
+  }
+
+  async recordScriptLibraryPublication(publication: ScriptLibraryPublication): Promise<void> {
+    this.libraryPublications.push(publication);
+  }
+
+  async getConversation(conversationId: string): Promise<Conversation | undefined> {
+    const stored = this.conversations.get(conversationId);
+    if (!stored) return undefined;
+
+    return { ...stored.conversation, transcriptHistory: [...stored.transcript] };
+  }
+
+  async listConversations(query: ConversationQuery): Promise<Conversation[]> {
+    const offset = query.offset || 0;
+    const limit = query.limit || 50;
+
+    return Array.from(this.conversations.values())
+      .map((stored) => stored.conversation)
+      .filter((c) => !query.agentId || c.agentId === query.agentId)
+      .filter((c) => !query.state || c.state === query.state)
+      .filter((c) => !query.status || (query.status === 'ended') === !!c.endTime)
+      .filter((c) => query.from === undefined || c.startTime >= query.from)
+      .filter((c) => query.to === undefined || c.startTime <= query.to)
+      .sort((a, b) => b.startTime - a.startTime)
+      .slice(offset, offset + limit)
+      .map((c) => ({ ...c }));
+  }
+
+  async getRecommendations(conversationId: string): Promise<AIRecommendation[]> {
+    const selections = this.conversations.get(conversationId)?.selections || [];
+
+    return Array.from(this.recommendations.values())
+      .filter((r) => r.conversationId === conversationId)
+      .map((r) => {
+        const selection = [...selections]
+          .reverse()
+          .find((s) => s.recommendationId === r.recommendationId);
+
+        return {
+          id: r.recommendationId,
+          conversationId: r.conversationId,
+          recommendationId: r.recommendationId,
+          stage: r.stage,
+          heading: r.heading,
+          context: r.context,
+          options: r.options,
+          selectedOption: selection?.selectedOption,
+          libraryVersion: r.libraryVersion,
+          experiments: r.experiments,
+          timestamp: r.timestamp,
+        };
+      });
+  }
+
+  async getSelections(conversationId: string): Promise<ScriptSelection[]> {
+    return [...(this.conversations.get(conversationId)?.selections || [])];
+  }
+
+  async getStateTransitions(conversationId: string): Promise<StateTransition[]> {
+    return [...(this.conversations.get(conversationId)?.transitions || [])];
+  }
+
+  async getCoachingTurns(conversationId: string): Promise<CoachingTurn[]> {
+    return [...(this.conversations.get(conversationId)?.turns || [])];
+  }
+
+  async getExperimentExposures(experimentId: string): Promise<ExperimentExposure[]> {
+    return Array.from(this.experimentCalls.entries()).flatMap(([conversationId, call]) =>
+      call.exposures
+        .filter((exposure) => exposure.experimentId === experimentId)
+        .map((exposure) => ({
+          conversationId,
+          variant: exposure.variant,
+          exposedAt: exposure.exposedAt,
+          outcome: call.outcome,
+        }))
+    );
+  }
+
+  async getLLMUsage(query: LLMUsageQuery): Promise<LLMUsageRecord[]> {
+    return this.usage
+      .filter((r) => !query.agentId || r.agentId === query.agentId)
+      .filter((r) => !query.conversationId || r.conversationId === query.conversationId)
+      .filter((r) => !query.operation || r.operation === query.operation)
+      .filter((r) => query.from === undefined || r.timestamp >= query.from)
+      .filter((r) => query.to === undefined || r.timestamp <= query.to)
+      .map((r) => ({ ...r }));
+  }
+
+  async getScriptLibraryVersions(): Promise<ScriptLibraryVersion[]> {
+    return [...this.libraryVersions];
+  }
+
+  async getScriptLibraryPublications(): Promise<ScriptLibraryPublication[]> {
+    return [...this.libraryPublications];
+  }
+
+  /**
+   * First exposure of the call to each experiment variant a tip was stamped with
+   */
+  private recordExposures(recommendation: AITipPayload): void {
+    if (!recommendation.experiments?.length) return;
+
+    let call = this.experimentCalls.get(recommendation.conversationId);
+    if (!call) {
+      call = { exposures: [], outcome: this.conversations.get(recommendation.conversationId)?.conversation.outcome };
+      this.experimentCalls.set(recommendation.conversationId, call);
+    }
+
+    for (const assignment of recommendation.experiments) {
+      const seen = call.exposures.some(
+        (exposure) => exposure.experimentId === assignment.experimentId && exposure.variant === assignment.variant
+      );
+      if (!seen) {
+        call.exposures.push({ ...assignment, exposedAt: recommendation.timestamp });
+      }
+    }
+  }
+}
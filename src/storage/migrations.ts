@@ -0,0 +1,290 @@
+import type { Pool } from 'pg';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('migrations');
+
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+// Arbitrary key so only one instance migrates at a time (EB runs several)
+const MIGRATION_LOCK_KEY = 7314001;
+
+/**
+ * Schema migrations (append only - never edit a migration that has shipped)
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_conversation_tables',
+    sql: `
+      CREATE TABLE conversations (
+        id TEXT PRIMARY KEY,
+        agent_id TEXT NOT NULL,
+        start_time BIGINT NOT NULL,
+        end_time BIGINT,
+        metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+        state TEXT,
+        last_analysis_time BIGINT,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+      CREATE INDEX conversations_agent_start_idx ON conversations (agent_id, start_time DESC);
+      CREATE INDEX conversations_start_idx ON conversations (start_time DESC);
+
+      CREATE TABLE transcript_segments (
+        id BIGSERIAL PRIMARY KEY,
+        conversation_id TEXT NOT NULL REFERENCES conversations (id) ON DELETE CASCADE,
+        speaker TEXT NOT NULL,
+        text TEXT NOT NULL,
+        timestamp BIGINT NOT NULL,
+        confidence REAL NOT NULL
+      );
+      CREATE INDEX transcript_segments_conversation_idx ON transcript_segments (conversation_id, id);
+
+      CREATE TABLE recommendations (
+        id TEXT PRIMARY KEY,
+        conversation_id TEXT NOT NULL REFERENCES conversations (id) ON DELETE CASCADE,
+        stage TEXT,
+        heading TEXT,
+        context TEXT,
+        options JSONB NOT NULL DEFAULT '[]'::jsonb,
+        timestamp BIGINT NOT NULL
+      );
+      CREATE INDEX recommendations_conversation_idx ON recommendations (conversation_id, timestamp);
+
+      CREATE TABLE script_selections (
+        id BIGSERIAL PRIMARY KEY,
+        conversation_id TEXT NOT NULL REFERENCES conversations (id) ON DELETE CASCADE,
+        recommendation_id TEXT NOT NULL,
+        selected_option SMALLINT NOT NULL,
+        script TEXT NOT NULL,
+        label TEXT NOT NULL,
+        timestamp BIGINT NOT NULL
+      );
+      CREATE INDEX script_selections_conversation_idx ON script_selections (conversation_id, id);
+
+      CREATE TABLE state_transitions (
+        id BIGSERIAL PRIMARY KEY,
+        conversation_id TEXT NOT NULL REFERENCES conversations (id) ON DELETE CASCADE,
+        from_state TEXT,
+        to_state TEXT NOT NULL,
+        timestamp BIGINT NOT NULL
+      );
+      CREATE INDEX state_transitions_conversation_idx ON state_transitions (conversation_id, id);
+    `,
+  },
+  {
+    version: 2,
+    name: 'add_conversation_call_memory',
+    sql: `
+      ALTER TABLE conversations ADD COLUMN call_memory JSONB;
+    `,
+  },
+  {
+    version: 3,
+    name: 'create_coaching_turns',
+    sql: `
+      CREATE TABLE coaching_turns (
+        id TEXT PRIMARY KEY,
+        conversation_id TEXT NOT NULL REFERENCES conversations (id) ON DELETE CASCADE,
+        recommendation_id TEXT NOT NULL,
+        selected_option SMALLINT NOT NULL,
+        selected_label TEXT NOT NULL,
+        selected_script TEXT NOT NULL,
+        script_id TEXT,
+        agent_response TEXT,
+        customer_reaction TEXT,
+        selected_at BIGINT NOT NULL,
+        agent_started_at BIGINT,
+        customer_started_at BIGINT,
+        completed_at BIGINT NOT NULL,
+        time_to_speak_ms INTEGER,
+        reaction_latency_ms INTEGER,
+        next_recommendation_id TEXT
+      );
+      CREATE INDEX coaching_turns_conversation_idx ON coaching_turns (conversation_id, completed_at);
+    `,
+  },
+  {
+    version: 4,
+    name: 'add_coaching_turn_adherence',
+    sql: `
+      ALTER TABLE coaching_turns ADD COLUMN adherence JSONB;
+    `,
+  },
+  {
+    version: 5,
+    name: 'add_conversation_post_call_analysis',
+    sql: `
+      ALTER TABLE conversations ADD COLUMN post_call_analysis JSONB;
+    `,
+  },
+  {
+    version: 6,
+    name: 'add_conversation_lead',
+    sql: `
+      ALTER TABLE conversations ADD COLUMN lead JSONB;
+    `,
+  },
+  {
+    version: 7,
+    name: 'add_coaching_turn_tip_latency',
+    sql: `
+      ALTER TABLE coaching_turns ADD COLUMN tip_latency_ms INTEGER;
+    `,
+  },
+  {
+    version: 8,
+    name: 'add_conversation_stage',
+    sql: `
+      ALTER TABLE conversations ADD COLUMN stage TEXT;
+      ALTER TABLE conversations ADD COLUMN stage_history JSONB;
+    `,
+  },
+  {
+    version: 9,
+    name: 'add_conversation_objections',
+    sql: `
+      ALTER TABLE conversations ADD COLUMN objections JSONB;
+      ALTER TABLE conversations ADD COLUMN escalations JSONB;
+    `,
+  },
+  {
+    version: 10,
+    name: 'add_conversation_script_usage',
+    sql: `
+      ALTER TABLE conversations ADD COLUMN script_usage JSONB;
+    `,
+  },
+  {
+    version: 11,
+    name: 'create_llm_usage',
+    sql: `
+      CREATE TABLE llm_usage (
+        id TEXT PRIMARY KEY,
+        operation TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        conversation_id TEXT,
+        agent_id TEXT,
+        input_tokens INTEGER NOT NULL,
+        output_tokens INTEGER NOT NULL,
+        cost_usd DOUBLE PRECISION NOT NULL,
+        priced BOOLEAN NOT NULL,
+        timestamp BIGINT NOT NULL
+      );
+      CREATE INDEX llm_usage_timestamp_idx ON llm_usage (timestamp);
+      CREATE INDEX llm_usage_agent_idx ON llm_usage (agent_id, timestamp);
+      CREATE INDEX llm_usage_conversation_idx ON llm_usage (conversation_id);
+    `,
+  },
+  {
+    version: 12,
+    name: 'create_script_library',
+    sql: `
+      CREATE TABLE script_library_versions (
+        version INTEGER PRIMARY KEY,
+        scripts JSONB NOT NULL,
+        author TEXT NOT NULL,
+        message TEXT,
+        diff JSONB NOT NULL,
+        created_at BIGINT NOT NULL
+      );
+      CREATE TABLE script_library_publications (
+        id BIGSERIAL PRIMARY KEY,
+        version INTEGER NOT NULL REFERENCES script_library_versions(version),
+        author TEXT NOT NULL,
+        rollback BOOLEAN NOT NULL DEFAULT false,
+        published_at BIGINT NOT NULL
+      );
+      ALTER TABLE recommendations ADD COLUMN library_version INTEGER;
+    `,
+  },
+  {
+    version: 13,
+    name: 'add_playbooks',
+    sql: `
+      ALTER TABLE conversations ADD COLUMN playbook_id TEXT;
+      ALTER TABLE script_library_publications DROP CONSTRAINT script_library_publications_version_fkey;
+      ALTER TABLE script_library_versions ADD COLUMN playbook_id TEXT NOT NULL DEFAULT 'local-web-design';
+      ALTER TABLE script_library_versions ALTER COLUMN playbook_id DROP DEFAULT;
+      ALTER TABLE script_library_versions DROP CONSTRAINT script_library_versions_pkey;
+      ALTER TABLE script_library_versions ADD PRIMARY KEY (playbook_id, version);
+      ALTER TABLE script_library_publications ADD COLUMN playbook_id TEXT NOT NULL DEFAULT 'local-web-design';
+      ALTER TABLE script_library_publications ALTER COLUMN playbook_id DROP DEFAULT;
+      ALTER TABLE script_library_publications
+        ADD FOREIGN KEY (playbook_id, version) REFERENCES script_library_versions (playbook_id, version);
+    `,
+  },
+  {
+    version: 14,
+    name: 'add_experiments',
+    sql: `
+      ALTER TABLE recommendations ADD COLUMN experiments JSONB;
+      CREATE INDEX recommendations_experiments_idx ON recommendations USING GIN (experiments);
+      ALTER TABLE conversations ADD COLUMN outcome JSONB;
+    `,
+  },
+  {
+    version: 15,
+    name: 'add_conversation_language',
+    sql: `
+      ALTER TABLE conversations ADD COLUMN language TEXT;
+    `,
+  },
+  {
+    version: 16,
+    name: 'add_llm_usage_estimated',
+    sql: `
+      ALTER TABLE llm_usage ADD COLUMN estimated BOOLEAN NOT NULL DEFAULT FALSE;
+    `,
+  },
+];
+
+/**
+ * Apply pending migrations, each in its own transaction
+ */
+export async function runMigrations(pool: Pool): Promise<void> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      )
+    `);
+
+    const { rows } = await client.query<{ version: number }>('SELECT version FROM schema_migrations');
+    const applied = new Set(rows.map((r) => r.version));
+
+    for (const migration of MIGRATIONS) {
+      if (applied.has(migration.version)) continue;
+
+      logger.info('Applying migration', { version: migration.version, name: migration.name });
+
+      try {
+        await client.query('BEGIN');
+        await client.query(migration.sql);
+        await client.query('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [
+          migration.version,
+          migration.name,
+        ]);
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+    }
+
+    logger.info('Database schema up to date', { version: MIGRATIONS[MIGRATIONS.length - 1].version });
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]).catch(() => undefined);
+    client.release();
+  }
+}
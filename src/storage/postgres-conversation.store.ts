@@ -0,0 +1,506 @@
+import { Pool } from 'pg';
+import { createLogger } from '../utils/logger';
+import { runMigrations } from './migrations';
+import type { ConversationStore } from './conversation.store';
+import type {
+  AITipPayload,
+  AIRecommendation,
+  CoachingState,
+  CoachingTurn,
+  Conversation,
+  ConversationQuery,
+  ConversationStage,
+  ExperimentExposure,
+  LLMOperation,
+  LLMProviderName,
+  LLMUsageQuery,
+  LLMUsageRecord,
+  ScriptLibraryPublication,
+  ScriptLibraryVersion,
+  ScriptSelection,
+  StateTransition,
+  TranscriptSegment,
+} from '../types';
+
+const logger = createLogger('postgres-store');
+
+/**
+ * PostgreSQL Conversation Store
+ *
+ * Enabled with ENABLE_DATABASE=true and DATABASE_URL.
+ * Keeps every conversation, transcript segment, recommendation, selection
+ * and state transition so calls can be reviewed after they end, plus LLM usage
+ * and the script library versions.
+ */
+export class PostgresConversationStore implements ConversationStore {
+  private pool: Pool;
+
+  constructor(connectionString: string) {
+    this.pool = new Pool({ connectionString, max: 10 });
+
+    // Idle client errors (e.g. DB restart) must not crash the process
+    this.pool.on('error', (error) => {
+      logger.error('Idle PostgreSQL client error', { error: error.message });
+    });
+  }
+
+  async init(): Promise<void> {
+    await runMigrations(this.pool);
+    logger.info('PostgreSQL conversation store initialized');
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  async saveConversation(conversation: Conversation): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO conversations (
+         id, agent_id, start_time, end_time, metadata, state, last_analysis_time, call_memory,
+         post_call_analysis, lead, stage, stage_history, objections, escalations, script_usage, playbook_id,
+         outcome, language
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
+       ON CONFLICT (id) DO UPDATE SET
+         end_time = EXCLUDED.end_time,
+         metadata = EXCLUDED.metadata,
+         state = EXCLUDED.state,
+         last_analysis_time = EXCLUDED.last_analysis_time,
+         call_memory = EXCLUDED.call_memory,
+         post_call_analysis = EXCLUDED.post_call_analysis,
+         lead = EXCLUDED.lead,
+         stage = EXCLUDED.stage,
+         stage_history = EXCLUDED.stage_history,
+         objections = EXCLUDED.objections,
+         escalations = EXCLUDED.escalations,
+         script_usage = EXCLUDED.script_usage,
+         outcome = EXCLUDED.outcome,
+         language = EXCLUDED.language,
+         updated_at = now()`,
+      [
+        conversation.id,
+        conversation.agentId,
+        conversation.startTime,
+        conversation.endTime ?? null,
+        JSON.stringify(conversation.metadata || {}),
+        conversation.state ?? null,
+        conversation.lastAnalysisTime ?? null,
+        conversation.callMemory ? JSON.stringify(conversation.callMemory) : null,
+        conversation.postCallAnalysis ? JSON.stringify(conversation.postCallAnalysis) : null,
+        conversation.lead ? JSON.stringify(conversation.lead) : null,
+        conversation.stage ?? null,
+        conversation.stageHistory ? JSON.stringify(conversation.stageHistory) : null,
+        conversation.objections ? JSON.stringify(conversation.objections) : null,
+        conversation.escalations ? JSON.stringify(conversation.escalations) : null,
+        conversation.scriptUsage ? JSON.stringify(conversation.scriptUsage) : null,
+        conversation.playbookId ?? null,
+        conversation.outcome ? JSON.stringify(conversation.outcome) : null,
+        conversation.language ?? null,
+      ]
+    );
+  }
+
+  async appendTranscript(conversationId: string, segment: TranscriptSegment): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO transcript_segments (conversation_id, speaker, text, timestamp, confidence)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [conversationId, segment.speaker, segment.text, segment.timestamp, segment.confidence]
+    );
+  }
+
+  async saveRecommendation(recommendation: AITipPayload): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO recommendations (
+         id, conversation_id, stage, heading, context, options, library_version, experiments, timestamp
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       ON CONFLICT (id) DO NOTHING`,
+      [
+        recommendation.recommendationId,
+        recommendation.conversationId,
+        recommendation.stage,
+        recommendation.heading,
+        recommendation.context,
+        JSON.stringify(recommendation.options),
+        recommendation.libraryVersion ?? null,
+        recommendation.experiments ? JSON.stringify(recommendation.experiments) : null,
+        recommendation.timestamp,
+      ]
+    );
+  }
+
+  async recordSelection(selection: ScriptSelection): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO script_selections (conversation_id, recommendation_id, selected_option, script, label, timestamp)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        selection.conversationId,
+        selection.recommendationId,
+        selection.selectedOption,
+        selection.script,
+        selection.label,
+        selection.timestamp,
+      ]
+    );
+  }
+
+  async recordStateTransition(transition: StateTransition): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO state_transitions (conversation_id, from_state, to_state, timestamp)
+       VALUES ($1, $2, $3, $4)`,
+      [transition.conversationId, transition.fromState ?? null, transition.toState, transition.timestamp]
+    );
+  }
+
+  async saveCoachingTurn(turn: CoachingTurn): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO coaching_turns (
+         id, conversation_id, recommendation_id, selected_option, selected_label, selected_script,
+         script_id, agent_response, customer_reaction, selected_at, agent_started_at,
+         customer_started_at, completed_at, time_to_speak_ms, reaction_latency_ms, next_recommendation_id,
+         adherence, tip_latency_ms
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
+       ON CONFLICT (id) DO NOTHING`,
+      [
+        turn.id,
+        turn.conversationId,
+        turn.recommendationId,
+        turn.selectedOption,
+        turn.selectedLabel,
+        turn.selectedScript,
+        turn.scriptId ?? null,
+        turn.agentResponse ?? null,
+        turn.customerReaction ?? null,
+        turn.selectedAt,
+        turn.agentStartedAt ?? null,
+        turn.customerStartedAt ?? null,
+        turn.completedAt,
+        turn.timeToSpeakMs ?? null,
+        turn.reactionLatencyMs ?? null,
+        turn.nextRecommendationId ?? null,
+        turn.adherence ? JSON.stringify(turn.adherence) : null,
+        turn.tipLatencyMs ?? null,
+      ]
+    );
+  }
+
+  async recordLLMUsage(record: LLMUsageRecord): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO llm_usage (
+         id, operation, provider, model, conversation_id, agent_id, input_tokens, output_tokens,
+         cost_usd, priced, estimated, timestamp
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+       ON CONFLICT (id) DO NOTHING`,
+      [
+        record.id,
+        record.operation,
+        record.provider,
+        record.model,
+        record.conversationId ?? null,
+        record.agentId ?? null,
+        record.inputTokens,
+        record.outputTokens,
+        record.costUsd,
+        record.priced,
+        record.estimated,
+        record.timestamp,
+      ]
+    );
+  }
+
+  async saveScriptLibraryVersion(version: ScriptLibraryVersion): Promise<boolean> {
+    const { rowCount } = await this.pool.query(
+      `INSERT INTO script_library_versions (playbook_id, version, scripts, author, message, diff, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (playbook_id, version) DO NOTHING`,
+      [
+        version.playbookId,
+        version.version,
+        JSON.stringify(version.scripts),
+        version.author,
+        version.message ?? null,
+        JSON.stringify(version.diff),
+        version.createdAt,
+      ]
+    );
+    return rowCount === 1;
+  }
+
+  async recordScriptLibraryPublication(publication: ScriptLibraryPublication): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO script_library_publications (playbook_id, version, author, rollback, published_at)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [publication.playbookId, publication.version, publication.author, publication.rollback, publication.publishedAt]
+    );
+  }
+
+  async getConversation(conversationId: string): Promise<Conversation | undefined> {
+    const { rows } = await this.pool.query('SELECT * FROM conversations WHERE id = $1', [conversationId]);
+    if (rows.length === 0) return undefined;
+
+    const segments = await this.pool.query(
+      `SELECT speaker, text, timestamp, confidence FROM transcript_segments
+       WHERE conversation_id = $1 ORDER BY id`,
+      [conversationId]
+    );
+
+    return {
+      ...this.toConversation(rows[0]),
+      transcriptHistory: segments.rows.map((row) => ({
+        speaker: row.speaker,
+        text: row.text,
+        timestamp: Number(row.timestamp),
+        confidence: Number(row.confidence),
+      })),
+    };
+  }
+
+  async listConversations(query: ConversationQuery): Promise<Conversation[]> {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+
+    if (query.agentId) {
+      values.push(query.agentId);
+      conditions.push(`agent_id = $${values.length}`);
+    }
+    if (query.state) {
+      values.push(query.state);
+      conditions.push(`state = $${values.length}`);
+    }
+    if (query.status) {
+      conditions.push(query.status === 'ended' ? 'end_time IS NOT NULL' : 'end_time IS NULL');
+    }
+    if (query.from !== undefined) {
+      values.push(query.from);
+      conditions.push(`start_time >= $${values.length}`);
+    }
+    if (query.to !== undefined) {
+      values.push(query.to);
+      conditions.push(`start_time <= $${values.length}`);
+    }
+
+    values.push(query.limit || 50, query.offset || 0);
+
+    const { rows } = await this.pool.query(
+      `SELECT * FROM conversations
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY start_time DESC
+       LIMIT $${values.length - 1} OFFSET $${values.length}`,
+      values
+    );
+
+    return rows.map((row) => this.toConversation(row));
+  }
+
+  async getRecommendations(conversationId: string): Promise<AIRecommendation[]> {
+    // Latest selection wins if the agent clicked more than one option
+    const { rows } = await this.pool.query(
+      `SELECT r.*, s.selected_option
+       FROM recommendations r
+       LEFT JOIN LATERAL (
+         SELECT selected_option FROM script_selections
+         WHERE recommendation_id = r.id ORDER BY id DESC LIMIT 1
+       ) s ON true
+       WHERE r.conversation_id = $1
+       ORDER BY r.timestamp`,
+      [conversationId]
+    );
+
+    return rows.map((row) => ({
+      id: row.id,
+      conversationId: row.conversation_id,
+      recommendationId: row.id,
+      stage: row.stage as ConversationStage,
+      heading: row.heading,
+      context: row.context,
+      options: row.options,
+      selectedOption: row.selected_option ?? undefined,
+      libraryVersion: row.library_version ?? undefined,
+      experiments: row.experiments ?? undefined,
+      timestamp: Number(row.timestamp),
+    }));
+  }
+
+  async getSelections(conversationId: string): Promise<ScriptSelection[]> {
+    const { rows } = await this.pool.query(
+      'SELECT * FROM script_selections WHERE conversation_id = $1 ORDER BY id',
+      [conversationId]
+    );
+
+    return rows.map((row) => ({
+      conversationId: row.conversation_id,
+      recommendationId: row.recommendation_id,
+      selectedOption: row.selected_option,
+      script: row.script,
+      label: row.label,
+      timestamp: Number(row.timestamp),
+    }));
+  }
+
+  async getStateTransitions(conversationId: string): Promise<StateTransition[]> {
+    const { rows } = await this.pool.query(
+      'SELECT * FROM state_transitions WHERE conversation_id = $1 ORDER BY id',
+      [conversationId]
+    );
+
+    return rows.map((row) => ({
+      conversationId: row.conversation_id,
+      fromState: (row.from_state as CoachingState) ?? undefined,
+      toState: row.to_state as CoachingState,
+      timestamp: Number(row.timestamp),
+    }));
+  }
+
+  async getCoachingTurns(conversationId: string): Promise<CoachingTurn[]> {
+    const { rows } = await this.pool.query(
+      'SELECT * FROM coaching_turns WHERE conversation_id = $1 ORDER BY completed_at',
+      [conversationId]
+    );
+
+    const optionalNumber = (value: unknown) => (value !== null ? Number(value) : undefined);
+
+    return rows.map((row) => ({
+      id: row.id,
+      conversationId: row.conversation_id,
+      recommendationId: row.recommendation_id,
+      selectedOption: row.selected_option,
+      selectedLabel: row.selected_label,
+      selectedScript: row.selected_script,
+      scriptId: row.script_id ?? undefined,
+      agentResponse: row.agent_response ?? undefined,
+      customerReaction: row.customer_reaction ?? undefined,
+      selectedAt: Number(row.selected_at),
+      agentStartedAt: optionalNumber(row.agent_started_at),
+      customerStartedAt: optionalNumber(row.customer_started_at),
+      completedAt: Number(row.completed_at),
+      timeToSpeakMs: optionalNumber(row.time_to_speak_ms),
+      reactionLatencyMs: optionalNumber(row.reaction_latency_ms),
+      nextRecommendationId: row.next_recommendation_id ?? undefined,
+      adherence: row.adherence ?? undefined,
+      tipLatencyMs: optionalNumber(row.tip_latency_ms),
+    }));
+  }
+
+  async getExperimentExposures(experimentId: string): Promise<ExperimentExposure[]> {
+    // @> narrows to tips stamped with the experiment (GIN index), the lateral join picks its variant
+    const { rows } = await this.pool.query(
+      `SELECT r.conversation_id, e.value->>'variant' AS variant, MIN(r.timestamp) AS exposed_at, c.outcome
+       FROM recommendations r
+       JOIN conversations c ON c.id = r.conversation_id
+       CROSS JOIN LATERAL jsonb_array_elements(r.experiments) e
+       WHERE r.experiments @> $1::jsonb AND e.value->>'experimentId' = $2
+       GROUP BY r.conversation_id, c.id, e.value->>'variant'`,
+      [JSON.stringify([{ experimentId }]), experimentId]
+    );
+
+    return rows.map((row) => ({
+      conversationId: row.conversation_id,
+      variant: row.variant,
+      exposedAt: Number(row.exposed_at),
+      outcome: row.outcome ?? undefined,
+    }));
+  }
+
+  async getLLMUsage(query: LLMUsageQuery): Promise<LLMUsageRecord[]> {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+
+    if (query.agentId) {
+      values.push(query.agentId);
+      conditions.push(`agent_id = $${values.length}`);
+    }
+    if (query.conversationId) {
+      values.push(query.conversationId);
+      conditions.push(`conversation_id = $${values.length}`);
+    }
+    if (query.operation) {
+      values.push(query.operation);
+      conditions.push(`operation = $${values.length}`);
+    }
+    if (query.from !== undefined) {
+      values.push(query.from);
+      conditions.push(`timestamp >= $${values.length}`);
+    }
+    if (query.to !== undefined) {
+      values.push(query.to);
+      conditions.push(`timestamp <= $${values.length}`);
+    }
+
+    const { rows } = await this.pool.query(
+      `SELECT * FROM llm_usage
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY timestamp`,
+      values
+    );
+
+    return rows.map((row) => ({
+      id: row.id,
+      operation: row.operation as LLMOperation,
+      provider: row.provider as LLMProviderName,
+      model: row.model,
+      conversationId: row.conversation_id ?? undefined,
+      agentId: row.agent_id ?? undefined,
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens,
+      costUsd: row.cost_usd,
+      priced: row.priced,
+      estimated: row.estimated,
+      timestamp: Number(row.timestamp),
+    }));
+  }
+
+  async getScriptLibraryVersions(): Promise<ScriptLibraryVersion[]> {
+    const { rows } = await this.pool.query('SELECT * FROM script_library_versions ORDER BY playbook_id, version');
+
+    return rows.map((row) => ({
+      playbookId: row.playbook_id,
+      version: row.version,
+      scripts: row.scripts,
+      author: row.author,
+      message: row.message ?? undefined,
+      diff: row.diff,
+      createdAt: Number(row.created_at),
+    }));
+  }
+
+  async getScriptLibraryPublications(): Promise<ScriptLibraryPublication[]> {
+    const { rows } = await this.pool.query('SELECT * FROM script_library_publications ORDER BY id');
+
+    return rows.map((row) => ({
+      playbookId: row.playbook_id,
+      version: row.version,
+      author: row.author,
+      rollback: row.rollback,
+      publishedAt: Number(row.published_at),
+    }));
+  }
+
+  /**
+   * Map a conversations row (BIGINT columns come back as strings)
+   */
+  private toConversation(row: any): Conversation {
+    return {
+      id: row.id,
+      agentId: row.agent_id,
+      startTime: Number(row.start_time),
+      endTime: row.end_time !== null ? Number(row.end_time) : undefined,
+      metadata: row.metadata,
+      playbookId: row.playbook_id ?? undefined,
+      language: row.language ?? undefined,
+      transcriptHistory: [],
+      lastAnalysisTime: row.last_analysis_time !== null ? Number(row.last_analysis_time) : undefined,
+      state: (row.state as CoachingState) ?? undefined,
+      callMemory: row.call_memory ?? undefined,
+      postCallAnalysis: row.post_call_analysis ?? undefined,
+      lead: row.lead ?? undefined,
+      stage: (row.stage as ConversationStage) ?? undefined,
+      stageHistory: row.stage_history ?? undefined,
+      objections: row.objections ?? undefined,
+      escalations: row.escalations ?? undefined,
+      scriptUsage: row.script_usage ?? undefined,
+      outcome: row.outcome ?? undefined,
+    };
+  }
+}
@@ -9,12 +9,80 @@ export type ConversationStage =
   | 'CLOSING'
   | 'CONVERSION';
 
+// Golden script (library entry); tips only ever show library text
+export interface QualityScript {
+  id: string;
+  stage: ConversationStage;
+  label: string;
+  text: string;
+  condition?: string; // Description of when to use this
+  next?: ScriptTransition[]; // Branches of the playbook graph: what the customer may answer, and the reply
+  translations?: Partial<Record<ScriptLanguage, ScriptTranslation>>; // Other languages (English when missing)
+}
+
+// Language a call is coached in; scripts are written in English, other languages are translations
+export type ScriptLanguage = 'en' | 'es';
+
+export interface ScriptTranslation {
+  label: string;
+  text: string;
+}
+
+// Expected customer intent after a script and the script that answers it
+export interface ScriptTransition {
+  intent: string; // e.g. "has-website", "agrees"
+  scriptId: string;
+}
+
 export interface DialogueOption {
   id?: string; // Original Script ID
   label: string; // "Minimal", "Explanative", "Contextual"
   script: string; // Exact words to say
 }
 
+// Values for golden-script placeholders, keyed by name without brackets (e.g. 'Agent Name')
+export type PlaceholderValues = Record<string, string>;
+
+export interface AgentProfile {
+  name?: string; // [Agent Name]
+  location?: string; // [Location]
+  placeholders?: PlaceholderValues; // Custom placeholders
+}
+
+export interface CampaignSettings {
+  location?: string; // [Location] for the market this campaign calls
+  placeholders?: PlaceholderValues;
+}
+
+// PLACEHOLDER_CONFIG_PATH file: agent profiles keyed by agentId, campaigns keyed by metadata.campaignId
+export interface PlaceholderConfig {
+  defaults?: PlaceholderValues;
+  agents?: Record<string, AgentProfile>;
+  campaigns?: Record<string, CampaignSettings>;
+}
+
+export type PlaceholderSource = 'lead' | 'metadata' | 'campaign' | 'playbook' | 'agent' | 'defaults' | 'fallback';
+
+// A campaign's way of selling: its own script library, placeholders, goal and coach persona.
+// START_CONVERSATION picks one with metadata.playbookId (PLAYBOOKS_PATH file, plus the built-in one)
+export interface Playbook {
+  id: string;
+  name: string;
+  company: string; // Who the agent calls for (e.g. "Simple.Biz")
+  offer: string; // What the calls sell, for call memory and post-call prompts
+  persona: string; // Who the coach is in tip prompts
+  goal: string; // What every call works towards (tip prompts)
+  goalScriptId: string; // Script that asks for the goal; the default tip when nothing else fits
+  placeholders?: PlaceholderValues;
+  scripts: QualityScript[]; // Seed of the playbook's script library (version 1)
+}
+
+export interface PlaceholderResolution {
+  values: PlaceholderValues;
+  sources: Record<string, PlaceholderSource>;
+  unresolved: string[]; // Placeholders used by the script library with no value
+}
+
 export interface AITipPayload {
   recommendationId: string;
   conversationId: string;
@@ -22,6 +90,22 @@ export interface AITipPayload {
   heading: string;
   context: string;
   options: DialogueOption[];
+  unresolvedPlaceholders?: string[]; // Left in brackets for the agent to fill in
+  fallback?: boolean; // Picked by the rule-based engine because the LLM failed or timed out
+  strikes?: number; // Customer objections so far in this call
+  escalation?: string; // Escalation rule that forced this tip (e.g. "email" after 3 strikes)
+  libraryVersion?: number; // Script library version the options were drawn from
+  experiments?: ExperimentAssignment[]; // Experiment variants the options include
+  timestamp: number;
+}
+
+// Streamed ahead of AI_TIP as soon as the heading and first script id are known
+export interface AITipPartialPayload {
+  recommendationId: string; // Same id as the AI_TIP that completes it
+  conversationId: string;
+  stage?: ConversationStage;
+  heading: string;
+  option: DialogueOption; // First selected script, approved and filled
   timestamp: number;
 }
 
@@ -32,6 +116,65 @@ export interface TranscriptSegment {
   confidence: number;
 }
 
+// Rolling "call memory" - older transcript condensed so prompts keep early context
+export interface CallMemory {
+  summary: string; // Running summary of the call so far
+  facts: string[]; // e.g. customer name, business, "already has a website"
+  objections: string[]; // Objections the customer has raised
+  commitments: string[]; // Anything agreed (callback, email, ...)
+  summarizedCount: number; // Transcript segments folded into this memory
+  updatedAt: number;
+}
+
+// Post-call intelligence (same shapes the email report renders)
+export interface CallIntelligence {
+  summary: string;
+  sentiment: { label: 'positive' | 'neutral' | 'negative'; score: number };
+  intents: { intent: string; confidence: number; segment?: string }[];
+  topics: { topic: string; confidence: number }[];
+}
+
+export interface CallEntities {
+  businessNames: string[];
+  people: string[];
+  locations: string[];
+  dates: string[];
+  contactInfo: {
+    emails: string[];
+    phoneNumbers: string[];
+    urls: string[];
+  };
+}
+
+export interface PostCallAnalysis {
+  intelligence: CallIntelligence;
+  entities: CallEntities;
+  generatedAt: number;
+}
+
+// Lead details the customer gives during the call (info-email, validate-name, decision-maker, final-close)
+export interface Lead {
+  email?: string;
+  name?: string;
+  isDecisionMaker?: boolean; // Owner / person in charge of the website
+  businessName?: string;
+  callbackTime?: string; // As spoken, e.g. "tomorrow after 2 pm"
+  updatedAt: number;
+}
+
+export type LeadField = Exclude<keyof Lead, 'updatedAt'>;
+
+export interface LeadUpdatedPayload {
+  conversationId: string;
+  lead: Lead;
+  updatedFields: LeadField[];
+  timestamp: number;
+}
+
+export interface PostCallIntelligencePayload extends PostCallAnalysis {
+  conversationId: string;
+}
+
 export interface RequestNextTipPayload {
   conversationId: string;
   selectedRecommendationId: string;
@@ -40,12 +183,44 @@ export interface RequestNextTipPayload {
   agentResponse?: TranscriptSegment; // What agent actually said
   customerReaction?: TranscriptSegment; // How customer responded
   transcriptHistory: TranscriptSegment[]; // Last 20 exchanges
+  callMemory?: CallMemory; // Filled in server-side
+  placeholders?: PlaceholderValues; // Filled in server-side
+  currentStage?: ConversationStage; // Tracked call stage (server-side)
+  objections?: Objection[]; // Filled in server-side
+  scriptUsage?: ScriptUsage[]; // Filled in server-side
+  playbook?: Playbook; // Filled in server-side
+  language?: ScriptLanguage; // Filled in server-side
   timestamp: number;
 }
 
+// Call state behind a greeting or periodic tip (all server-side)
+export interface TipContext {
+  conversationId: string;
+  transcriptHistory: TranscriptSegment[];
+  callMemory?: CallMemory;
+  placeholders?: PlaceholderValues; // Default: DEFAULT_PLACEHOLDER_VALUES
+  currentStage?: ConversationStage; // Tracked call stage (periodic tips only)
+  scriptUsage?: ScriptUsage[];
+  playbook?: Playbook; // Default: the built-in playbook
+  language?: ScriptLanguage; // Default: English
+}
+
+// "Next Tip" cycling through the stage's scripts (no LLM)
+export interface AlternativeTipRequest {
+  conversationId: string;
+  currentStage: ConversationStage;
+  currentScriptId?: string; // Script shown now; the rotation starts after it
+  withheldScriptIds?: string[]; // Left out of the rotation (experiment variants the call was not assigned)
+  scriptUsage?: ScriptUsage[];
+  placeholders?: PlaceholderValues;
+  playbook?: Playbook;
+  language?: ScriptLanguage;
+}
+
 export interface StartConversationPayload {
   agentId: string;
   metadata?: Record<string, any>;
+  language?: string; // en | es (or en-US / es-US); default English
 }
 
 export interface TranscriptPayload {
@@ -58,6 +233,11 @@ export interface TranscriptPayload {
 
 export interface EndConversationPayload {
   conversationId: string;
+  outcome?: { callbackBooked: boolean }; // Reported by the agent; detected from the lead when absent
+}
+
+export interface ResumeConversationPayload {
+  conversationId: string;
 }
 
 export interface OptionSelectedPayload {
@@ -87,19 +267,82 @@ export interface Conversation {
   startTime: number;
   endTime?: number;
   metadata?: Record<string, any>;
-  transcriptHistory: TranscriptSegment[];
+  playbookId?: string; // Playbook the call uses (metadata.playbookId or the default)
+  language?: ScriptLanguage; // Set at START_CONVERSATION or identified by transcription (default English)
+  transcriptHistory: TranscriptSegment[]; // Full raw transcript
+  callMemory?: CallMemory; // Condensed older segments (for prompts)
+  postCallAnalysis?: PostCallAnalysis; // Generated after END_CONVERSATION
+  lead?: Lead; // Captured live from caller transcripts
   lastAnalysisTime?: number;
+  lastRecommendationId?: string; // Most recent tip sent to the agent
+  stage?: ConversationStage; // Tracked call stage (see utils/stage-tracker)
+  stageHistory?: StageChange[]; // Every accepted stage change, oldest first
+  objections?: Objection[]; // Customer rejections (strikes), oldest first
+  escalations?: string[]; // Escalation rules already applied in this call
+  scriptUsage?: ScriptUsage[]; // Script usage ledger, oldest first
+  outcome?: CallOutcome; // Set when the call ends (experiment results)
 
   // Event-driven coaching state machine
   state?: CoachingState;
   lastSelectedRecommendationId?: string; // ID of last recommendation
   lastSelectedScript?: string; // Script text user clicked
   lastScriptType?: string; // "Minimal", "Explanative", or "Contextual"
+  lastSelectedOption?: 1 | 2 | 3; // Option number user clicked
+  lastSelectedScriptId?: string; // Golden script id of the clicked option
   lastScriptTimestamp?: number; // When script was selected
   capturedResponse?: string; // Agent's actual response (accumulated)
   customerReaction?: string; // Customer's reaction (accumulated)
   responseTimestamp?: number; // When agent started speaking
+  lastResponseTimestamp?: number; // When agent's last captured segment arrived
   reactionTimestamp?: number; // When customer started responding
+  lastReactionTimestamp?: number; // When customer's last captured segment arrived
+  lastAdherence?: AdherenceScore; // Score of the captured response (current turn)
+}
+
+// Script adherence (agent's words vs selected script)
+export type AdherenceLevel = 'VERBATIM' | 'ADAPTED' | 'OFF_SCRIPT';
+
+export interface AdherenceScore {
+  score: number; // 0..1
+  editSimilarity: number; // 1 - normalized word edit distance
+  tokenOverlap: number; // Share of script words spoken
+  level: AdherenceLevel;
+}
+
+export interface AdherenceSummary {
+  turnCount: number;
+  scoredTurns: number;
+  averageScore: number | null;
+  byLevel: Record<AdherenceLevel, { turns: number; reactionRate: number | null }>;
+}
+
+export interface AdherenceScorePayload extends AdherenceScore {
+  conversationId: string;
+  recommendationId: string;
+  scriptId?: string;
+  timestamp: number;
+}
+
+// One coaching cycle: tip selected -> agent speaks -> customer reacts -> next tip
+export interface CoachingTurn {
+  id: string;
+  conversationId: string;
+  recommendationId: string; // Tip the agent selected from
+  selectedOption: 1 | 2 | 3;
+  selectedLabel: string;
+  selectedScript: string;
+  scriptId?: string;
+  agentResponse?: string; // Verbatim agent speech after selecting
+  customerReaction?: string; // Verbatim customer speech after the agent
+  selectedAt: number;
+  agentStartedAt?: number;
+  customerStartedAt?: number;
+  completedAt: number;
+  timeToSpeakMs?: number; // Selection -> agent started speaking
+  reactionLatencyMs?: number; // Agent's last words -> customer started responding
+  adherence?: AdherenceScore; // How closely the agent followed the script
+  nextRecommendationId?: string; // Tip this turn triggered (absent if generation failed)
+  tipLatencyMs?: number; // Customer's last words -> first visible suggestion (AI_TIP_PARTIAL or AI_TIP)
 }
 
 export interface AIRecommendation {
@@ -111,9 +354,207 @@ export interface AIRecommendation {
   context: string;
   options: DialogueOption[];
   selectedOption?: 1 | 2 | 3;
+  libraryVersion?: number;
+  experiments?: ExperimentAssignment[];
+  timestamp: number;
+}
+
+export interface ScriptSelection {
+  conversationId: string;
+  recommendationId: string;
+  selectedOption: 1 | 2 | 3;
+  script: string;
+  label: string;
+  timestamp: number;
+}
+
+// Script usage ledger: a golden script was shown in a tip, selected, or said by the agent
+export type ScriptUsageEvent = 'shown' | 'selected' | 'spoken';
+
+export interface ScriptUsage {
+  scriptId: string;
+  event: ScriptUsageEvent;
+  recommendationId?: string;
   timestamp: number;
 }
 
+// Script library management: every change is a new immutable version, tips use the published one
+export type ScriptField = 'stage' | 'label' | 'text' | 'condition' | 'next' | 'translations';
+
+export type ScriptFieldValue = string | ScriptTransition[] | QualityScript['translations'];
+
+export interface ScriptChange {
+  scriptId: string;
+  change: 'added' | 'updated' | 'removed';
+  // 'updated' only
+  fields?: Array<{ field: ScriptField; from?: ScriptFieldValue; to?: ScriptFieldValue }>;
+}
+
+export interface ScriptLibraryVersion {
+  playbookId: string; // Each playbook has its own library and version numbers
+  version: number;
+  scripts: QualityScript[];
+  author: string;
+  message?: string;
+  diff: ScriptChange[]; // Against the previous version
+  createdAt: number;
+}
+
+export interface ScriptLibraryPublication {
+  playbookId: string;
+  version: number;
+  author: string;
+  rollback: boolean; // Published by a rollback
+  publishedAt: number;
+}
+
+export type ScriptLibraryErrorCode = 'not_found' | 'conflict' | 'invalid';
+
+// Playbook graph: scripts are nodes, transitions (customer intents) are edges.
+// GREETING scripts are entry points and CONVERSION scripts end the call
+export type ScriptGraphIssueKind = 'unknown_target' | 'unreachable' | 'dead_end' | 'stage_move';
+
+export interface ScriptGraphIssue {
+  kind: ScriptGraphIssueKind;
+  scriptId: string;
+  intent?: string; // unknown_target / stage_move: the transition at fault
+  targetId?: string;
+  message: string;
+}
+
+export interface ScriptGraph {
+  nodes: Array<{ id: string; stage: ConversationStage; label: string; entry: boolean; terminal: boolean }>;
+  edges: Array<{ from: string; to: string; intent: string }>;
+  issues: ScriptGraphIssue[];
+}
+
+// Script library files (edited in spreadsheets / by hand) imported as a whole new library version
+export type ScriptFileFormat = 'yaml' | 'csv';
+
+export interface ScriptImportError {
+  row: number; // CSV: spreadsheet row (header = 1); YAML: position in the list (first script = 1); 0 = whole file
+  scriptId?: string;
+  problems: string[];
+}
+
+export interface ScriptImportResult {
+  playbookId: string;
+  dryRun: boolean;
+  baseVersion: number; // Latest version the import was compared against
+  version?: number; // Version created (not on a dry run)
+  scriptCount: number;
+  diff: ScriptChange[];
+  issues: ScriptGraphIssue[]; // Playbook graph problems of the imported library
+}
+
+// Customer pushback detected in a caller segment; each one is a strike
+export type ObjectionType =
+  | 'not_interested'
+  | 'busy'
+  | 'has_website'
+  | 'too_expensive'
+  | 'send_email'
+  | 'do_not_call';
+
+export interface Objection {
+  type: ObjectionType;
+  text: string; // Caller segment it was detected in
+  timestamp: number;
+}
+
+// OBJECTION_RULES_PATH file: array of rules; the highest threshold reached fires once per call
+export interface EscalationRule {
+  name: string;
+  strikes: number; // Fire once the call has this many objections
+  heading: string;
+  scriptIds: string[]; // Golden scripts the forced tip offers
+}
+
+// Did the call reach the goal (a callback booked)
+export interface CallOutcome {
+  callbackBooked: boolean;
+  source: 'agent' | 'lead' | 'api'; // END_CONVERSATION, callback time captured from the customer, or REST
+  recordedAt: number;
+}
+
+// EXPERIMENTS_PATH file: script variants for the same moment, split by agent or by call
+export type ExperimentUnit = 'agent' | 'conversation';
+
+export interface ExperimentVariant {
+  scriptId: string;
+  weight?: number; // Relative share of traffic (default 1)
+}
+
+export interface Experiment {
+  id: string;
+  name?: string;
+  playbookId?: string; // Playbook whose scripts are tested (default: the default playbook)
+  unit: ExperimentUnit; // 'agent': every call of an agent gets the same variant
+  variants: ExperimentVariant[];
+  active?: boolean; // Default true; inactive experiments stop assigning but keep their results
+}
+
+// Stamped on a tip that offered an experiment variant
+export interface ExperimentAssignment {
+  experimentId: string;
+  variant: string; // Script id
+}
+
+// A call that was offered a variant (first tip), with its outcome
+export interface ExperimentExposure {
+  conversationId: string;
+  variant: string;
+  exposedAt: number;
+  outcome?: CallOutcome;
+}
+
+export interface ExperimentVariantResult {
+  scriptId: string;
+  conversations: number; // Calls offered this variant with an outcome the agent or API confirmed
+  callbacksBooked: number;
+  conversionRate: number | null; // null until a call has a confirmed outcome
+  confidenceInterval: { low: number; high: number } | null; // 95% Wilson score interval
+  pending: number; // Offered this variant, outcome not known yet
+  inferred: { conversations: number; callbacksBooked: number }; // Outcome only guessed from the lead (not in the rate)
+}
+
+export interface ExperimentResults {
+  experimentId: string;
+  unit: ExperimentUnit;
+  active: boolean;
+  variants: ExperimentVariantResult[];
+  excluded: number; // Calls offered more than one variant (not attributed)
+}
+
+export interface StageChange {
+  fromStage?: ConversationStage; // Absent for the initial GREETING entry
+  toStage: ConversationStage;
+  reason: 'start' | 'tip'; // Call started, or a tip for a new stage was sent
+  recommendationId?: string;
+  timestamp: number;
+}
+
+export interface StageChangedPayload extends StageChange {
+  conversationId: string;
+}
+
+export interface StateTransition {
+  conversationId: string;
+  fromState?: CoachingState;
+  toState: CoachingState;
+  timestamp: number;
+}
+
+export interface ConversationQuery {
+  agentId?: string;
+  state?: CoachingState;
+  status?: 'active' | 'ended';
+  from?: number; // startTime lower bound (ms epoch)
+  to?: number; // startTime upper bound (ms epoch)
+  limit?: number;
+  offset?: number;
+}
+
 // Audio transcription types (AWS Transcribe fallback)
 export interface AudioChunkPayload {
   chunk: string; // Base64-encoded PCM16 audio data OR raw Buffer
@@ -128,6 +569,7 @@ export interface TranscriptionResponse {
   speaker: 'agent' | 'caller' | 'unknown';
   confidence: number;
   sessionId: string;
+  language?: ScriptLanguage; // Language transcribed (identified when identifyLanguage is on)
   timestamp: number;
 }
 
@@ -135,6 +577,15 @@ export interface StartTranscriptionPayload {
   sessionId: string;
   sampleRate?: number; // Default: 16000
   encoding?: string; // Default: 'pcm'
+  conversationId?: string; // Call the audio belongs to (its language is the default; identified languages update it)
+  language?: string; // en | es (or en-US / es-US); default: the call's language, else English
+  identifyLanguage?: boolean; // Let AWS Transcribe identify English or Spanish (language is the preferred one)
+}
+
+export interface LanguageDetectedPayload {
+  conversationId: string;
+  language: ScriptLanguage;
+  timestamp: number;
 }
 
 export interface EndTranscriptionPayload {
@@ -151,8 +602,16 @@ export type WSEventType =
   | 'PING'
   | 'PONG'
   | 'AI_TIP'
+  | 'AI_TIP_PARTIAL'
+  | 'ADHERENCE_SCORE'
+  | 'STAGE_CHANGED'
+  | 'LEAD_UPDATED'
+  | 'LANGUAGE_DETECTED'
   | 'CONVERSATION_STARTED'
   | 'CONVERSATION_ENDED'
+  | 'POST_CALL_INTELLIGENCE'
+  | 'RESUME_CONVERSATION'
+  | 'CONVERSATION_RESUMED'
   | 'ERROR'
   | 'START_TRANSCRIPTION'
   | 'AUDIO_CHUNK'
@@ -163,3 +622,126 @@ export interface WSMessage {
   type: WSEventType;
   payload?: any;
 }
+
+// LLM provider layer
+export type LLMProviderName = 'openai' | 'openai-compatible' | 'anthropic' | 'mock';
+
+export type LLMOperation =
+  | 'greeting'
+  | 'contextual'
+  | 'periodic'
+  | 'persona'
+  | 'callMemory'
+  | 'postCall';
+
+export interface LLMOperationConfig {
+  provider: LLMProviderName;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  timeoutMs: number;
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  operation: LLMOperation;
+  messages: LLMMessage[];
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  json?: boolean; // Ask for a JSON object (native JSON mode where the provider has one)
+  jsonSchema?: LLMJsonSchema; // Structured output: enforced where the provider supports it (implies json)
+  signal?: AbortSignal; // Aborted when the operation times out
+  onDelta?: (text: string) => void; // Set to stream: called with each chunk of content as it arrives
+}
+
+export interface LLMJsonSchema {
+  name: string;
+  schema: Record<string, unknown>; // JSON Schema (strict subset: every property required, no extras)
+}
+
+// Why a tip request produced no usable tip (repairable kinds get one retry)
+export type TipFailureKind =
+  | 'timeout'
+  | 'transport'
+  | 'empty_response'
+  | 'invalid_json'
+  | 'schema_violation'
+  | 'unapproved_script'
+  | 'budget'; // LLM budget exceeded, the request was not sent
+
+export interface LLMCompletion {
+  content: string;
+  provider: LLMProviderName;
+  model: string;
+  usage?: { inputTokens: number; outputTokens: number; estimated?: boolean }; // estimated: counted by the client, not the provider
+}
+
+// LLM usage accounting (one record per request, failed and timed-out ones included)
+export interface LLMUsageRecord {
+  id: string;
+  operation: LLMOperation;
+  provider: LLMProviderName;
+  model: string;
+  conversationId?: string;
+  agentId?: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  priced: boolean; // False when the model is not in the price table (cost counted as 0)
+  estimated: boolean; // No provider usage (failed, timed out or not reported): tokens estimated from the text
+  timestamp: number;
+}
+
+// LLM_PRICES_PATH entry: USD per million tokens
+export interface LLMModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface LLMUsageQuery {
+  agentId?: string;
+  conversationId?: string;
+  operation?: LLMOperation;
+  from?: number; // timestamp lower bound (ms epoch)
+  to?: number; // timestamp upper bound (ms epoch)
+}
+
+export type LLMUsageGroupBy = 'agent' | 'conversation' | 'operation' | 'model' | 'day';
+
+export interface LLMUsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface LLMUsageSummary extends LLMUsageTotals {
+  unpricedRequests: number;
+  estimatedRequests: number;
+  groups?: Array<LLMUsageTotals & { key: string }>; // Highest cost first
+}
+
+// What happens once a budget is spent: tips fall back to rule-based ones,
+// and with 'pause' auto (periodic) tips stop as well
+export type LLMBudgetAction = 'fallback' | 'pause';
+
+export interface LLMBudgets {
+  dailyUsd?: number; // All agents, per UTC day
+  agentDailyUsd?: number; // Each agent, per UTC day
+  action: LLMBudgetAction;
+}
+
+export interface LLMBudgetStatus {
+  day: string; // UTC day (YYYY-MM-DD)
+  spentUsd: number;
+  dailyUsd?: number;
+  agentDailyUsd?: number;
+  action: LLMBudgetAction;
+  exceeded: boolean; // Daily budget spent
+  agents: Array<{ agentId: string; spentUsd: number; exceeded: boolean }>;
+}
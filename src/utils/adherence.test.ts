@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { scoreAdherence, summarizeAdherence } from './adherence';
+import type { CoachingTurn } from '../types';
+
+const SCRIPT = 'Hi [Customer Name], this is [Agent Name] calling from a local web design company.';
+
+describe('scoreAdherence', () => {
+  it('scores the script read word for word as verbatim', () => {
+    const score = scoreAdherence('We build websites for local businesses.', 'We build websites for local businesses');
+
+    expect(score).toEqual({ score: 1, editSimilarity: 1, tokenOverlap: 1, level: 'VERBATIM' });
+  });
+
+  it('ignores case, punctuation, apostrophes and filler words', () => {
+    const score = scoreAdherence("That's great, we'll send it over!", 'um thats great uh well send it over');
+
+    expect(score.score).toBe(1);
+  });
+
+  it('lets a placeholder match a short run of words for free', () => {
+    const score = scoreAdherence(
+      SCRIPT,
+      'Hi Maria Lopez, this is Dave calling from a local web design company'
+    );
+
+    expect(score.editSimilarity).toBe(1);
+    expect(score.tokenOverlap).toBe(1);
+    expect(score.level).toBe('VERBATIM');
+  });
+
+  it('charges words beyond what a placeholder can stand for', () => {
+    const short = scoreAdherence(SCRIPT, 'Hi Maria, this is Dave calling from a local web design company');
+    const long = scoreAdherence(
+      SCRIPT,
+      'Hi Maria Anna Lopez Garcia Smith, this is Dave calling from a local web design company'
+    );
+
+    expect(long.editSimilarity).toBeLessThan(short.editSimilarity);
+  });
+
+  it('grades a reworded response as adapted and an unrelated one as off script', () => {
+    const script = 'Would it be okay if I gave you a quick call back later this week?';
+
+    expect(scoreAdherence(script, 'Is it okay if I give you a call back later this week?').level).toBe('ADAPTED');
+    expect(scoreAdherence(script, 'Our prices start at five hundred dollars').level).toBe('OFF_SCRIPT');
+  });
+
+  it('keeps accented letters so Spanish words stay whole', () => {
+    const script = 'Mañana le envío la información, ¿está bien?';
+
+    expect(scoreAdherence(script, 'mañana le envío la información está bien').level).toBe('VERBATIM');
+    expect(scoreAdherence(script, script.normalize('NFD')).score).toBe(1);
+    expect(scoreAdherence(script, 'manana le envio la informacion esta bien').level).not.toBe('VERBATIM');
+  });
+
+  it('scores an empty response as off script', () => {
+    expect(scoreAdherence(SCRIPT, '  ')).toEqual({ score: 0, editSimilarity: 0, tokenOverlap: 0, level: 'OFF_SCRIPT' });
+  });
+});
+
+describe('summarizeAdherence', () => {
+  const turn = (level: 'VERBATIM' | 'ADAPTED' | 'OFF_SCRIPT' | undefined, score: number, reacted: boolean) =>
+    ({
+      adherence: level ? { score, editSimilarity: score, tokenOverlap: score, level } : undefined,
+      customerReaction: reacted ? 'Sure' : undefined,
+    }) as CoachingTurn;
+
+  it('averages scored turns and reports the reaction rate per level', () => {
+    const summary = summarizeAdherence([
+      turn('VERBATIM', 0.9, true),
+      turn('VERBATIM', 1, false),
+      turn('OFF_SCRIPT', 0.2, true),
+      turn(undefined, 0, false),
+    ]);
+
+    expect(summary.turnCount).toBe(4);
+    expect(summary.scoredTurns).toBe(3);
+    expect(summary.averageScore).toBe(0.7);
+    expect(summary.byLevel).toEqual({
+      VERBATIM: { turns: 2, reactionRate: 0.5 },
+      ADAPTED: { turns: 0, reactionRate: null },
+      OFF_SCRIPT: { turns: 1, reactionRate: 1 },
+    });
+  });
+
+  it('has no average without scored turns', () => {
+    expect(summarizeAdherence([]).averageScore).toBeNull();
+  });
+});
@@ -0,0 +1,141 @@
+import type { AdherenceLevel, AdherenceScore, AdherenceSummary, CoachingTurn } from '../types';
+
+// Placeholder in a golden script, e.g. [Agent Name]
+const PLACEHOLDER_PATTERN = /\[[^\]]+\]/g;
+const WILDCARD = '\u0000';
+
+// A placeholder stands in for a name or place: up to 3 spoken words
+const MAX_WILDCARD_TOKENS = 3;
+
+// Speech disfluencies that transcripts include but scripts mostly don't
+const FILLER_WORDS = new Set(['uh', 'um', 'uhm', 'er', 'ah', 'like']);
+
+const VERBATIM_THRESHOLD = 0.85;
+const ADAPTED_THRESHOLD = 0.5;
+
+/**
+ * Lowercase, strip punctuation, drop fillers; placeholders become wildcard tokens
+ * Letters of any language are kept (NFC, so "mañana" is one token however it was encoded)
+ */
+function tokenize(text: string, keepPlaceholders: boolean): string[] {
+  const withWildcards = keepPlaceholders
+    ? text.replace(PLACEHOLDER_PATTERN, ` ${WILDCARD} `)
+    : text.replace(PLACEHOLDER_PATTERN, ' ');
+
+  return withWildcards
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[’']/g, '')
+    .replace(/[^\p{L}\p{N}\u0000\s]/gu, ' ')
+    .split(/\s+/)
+    .filter((token) => token.length > 0 && !FILLER_WORDS.has(token));
+}
+
+/**
+ * Word-level edit distance; a wildcard matches 1..MAX_WILDCARD_TOKENS words for free
+ */
+function editDistance(expected: string[], actual: string[]): number {
+  const rows = expected.length + 1;
+  const cols = actual.length + 1;
+  const dp: number[][] = Array.from({ length: rows }, () => new Array<number>(cols).fill(0));
+
+  for (let i = 0; i < rows; i++) dp[i][0] = i;
+  for (let j = 0; j < cols; j++) dp[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const token = expected[i - 1];
+
+      let best = Math.min(dp[i - 1][j] + 1, dp[i][j - 1] + 1);
+
+      if (token === WILDCARD) {
+        for (let k = 1; k <= Math.min(MAX_WILDCARD_TOKENS, j); k++) {
+          best = Math.min(best, dp[i - 1][j - k]);
+        }
+      } else {
+        best = Math.min(best, dp[i - 1][j - 1] + (token === actual[j - 1] ? 0 : 1));
+      }
+
+      dp[i][j] = best;
+    }
+  }
+
+  return dp[rows - 1][cols - 1];
+}
+
+function levelFor(score: number): AdherenceLevel {
+  if (score >= VERBATIM_THRESHOLD) return 'VERBATIM';
+  if (score >= ADAPTED_THRESHOLD) return 'ADAPTED';
+  return 'OFF_SCRIPT';
+}
+
+/**
+ * Score how closely the agent's words follow the selected script (deterministic)
+ *
+ * - editSimilarity: 1 - word edit distance / longer length
+ * - tokenOverlap: share of the script's words the agent actually said
+ * - score: mean of the two
+ *
+ * Placeholders like [Customer Name] in the script match any short run of words.
+ */
+export function scoreAdherence(script: string, response: string): AdherenceScore {
+  const expected = tokenize(script, true);
+  const actual = tokenize(response, false);
+
+  if (expected.length === 0 || actual.length === 0) {
+    return { score: 0, editSimilarity: 0, tokenOverlap: 0, level: 'OFF_SCRIPT' };
+  }
+
+  const distance = editDistance(expected, actual);
+  const editSimilarity = Math.max(0, 1 - distance / Math.max(expected.length, actual.length));
+
+  const literalTokens = expected.filter((token) => token !== WILDCARD);
+  const spoken = new Set(actual);
+  const tokenOverlap =
+    literalTokens.length > 0
+      ? literalTokens.filter((token) => spoken.has(token)).length / literalTokens.length
+      : 1;
+
+  const score = (editSimilarity + tokenOverlap) / 2;
+
+  return {
+    score: Math.round(score * 1000) / 1000,
+    editSimilarity: Math.round(editSimilarity * 1000) / 1000,
+    tokenOverlap: Math.round(tokenOverlap * 1000) / 1000,
+    level: levelFor(score),
+  };
+}
+
+/**
+ * Aggregate adherence across a call's coaching turns
+ * reactionRate per level = share of those turns the customer responded to
+ */
+export function summarizeAdherence(turns: CoachingTurn[]): AdherenceSummary {
+  const scored = turns.filter((turn) => turn.adherence);
+  const levels: AdherenceLevel[] = ['VERBATIM', 'ADAPTED', 'OFF_SCRIPT'];
+
+  const byLevel = levels.reduce(
+    (acc, level) => {
+      const inLevel = scored.filter((turn) => turn.adherence!.level === level);
+      acc[level] = {
+        turns: inLevel.length,
+        reactionRate:
+          inLevel.length > 0
+            ? inLevel.filter((turn) => !!turn.customerReaction).length / inLevel.length
+            : null,
+      };
+      return acc;
+    },
+    {} as AdherenceSummary['byLevel']
+  );
+
+  return {
+    turnCount: turns.length,
+    scoredTurns: scored.length,
+    averageScore:
+      scored.length > 0
+        ? Math.round((scored.reduce((sum, turn) => sum + turn.adherence!.score, 0) / scored.length) * 1000) / 1000
+        : null,
+    byLevel,
+  };
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { extractContactInfo, mergeEntities } from './entity-extraction';
+import type { TranscriptSegment } from '../types';
+
+function caller(...texts: string[]): TranscriptSegment[] {
+  return texts.map((text, i) => ({ speaker: 'caller', text, timestamp: i, confidence: 0.9 }));
+}
+
+describe('extractContactInfo', () => {
+  it('finds emails, phone numbers and websites across segments', () => {
+    expect(
+      extractContactInfo(
+        caller('Call (916) 555-0142 or +1 916.555.0199', 'The site is smithplumbing.com, email Bob@Smith.com')
+      )
+    ).toEqual({
+      emails: ['bob@smith.com'],
+      phoneNumbers: ['(916) 555-0142', '+1 916.555.0199'],
+      urls: ['smithplumbing.com'],
+    });
+  });
+
+  it('joins spelled-out email addresses and lists each address once', () => {
+    expect(extractContactInfo(caller('bob at smith dot com', 'bob@smith.com')).emails).toEqual(['bob@smith.com']);
+  });
+
+  it('does not take the domain of an email for a website', () => {
+    expect(extractContactInfo(caller('maria@lopezdesign.com')).urls).toEqual([]);
+  });
+
+  it('does not take other numbers for phone numbers', () => {
+    const info = extractContactInfo(caller('Order 12345 cost 300 dollars, we open at 9:30, version 2.0'));
+
+    expect(info).toEqual({ emails: [], phoneNumbers: [], urls: [] });
+  });
+});
+
+describe('mergeEntities', () => {
+  it('keeps deterministic contact info and drops malformed LLM entries', () => {
+    const merged = mergeEntities(
+      {
+        people: ['Maria', 'maria', '', 42 as unknown as string],
+        dates: 'tomorrow' as unknown as string[],
+        contactInfo: { emails: ['BOB@smith.com', 'ana@lopez.com'], phoneNumbers: [], urls: [] },
+      },
+      { emails: ['bob@smith.com'], phoneNumbers: ['916-555-0142'], urls: [] }
+    );
+
+    expect(merged).toEqual({
+      businessNames: [],
+      people: ['Maria'],
+      locations: [],
+      dates: [],
+      contactInfo: { emails: ['bob@smith.com', 'ana@lopez.com'], phoneNumbers: ['916-555-0142'], urls: [] },
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import type { CallEntities, TranscriptSegment } from '../types';
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+const PHONE_PATTERN = /(?:\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/g;
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s,]+|\b[a-z0-9-]+\.(?:com|net|org|biz|io|co|us)\b(?!@)/gi;
+
+// Speech-to-text spells addresses out: "john at gmail dot com"
+const SPOKEN_EMAIL_PATTERN = /\b([a-z0-9._-]+)\s+at\s+([a-z0-9-]+)\s+dot\s+(com|net|org|biz|io|co|us)\b/gi;
+
+function unique(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter((value) => {
+    const key = value.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Deterministic contact info extraction (emails, phone numbers, URLs)
+ * Used alongside the LLM so contact details are never hallucinated or missed
+ */
+export function extractContactInfo(segments: TranscriptSegment[]): CallEntities['contactInfo'] {
+  const text = segments.map((segment) => segment.text).join('\n');
+
+  const spokenEmails = Array.from(text.matchAll(SPOKEN_EMAIL_PATTERN)).map(
+    ([, user, domain, tld]) => `${user}@${domain}.${tld}`
+  );
+  const emails = unique([...(text.match(EMAIL_PATTERN) || []), ...spokenEmails].map((e) => e.toLowerCase()));
+
+  const urls = unique(text.match(URL_PATTERN) || []).filter(
+    (url) => !emails.some((email) => email.endsWith(url.toLowerCase()))
+  );
+
+  return {
+    emails,
+    phoneNumbers: unique((text.match(PHONE_PATTERN) || []).map((p) => p.trim())),
+    urls,
+  };
+}
+
+/**
+ * Merge LLM entities with deterministic contact info
+ */
+export function mergeEntities(llm: Partial<CallEntities> | undefined, contactInfo: CallEntities['contactInfo']): CallEntities {
+  const list = (value: unknown): string[] =>
+    Array.isArray(value) ? unique(value.filter((v): v is string => typeof v === 'string' && v.trim() !== '')) : [];
+
+  return {
+    businessNames: list(llm?.businessNames),
+    people: list(llm?.people),
+    locations: list(llm?.locations),
+    dates: list(llm?.dates),
+    contactInfo: {
+      emails: unique([...contactInfo.emails, ...list(llm?.contactInfo?.emails)]),
+      phoneNumbers: unique([...contactInfo.phoneNumbers, ...list(llm?.contactInfo?.phoneNumbers)]),
+      urls: unique([...contactInfo.urls, ...list(llm?.contactInfo?.urls)]),
+    },
+  };
+}
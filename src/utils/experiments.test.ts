@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { assignVariant, summarizeExperiment, wilsonInterval } from './experiments';
+import type { CallOutcome, Experiment, ExperimentExposure } from '../types';
+
+const EXPERIMENT: Experiment = {
+  id: 'callback-ask',
+  unit: 'conversation',
+  variants: [{ scriptId: 'ask-callback' }, { scriptId: 'ask-callback-direct' }],
+};
+
+function exposure(conversationId: string, variant: string, outcome?: Partial<CallOutcome>): ExperimentExposure {
+  return {
+    conversationId,
+    variant,
+    exposedAt: 1000,
+    outcome: outcome && { callbackBooked: false, source: 'agent', recordedAt: 2000, ...outcome },
+  };
+}
+
+describe('assignVariant', () => {
+  it('gives the same unit the same variant every time', () => {
+    for (const key of ['conv-1', 'conv-2', 'agent-7']) {
+      expect(assignVariant(EXPERIMENT, key)).toBe(assignVariant(EXPERIMENT, key));
+    }
+  });
+
+  it('splits traffic by weight', () => {
+    const weighted: Experiment = {
+      ...EXPERIMENT,
+      variants: [
+        { scriptId: 'ask-callback', weight: 3 },
+        { scriptId: 'ask-callback-direct', weight: 1 },
+      ],
+    };
+
+    const counts = new Map<string, number>();
+    for (let i = 0; i < 4000; i++) {
+      const variant = assignVariant(weighted, `conv-${i}`);
+      counts.set(variant, (counts.get(variant) || 0) + 1);
+    }
+
+    expect(counts.get('ask-callback')! / 4000).toBeCloseTo(0.75, 1);
+    expect(counts.get('ask-callback-direct')! / 4000).toBeCloseTo(0.25, 1);
+  });
+
+  it('never assigns a variant with zero weight', () => {
+    const disabled: Experiment = {
+      ...EXPERIMENT,
+      variants: [
+        { scriptId: 'ask-callback', weight: 0 },
+        { scriptId: 'ask-callback-direct' },
+      ],
+    };
+
+    for (let i = 0; i < 200; i++) {
+      expect(assignVariant(disabled, `conv-${i}`)).toBe('ask-callback-direct');
+    }
+  });
+
+  it('assigns the same unit differently across experiments', () => {
+    const other: Experiment = { ...EXPERIMENT, id: 'callback-ask-2' };
+    const keys = Array.from({ length: 50 }, (_, i) => `conv-${i}`);
+
+    expect(keys.some((key) => assignVariant(EXPERIMENT, key) !== assignVariant(other, key))).toBe(true);
+  });
+});
+
+describe('wilsonInterval', () => {
+  it('has no interval without trials', () => {
+    expect(wilsonInterval(0, 0)).toBeNull();
+  });
+
+  it('stays inside 0..1 at the extremes', () => {
+    const none = wilsonInterval(0, 5)!;
+    const all = wilsonInterval(5, 5)!;
+
+    expect(none.low).toBe(0);
+    expect(none.high).toBeGreaterThan(0);
+    expect(all.high).toBe(1);
+    expect(all.low).toBeLessThan(1);
+  });
+
+  it('contains the observed rate and narrows with more trials', () => {
+    const few = wilsonInterval(5, 10)!;
+    const many = wilsonInterval(500, 1000)!;
+
+    expect(few.low).toBeLessThan(0.5);
+    expect(few.high).toBeGreaterThan(0.5);
+    expect(many.high - many.low).toBeLessThan(few.high - few.low);
+    expect(many.low).toBeCloseTo(0.469, 3);
+    expect(many.high).toBeCloseTo(0.531, 3);
+  });
+});
+
+describe('summarizeExperiment', () => {
+  it('counts confirmed outcomes in the rate and keeps pending and inferred calls apart', () => {
+    const results = summarizeExperiment(EXPERIMENT, [
+      exposure('c1', 'ask-callback', { callbackBooked: true }),
+      exposure('c2', 'ask-callback', { callbackBooked: false, source: 'api' }),
+      exposure('c3', 'ask-callback'),
+      exposure('c4', 'ask-callback', { callbackBooked: true, source: 'lead' }),
+      exposure('c5', 'ask-callback-direct', { callbackBooked: true }),
+    ]);
+
+    expect(results).toMatchObject({ experimentId: 'callback-ask', unit: 'conversation', active: true, excluded: 0 });
+    expect(results.variants[0]).toMatchObject({
+      scriptId: 'ask-callback',
+      conversations: 2,
+      callbacksBooked: 1,
+      conversionRate: 0.5,
+      pending: 1,
+      inferred: { conversations: 1, callbacksBooked: 1 },
+    });
+    expect(results.variants[0].confidenceInterval).toEqual(wilsonInterval(1, 2));
+    expect(results.variants[1]).toMatchObject({ conversations: 1, callbacksBooked: 1, conversionRate: 1 });
+  });
+
+  it('counts a call once however many tips offered its variant', () => {
+    const results = summarizeExperiment(EXPERIMENT, [
+      exposure('c1', 'ask-callback', { callbackBooked: true }),
+      exposure('c1', 'ask-callback', { callbackBooked: true }),
+    ]);
+
+    expect(results.variants[0].conversations).toBe(1);
+  });
+
+  it('excludes calls offered more than one variant or a variant no longer in the experiment', () => {
+    const results = summarizeExperiment({ ...EXPERIMENT, active: false }, [
+      exposure('c1', 'ask-callback', { callbackBooked: true }),
+      exposure('c1', 'ask-callback-direct', { callbackBooked: true }),
+      exposure('c2', 'retired-variant', { callbackBooked: true }),
+    ]);
+
+    expect(results.active).toBe(false);
+    expect(results.excluded).toBe(2);
+    expect(results.variants.every((variant) => variant.conversations === 0)).toBe(true);
+  });
+
+  it('has no rate for a variant without confirmed outcomes', () => {
+    const results = summarizeExperiment(EXPERIMENT, [exposure('c1', 'ask-callback', { source: 'lead' })]);
+
+    expect(results.variants[0].conversionRate).toBeNull();
+    expect(results.variants[0].confidenceInterval).toBeNull();
+  });
+});
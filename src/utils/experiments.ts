@@ -0,0 +1,120 @@
+import type {
+  CallOutcome,
+  Experiment,
+  ExperimentExposure,
+  ExperimentResults,
+  ExperimentVariantResult,
+} from '../types';
+
+// 95% two-sided normal quantile
+const Z_95 = 1.96;
+
+/**
+ * FNV-1a: stable and evenly spread, so assignments survive restarts and split traffic by weight
+ */
+function fnv1a(text: string): number {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193) >>> 0;
+  }
+  return value;
+}
+
+/**
+ * Variant (script id) an agent or call gets in an experiment
+ * The same unit key always gets the same variant while the variants and weights stay the same
+ */
+export function assignVariant(experiment: Experiment, unitKey: string): string {
+  const weights = experiment.variants.map((variant) => variant.weight ?? 1);
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  let point = (fnv1a(`${experiment.id}:${unitKey}`) / 0x100000000) * total;
+  for (let i = 0; i < weights.length; i++) {
+    point -= weights[i];
+    if (point < 0) return experiment.variants[i].scriptId;
+  }
+  return experiment.variants[experiment.variants.length - 1].scriptId;
+}
+
+/**
+ * Wilson score interval for a conversion rate (stays inside 0..1 and behaves with few calls)
+ */
+export function wilsonInterval(successes: number, trials: number, z = Z_95): { low: number; high: number } | null {
+  if (trials === 0) return null;
+
+  const rate = successes / trials;
+  const z2 = z * z;
+  const center = (rate + z2 / (2 * trials)) / (1 + z2 / trials);
+  const margin = (z / (1 + z2 / trials)) * Math.sqrt((rate * (1 - rate)) / trials + z2 / (4 * trials * trials));
+
+  return { low: Math.max(0, center - margin), high: Math.min(1, center + margin) };
+}
+
+// Outcomes someone reported; 'lead' outcomes are a guess from a captured callback time
+const CONFIRMED_SOURCES: CallOutcome['source'][] = ['agent', 'api'];
+
+/**
+ * Conversion per variant: a call counts for the variant its tips offered; calls offered
+ * more than one variant (definition changed mid-call) are excluded, and outcomes only
+ * inferred from the lead are reported apart from the rate
+ */
+export function summarizeExperiment(experiment: Experiment, exposures: ExperimentExposure[]): ExperimentResults {
+  const byConversation = new Map<string, ExperimentExposure[]>();
+  for (const exposure of exposures) {
+    byConversation.set(exposure.conversationId, [...(byConversation.get(exposure.conversationId) || []), exposure]);
+  }
+
+  const variants = new Map<string, ExperimentVariantResult>(
+    experiment.variants.map((variant) => [
+      variant.scriptId,
+      {
+        scriptId: variant.scriptId,
+        conversations: 0,
+        callbacksBooked: 0,
+        conversionRate: null,
+        confidenceInterval: null,
+        pending: 0,
+        inferred: { conversations: 0, callbacksBooked: 0 },
+      },
+    ])
+  );
+  let excluded = 0;
+
+  for (const callExposures of byConversation.values()) {
+    const offered = new Set(callExposures.map((exposure) => exposure.variant));
+    const result = variants.get(callExposures[0].variant);
+    if (offered.size > 1 || !result) {
+      excluded++;
+      continue;
+    }
+
+    const outcome = callExposures[0].outcome;
+    if (!outcome) {
+      result.pending++;
+      continue;
+    }
+    if (!CONFIRMED_SOURCES.includes(outcome.source)) {
+      result.inferred.conversations++;
+      if (outcome.callbackBooked) result.inferred.callbacksBooked++;
+      continue;
+    }
+    result.conversations++;
+    if (outcome.callbackBooked) result.callbacksBooked++;
+  }
+
+  for (const result of variants.values()) {
+    if (result.conversations > 0) {
+      result.conversionRate = result.callbacksBooked / result.conversations;
+      result.confidenceInterval = wilsonInterval(result.callbacksBooked, result.conversations);
+    }
+  }
+
+  return {
+    experimentId: experiment.id,
+    unit: experiment.unit,
+    active: experiment.active !== false,
+    variants: Array.from(variants.values()),
+    excluded,
+  };
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { buildFallbackTip, lastCallerText, type FallbackContext } from './fallback-tips';
+import { DEFAULT_PLACEHOLDER_VALUES } from './script-enforcement';
+import { DEFAULT_PLAYBOOK } from '../constants/playbooks';
+import type { ScriptUsage, TranscriptSegment } from '../types';
+
+const HOUR_AGO = Date.now() - 3_600_000;
+
+function fallback(context: Partial<FallbackContext>) {
+  return buildFallbackTip({
+    conversationId: 'conv-1',
+    placeholders: DEFAULT_PLACEHOLDER_VALUES,
+    playbook: DEFAULT_PLAYBOOK,
+    reason: 'timeout',
+    ...context,
+  });
+}
+
+function spoken(...scriptIds: string[]): ScriptUsage[] {
+  return scriptIds.map((scriptId) => ({ scriptId, event: 'spoken', timestamp: HOUR_AGO }));
+}
+
+describe('buildFallbackTip', () => {
+  it('answers the last caller line with the first matching rule', () => {
+    const tip = fallback({ lastCallerText: "Sorry, I'm really busy right now", stage: 'VALUE_PROP' });
+
+    expect(tip).toMatchObject({
+      conversationId: 'conv-1',
+      stage: 'OBJECTION_HANDLING',
+      heading: 'Handle Busy',
+      context: 'Fallback (timeout): matched "busy"',
+      fallback: true,
+      libraryVersion: 1,
+    });
+    expect(tip.options.map((option) => option.id)).toEqual(['obj-busy-or-have', 'ask-callback-fomo', 'pivot-seo']);
+    expect(tip.options[0].script).toBe('Oh, you already got one though, or just busy right now to talk about it?');
+  });
+
+  it('matches Spanish lines and offers the translated scripts', () => {
+    const tip = fallback({ lastCallerText: 'Ya tengo una página web', stage: 'VALUE_PROP', language: 'es' });
+
+    expect(tip.heading).toBe('Pivot to SEO');
+    expect(tip.options.map((option) => option.id)).toEqual(['pivot-seo', 'pivot-seo-affirm', 'pivot-revamp']);
+    expect(tip.options[0].script).toMatch(/^Ah, okay\. Bueno, eso es excelente/);
+  });
+
+  it('uses the stage defaults and the goal script when no rule matches', () => {
+    const tip = fallback({ lastCallerText: 'Hmm, okay then, go on', stage: 'VALUE_PROP' });
+
+    expect(tip.heading).toBe('Keep Going');
+    expect(tip.context).toBe('Fallback (timeout): default for VALUE_PROP');
+    expect(tip.options.map((option) => option.id)).toEqual(['hook-affordable', 'pivot-local', 'ask-callback']);
+    expect(fallback({}).options.map((option) => option.id)).toEqual(['ask-callback', 'ask-callback-fomo']);
+  });
+
+  it('skips rules for stages the call cannot move back to', () => {
+    const tip = fallback({ lastCallerText: 'Hello?', stage: 'CLOSING' });
+
+    expect(tip.stage).toBe('CLOSING');
+    expect(tip.options.map((option) => option.id)).toEqual(['ask-callback', 'ask-callback-fomo']);
+    expect(fallback({ lastCallerText: 'Hello?', stage: 'GREETING' }).heading).toBe('Introduce');
+  });
+
+  it('lists placeholders without a value', () => {
+    const tip = fallback({ lastCallerText: 'Hello?', stage: 'GREETING' });
+
+    expect(tip.options[0].script).toBe(
+      "My name is [Agent Name], and uh, Bob and I are here; we're local website designers here in Sacramento."
+    );
+    expect(tip.unresolvedPlaceholders).toEqual(['Agent Name']);
+  });
+
+  it('skips scripts already spoken unless nothing else is left', () => {
+    expect(fallback({ stage: 'VALUE_PROP', scriptUsage: spoken('hook-affordable') }).options.map((o) => o.id)).toEqual([
+      'pivot-local',
+      'ask-callback',
+    ]);
+    expect(fallback({ stage: 'CONVERSION', scriptUsage: spoken('sign-off-options') }).options.map((o) => o.id)).toEqual([
+      'sign-off-options',
+    ]);
+  });
+
+  it('reuses the id of a streamed partial tip', () => {
+    expect(fallback({ recommendationId: 'rec-1' }).recommendationId).toBe('rec-1');
+  });
+
+  it('refuses to build a tip without options when the library is not loaded', () => {
+    expect(() => fallback({ lastCallerText: 'Hello?', playbook: { ...DEFAULT_PLAYBOOK, id: 'not-loaded' } })).toThrow(
+      'No scripts for a fallback tip (timeout) in playbook "not-loaded"'
+    );
+  });
+});
+
+describe('lastCallerText', () => {
+  it('returns the most recent caller segment', () => {
+    const segments: TranscriptSegment[] = [
+      { speaker: 'caller', text: 'Hello?', timestamp: 1, confidence: 0.9 },
+      { speaker: 'agent', text: 'Hi, this is Dave', timestamp: 2, confidence: 0.9 },
+      { speaker: 'caller', text: "I'm busy", timestamp: 3, confidence: 0.9 },
+      { speaker: 'agent', text: 'No problem', timestamp: 4, confidence: 0.9 },
+    ];
+
+    expect(lastCallerText(segments)).toBe("I'm busy");
+    expect(lastCallerText([])).toBeUndefined();
+  });
+});
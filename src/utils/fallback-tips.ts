@@ -0,0 +1,193 @@
+import { v4 as uuidv4 } from 'uuid';
+import { publishedScripts } from './golden-library';
+import { enforceGoldenScripts } from './script-enforcement';
+import { availableScripts } from './script-usage';
+import { canTransition } from './stage-tracker';
+import type {
+  AITipPayload,
+  ConversationStage,
+  PlaceholderValues,
+  Playbook,
+  ScriptLanguage,
+  ScriptUsage,
+  TranscriptSegment,
+} from '../types';
+
+interface FallbackRule {
+  name: string;
+  pattern: RegExp;
+  heading: string;
+  stage: ConversationStage;
+  scriptIds: string[];
+}
+
+// Checked in order against the last thing the customer said; first match wins.
+// Written for the default playbook: rules whose scripts a playbook lacks are skipped.
+// Patterns cover English and Spanish calls (no \b after accented letters)
+const FALLBACK_RULES: FallbackRule[] = [
+  {
+    name: 'number-source',
+    pattern:
+      /\b(?:how|where) did you get (?:my|this|our) (?:number|info)|\bwho gave you\b|\bd[oó]nde (?:sac[oó]|consigui[oó]) (?:mi|este|nuestro) n[uú]mero|\bqui[eé]n le dio/i,
+    heading: 'Build Trust',
+    stage: 'CLOSING',
+    scriptIds: ['trust-source'],
+  },
+  {
+    name: 'has-website',
+    pattern:
+      /\b(?:already )?(?:have|got) (?:a |one|an? )?(?:website|site|web ?page|one)\b|\bsomeone (?:already )?(?:does|handles|built)\b|\bya (?:tengo|tenemos) (?:uno\b|(?:una |un )?(?:p[aá]gina|sitio))/i,
+    heading: 'Pivot to SEO',
+    stage: 'OBJECTION_HANDLING',
+    scriptIds: ['pivot-seo', 'pivot-seo-affirm', 'pivot-revamp'],
+  },
+  {
+    name: 'ownership',
+    pattern: /\b(?:who|would i) (?:owns?|control)\b|\bown (?:it|the site|the website)\b|\bfull control\b/i,
+    heading: 'Reassure Control',
+    stage: 'OBJECTION_HANDLING',
+    scriptIds: ['obj-ip-control'],
+  },
+  {
+    name: 'busy',
+    pattern:
+      /\bbusy\b|\bnot a good time\b|\bin the middle of\b|\bcall (?:me )?back\b|\bno time\b|\bocupad[oa]s?\b|\bno es (?:un )?buen momento|\bno tengo tiempo|\bll[aá]m(?:e|eme) (?:despu|m[aá]s tarde)/i,
+    heading: 'Handle Busy',
+    stage: 'OBJECTION_HANDLING',
+    scriptIds: ['obj-busy-or-have', 'ask-callback-fomo'],
+  },
+  {
+    name: 'not-interested',
+    pattern: /\bnot interested\b|\bno,? thanks?\b|\bno thank you\b|\bwe're (?:good|fine|all set)\b|\bno (?:me |nos )?interesa|\bno,? gracias\b/i,
+    heading: 'Handle Objection',
+    stage: 'OBJECTION_HANDLING',
+    scriptIds: ['obj-busy-or-have', 'pivot-digital-marketing'],
+  },
+  {
+    name: 'pricing',
+    pattern: /\bprice|\bpricing\b|\bcost|\bhow much\b|\bexpensive\b|\bafford|\bprecio|\bcu[aá]nto cuesta|\bcaro\b/i,
+    heading: 'Talk Pricing',
+    stage: 'CLOSING',
+    scriptIds: ['value-pricing', 'ask-pricing-samples'],
+  },
+  {
+    name: 'gave-email',
+    pattern: /@|\bat \w+ dot (?:com|net|org)\b|\barroba\b/i,
+    heading: 'Confirm Details',
+    stage: 'CLOSING',
+    scriptIds: ['validate-name', 'decision-maker'],
+  },
+  {
+    name: 'agreed',
+    pattern: /^(?:sure|okay|ok|yes|yeah|yep|alright|sounds good|that's fine|fine)\b|^(?:s[ií]|claro|est[aá] bien|de acuerdo|vale)(?=[\s,.!]|$)/i,
+    heading: 'Get Email',
+    stage: 'CLOSING',
+    scriptIds: ['info-email', 'final-close'],
+  },
+  {
+    name: 'goodbye',
+    pattern: /\b(?:bye|goodbye|have a (?:good|nice|great) (?:day|one))\b|\badi[oó]s|\bhasta luego\b|\bque tenga (?:un )?buen d[ií]a/i,
+    heading: 'Sign Off',
+    stage: 'CONVERSION',
+    scriptIds: ['sign-off-options'],
+  },
+  {
+    name: 'greeting',
+    pattern:
+      /^(?:hello|hi|hey)\b|\bwho is this\b|\bwho's calling\b|\bcan you hear\b|^(?:hola|al[oó]|diga|bueno)(?=[\s,.!?]|$)|\bqui[eé]n habla|\bde parte de qui/i,
+    heading: 'Introduce',
+    stage: 'GREETING',
+    scriptIds: ['intro-basic', 'intro-locations'],
+  },
+];
+
+// No rule matched: move the call forward from the current stage (default playbook ids;
+// other playbooks fall back to their own scripts of the stage)
+const STAGE_DEFAULTS: Partial<Record<ConversationStage, string[]>> = {
+  GREETING: ['opener-check', 'intro-basic'],
+  VALUE_PROP: ['hook-affordable', 'pivot-local'],
+  OBJECTION_HANDLING: ['obj-busy-or-have', 'pivot-seo'],
+  CLOSING: ['ask-callback', 'ask-callback-fomo'],
+  CONVERSION: ['sign-off-options'],
+};
+
+const MAX_FALLBACK_OPTIONS = 3;
+
+export interface FallbackContext {
+  recommendationId?: string; // Reuse the id of a partial tip already streamed to the agent
+  conversationId: string;
+  lastCallerText?: string;
+  stage?: ConversationStage; // Tracked call stage; rules and scripts it cannot move to are skipped
+  scriptUsage?: ScriptUsage[]; // Ledger; scripts cooling down or already spoken are skipped where possible
+  placeholders: PlaceholderValues;
+  playbook: Playbook; // Library to draw from; its goal script is the last resort
+  language?: ScriptLanguage; // Call language of the options (default English)
+  reason: string; // Why the LLM was not used (logged in the tip context)
+}
+
+/**
+ * Most recent caller segment text
+ */
+export function lastCallerText(transcriptHistory: TranscriptSegment[]): string | undefined {
+  return [...transcriptHistory].reverse().find((segment) => segment.speaker === 'caller')?.text;
+}
+
+/**
+ * Deterministic tip from the playbook's published script library when the LLM fails or times out
+ * Keyword / objection rules on the last caller utterance, then the current stage, then the goal script
+ * Throws when the library has no script to offer (e.g. the playbook's library is not loaded)
+ */
+export function buildFallbackTip(context: FallbackContext): AITipPayload {
+  const library = publishedScripts(context.playbook.id);
+  const inLibrary = (id: string) => library.some((script) => script.id === id);
+  const reachable = (stage: ConversationStage) => !context.stage || canTransition(context.stage, stage);
+
+  const rule = context.lastCallerText
+    ? FALLBACK_RULES.find(
+        (candidate) =>
+          reachable(candidate.stage) &&
+          candidate.scriptIds.some(inLibrary) &&
+          candidate.pattern.test(context.lastCallerText!.trim())
+      )
+    : undefined;
+
+  const stage = rule?.stage || context.stage || 'CLOSING';
+  const stageDefaults = (STAGE_DEFAULTS[stage] || []).filter(inLibrary);
+  const ids = [
+    ...(rule?.scriptIds || []),
+    ...(stageDefaults.length > 0
+      ? stageDefaults
+      : library.filter((script) => script.stage === stage).map((script) => script.id)),
+    context.playbook.goalScriptId,
+  ].filter((id, index, all) => inLibrary(id) && all.indexOf(id) === index);
+
+  // Prefer scripts of reachable stages, but never end up with nothing to show
+  const fitting = ids.filter((id) => reachable(library.find((s) => s.id === id)!.stage));
+  const candidates = availableScripts(
+    (fitting.length > 0 ? fitting : ids).map((id) => ({ id })),
+    context.scriptUsage
+  );
+
+  const { options, unresolved, libraryVersion } = enforceGoldenScripts(
+    candidates.slice(0, MAX_FALLBACK_OPTIONS),
+    context.placeholders,
+    context.playbook.id,
+    context.language
+  );
+  if (options.length === 0) {
+    throw new Error(`No scripts for a fallback tip (${context.reason}) in playbook "${context.playbook.id}"`);
+  }
+
+  return {
+    recommendationId: context.recommendationId || uuidv4(),
+    conversationId: context.conversationId,
+    stage,
+    heading: rule?.heading || 'Keep Going',
+    context: `Fallback (${context.reason}): ${rule ? `matched "${rule.name}"` : `default for ${stage}`}`,
+    options,
+    unresolvedPlaceholders: unresolved.length > 0 ? unresolved : undefined,
+    fallback: true,
+    libraryVersion,
+    timestamp: Date.now(),
+  };
+}
@@ -0,0 +1,29 @@
+import { DEFAULT_PLAYBOOK, DEFAULT_PLAYBOOK_ID } from '../constants/playbooks';
+import type { QualityScript } from '../types';
+
+// The published script library of each playbook, which tips draw from (the default
+// playbook's built-in seed until ScriptLibraryService loads or publishes versions)
+const published: Map<string, { version: number; scripts: QualityScript[] }> = new Map([
+  [DEFAULT_PLAYBOOK_ID, { version: 1, scripts: DEFAULT_PLAYBOOK.scripts }],
+]);
+
+/**
+ * Scripts of a playbook's published library version (empty for a playbook not loaded)
+ */
+export function publishedScripts(playbookId = DEFAULT_PLAYBOOK_ID): QualityScript[] {
+  return published.get(playbookId)?.scripts ?? [];
+}
+
+/**
+ * Version number of a playbook's published library
+ */
+export function publishedLibraryVersion(playbookId = DEFAULT_PLAYBOOK_ID): number | undefined {
+  return published.get(playbookId)?.version;
+}
+
+/**
+ * Make a library version the one a playbook's tips draw from (ScriptLibraryService only)
+ */
+export function setPublishedLibrary(playbookId: string, version: number, scripts: QualityScript[]): void {
+  published.set(playbookId, { version, scripts });
+}
@@ -0,0 +1,21 @@
+import { DEFAULT_LANGUAGE, SCRIPT_LANGUAGES } from '../constants/languages';
+import type { QualityScript, ScriptLanguage, ScriptTranslation } from '../types';
+
+/**
+ * Call language from a payload or transcription result: "es", "ES", "es-US", "es-MX" -> es
+ * Undefined for anything else (including no value)
+ */
+export function parseLanguage(value: unknown): ScriptLanguage | undefined {
+  if (typeof value !== 'string') return undefined;
+
+  const language = value.trim().toLowerCase().split(/[-_]/)[0];
+  return SCRIPT_LANGUAGES.find((candidate) => candidate === language);
+}
+
+/**
+ * Label and text of a script in the call's language (the English script when it has no translation)
+ */
+export function localizeScript(script: QualityScript, language: ScriptLanguage = DEFAULT_LANGUAGE): ScriptTranslation {
+  const translation = language === DEFAULT_LANGUAGE ? undefined : script.translations?.[language];
+  return translation || { label: script.label, text: script.text };
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { detectLeadQuestion, extractLeadFields } from './lead-extraction';
+
+describe('detectLeadQuestion', () => {
+  it('takes the question from the selected script first', () => {
+    expect(detectLeadQuestion('info-email', 'Who is this?')).toBe('email');
+    expect(detectLeadQuestion('final-close', undefined)).toBe('callback');
+  });
+
+  it('recognizes the question in off-script agent wording', () => {
+    expect(detectLeadQuestion(undefined, 'Can I get your email?')).toBe('email');
+    expect(detectLeadQuestion('hook-affordable', 'Who am I speaking with?')).toBe('name');
+    expect(detectLeadQuestion(undefined, 'Are you the owner?')).toBe('decisionMaker');
+    expect(detectLeadQuestion(undefined, 'Is there a good time to call you back?')).toBe('callback');
+  });
+
+  it('finds no question in anything else', () => {
+    expect(detectLeadQuestion(undefined, 'We build websites for local businesses')).toBeUndefined();
+    expect(detectLeadQuestion(undefined, undefined)).toBeUndefined();
+  });
+});
+
+describe('extractLeadFields', () => {
+  it('captures written and spoken email addresses', () => {
+    expect(extractLeadFields("Sure, it's Maria.Lopez@Gmail.com", undefined)).toEqual({ email: 'maria.lopez@gmail.com' });
+    expect(extractLeadFields("yeah it's john at gmail dot com", 'email')).toEqual({ email: 'john@gmail.com' });
+  });
+
+  it('captures a name the caller states, anywhere in the call', () => {
+    expect(extractLeadFields('My name is Maria Lopez and I own the shop', undefined)).toEqual({
+      name: 'Maria Lopez',
+      isDecisionMaker: true,
+    });
+  });
+
+  it('takes a short answer as a name only right after the name question', () => {
+    expect(extractLeadFields("It's Maria.", 'name')).toEqual({ name: 'Maria' });
+    expect(extractLeadFields('Dave', 'name')).toEqual({ name: 'Dave' });
+    expect(extractLeadFields('Maria', undefined)).toEqual({});
+    expect(extractLeadFields('Maria', 'callback')).toEqual({});
+  });
+
+  it('does not take courtesy words for names', () => {
+    expect(extractLeadFields('Sorry', 'name')).toEqual({});
+    expect(extractLeadFields('Yes', 'name')).toEqual({});
+    expect(extractLeadFields('Speaking', 'name')).toEqual({});
+  });
+
+  it('tells decision makers from callers who refer the agent on', () => {
+    expect(extractLeadFields("I'm the owner", undefined)).toEqual({ isDecisionMaker: true });
+    expect(extractLeadFields("I'm not the owner, you'd need to talk to my boss", undefined)).toEqual({
+      isDecisionMaker: false,
+    });
+  });
+
+  it('reads yes and no as a decision maker answer only after that question', () => {
+    expect(extractLeadFields('Yeah', 'decisionMaker')).toEqual({ isDecisionMaker: true });
+    expect(extractLeadFields('Nope', 'decisionMaker')).toEqual({ isDecisionMaker: false });
+    expect(extractLeadFields('Yeah', undefined)).toEqual({});
+    expect(extractLeadFields('Yeah', 'email')).toEqual({});
+  });
+
+  it('captures a capitalized business name after a naming phrase', () => {
+    expect(extractLeadFields('Our business is called Smith & Sons Plumbing.', undefined)).toEqual({
+      businessName: 'Smith & Sons Plumbing',
+    });
+    expect(extractLeadFields("It's called Bella's Salon and we're pretty busy", undefined)).toEqual({
+      businessName: "Bella's Salon",
+    });
+    expect(extractLeadFields('the business is great right now', undefined)).toEqual({});
+  });
+
+  it('captures a callback time when a call is being arranged', () => {
+    expect(extractLeadFields('Call me tomorrow after 2 pm', undefined)).toEqual({ callbackTime: 'tomorrow after 2 pm' });
+    expect(extractLeadFields('Tomorrow morning works', 'callback')).toEqual({ callbackTime: 'Tomorrow morning' });
+    expect(extractLeadFields('Next Tuesday at 10:30 am', 'callback')).toEqual({ callbackTime: 'Next Tuesday at 10:30 am' });
+  });
+
+  it('ignores times when no call is being arranged', () => {
+    expect(extractLeadFields("I'm busy today", undefined)).toEqual({});
+    expect(extractLeadFields("Tomorrow I'm out of town", 'name')).toEqual({});
+  });
+
+  it('returns nothing for small talk', () => {
+    expect(extractLeadFields('Oh okay, sounds good', undefined)).toEqual({});
+  });
+});
+
+describe('Spanish calls', () => {
+  it('recognizes the lead questions', () => {
+    expect(detectLeadQuestion(undefined, '¿Me da su correo?')).toBe('email');
+    expect(detectLeadQuestion(undefined, '¿Con quién hablo?')).toBe('name');
+    expect(detectLeadQuestion(undefined, '¿Es usted el dueño?')).toBe('decisionMaker');
+    expect(detectLeadQuestion(undefined, '¿Cuándo es buen momento para llamarle?')).toBe('callback');
+  });
+
+  it('captures names, accents included', () => {
+    expect(extractLeadFields('Me llamo María José', undefined)).toEqual({ name: 'María José' });
+    expect(extractLeadFields('Soy Lucía', 'name')).toEqual({ name: 'Lucía' });
+    expect(extractLeadFields('Sí', 'name')).toEqual({});
+  });
+
+  it('tells decision makers from callers who refer the agent on', () => {
+    expect(extractLeadFields('Sí, soy el dueño', undefined)).toEqual({ isDecisionMaker: true });
+    expect(extractLeadFields('No soy el dueño, tiene que hablar con mi jefe', undefined)).toEqual({
+      isDecisionMaker: false,
+    });
+    expect(extractLeadFields('Sí, claro', 'decisionMaker')).toEqual({ isDecisionMaker: true });
+  });
+
+  it('captures email, business name and callback time', () => {
+    expect(extractLeadFields('mi correo es ana@ejemplo.com', undefined)).toEqual({ email: 'ana@ejemplo.com' });
+    expect(extractLeadFields('Nuestro negocio se llama Panadería La Esperanza.', undefined)).toEqual({
+      businessName: 'Panadería La Esperanza',
+    });
+    expect(extractLeadFields('Llámeme mañana por la tarde', undefined)).toEqual({ callbackTime: 'mañana por la tarde' });
+    expect(extractLeadFields('El jueves a las 3 de la tarde', 'callback')).toEqual({
+      callbackTime: 'El jueves a las 3 de la tarde',
+    });
+  });
+
+  it('ignores times when no call is being arranged', () => {
+    expect(extractLeadFields('Mañana tengo mucho trabajo', undefined)).toEqual({});
+  });
+});
@@ -0,0 +1,136 @@
+import { extractContactInfo } from './entity-extraction';
+import type { Lead } from '../types';
+
+export type LeadQuestion = 'email' | 'name' | 'decisionMaker' | 'callback';
+
+// Golden scripts that ask the customer for a lead detail
+const SCRIPT_QUESTIONS: Record<string, LeadQuestion> = {
+  'info-email': 'email',
+  'validate-name': 'name',
+  'decision-maker': 'decisionMaker',
+  'final-close': 'callback',
+};
+
+// Patterns cover English and Spanish calls. Spanish alternatives end in (?!\p{L}) rather than \b,
+// since \b does not count accented letters as word characters
+
+// Agent wording that asks the same thing off-script
+const QUESTION_PATTERNS: [LeadQuestion, RegExp][] = [
+  ['email', /\b(?:your|an?|the best) e-?mail\b|\bsu (?:correo|e-?mail)\b|\bcorreo electr[oó]nico/i],
+  ['name', /\byour name\b|\bwho (?:am i|i'm) speaking\b|\bwho is this\b|\bsu nombre\b|\bcon qui[eé]n hablo|\bc[oó]mo se llama/i],
+  [
+    'decisionMaker',
+    /\bin charge\b|\bthe owner\b|\bdecision\b|\bperson (?:who|that) handles\b|\bencargad[oa]\b|\bel due[nñ]o|\bla due[nñ]a|\bdecisi[oó]n|\bquien decide\b/i,
+  ],
+  [
+    'callback',
+    /\bgive you a (?:quick )?call\b|\bgood time\b|\bcall (?:you )?(?:back|later)\b|\bllamarle\b|\bbuen momento\b|\bvolver a llamar|\bllamar(?:le)? (?:m[aá]s tarde|despu[eé]s)/i,
+  ],
+];
+
+const NAME = "\\p{Lu}[\\p{Ll}'-]+(?:\\s+\\p{Lu}[\\p{Ll}'-]+)?";
+const EXPLICIT_NAME_PATTERN = new RegExp(
+  `(?:^|[^\\p{L}])(?:[Mm]y name is|[Mm]y name's|[Nn]ame's|[Mm]e llamo|[Mm]i nombre es)\\s+(${NAME})`,
+  'u'
+);
+const ANSWER_NAME_PATTERN = new RegExp(
+  `^(?:(?:[Yy]es|[Yy]eah|[Ii]t's|[Tt]his is|[Ii]'m|[Ii] am|[Ii]t is|[Ss][ií]|[Ss]oy|[Hh]abla|[Ee]s)[,\\s]+)*(${NAME})[.!]?$`,
+  'u'
+);
+
+// Capitalized words that start short answers but are never names
+const NOT_NAMES = new Set([
+  'Yes', 'Yeah', 'Yep', 'No', 'Nope', 'Sure', 'Okay', 'Ok', 'Sorry', 'Hello', 'Hi', 'Correct', 'Right', 'The', 'Me', 'Speaking',
+  'Sí', 'Si', 'Claro', 'Bueno', 'Hola', 'Perdón', 'Correcto', 'Yo', 'El', 'La', 'Mande',
+]);
+
+// Prefix is case-insensitive, the name itself must be capitalized (transcripts are smart-formatted)
+const BUSINESS_PREFIX_PATTERN =
+  /\b(?:(?:business|company|shop|store|restaurant|salon|practice|firm) is(?: called)?|we're called|we are called|it's called|business name is|the name of the business is|(?:negocio|empresa|tienda|restaurante|sal[oó]n|compañ[ií]a) se llama|nos llamamos|el nombre (?:del negocio|de la empresa) es)\s+/i;
+const BUSINESS_NAME_PATTERN =
+  /^[\p{Lu}\p{N}][\p{L}\p{N}_'&.-]*(?:\s+(?:[\p{Lu}\p{N}][\p{L}\p{N}_'&.-]*|&|and|of|the|de|del|la|y)(?!\p{L}))*/u;
+
+const IS_DECISION_MAKER_PATTERN =
+  /\b(?:i'm|i am) (?:the )?(?:owner|manager|one in charge|person in charge|decision maker)\b|\bi own (?:it|the|this)\b|\bi (?:make|handle) (?:the|all the|those) decisions\b|\b(?:yo )?soy (?:el |la )?(?:due[nñ][oa]|gerente|encargad[oa]|que decide)(?!\p{L})|\byo (?:tomo|hago) las decisiones\b|\byo decido\b/iu;
+const NOT_DECISION_MAKER_PATTERN =
+  /\b(?:i'm|i am) not (?:the )?(?:owner|manager|one in charge|person in charge|decision maker)\b|\byou(?:'d| would)? (?:need|have) to (?:talk|speak) (?:to|with)\b|\bmy (?:boss|manager)\b|\bthe owner (?:isn't|is not|'s not)\b|\bno soy (?:el |la )?(?:due[nñ][oa]|gerente|encargad[oa]|que decide)(?!\p{L})|\btiene que hablar con\b|\bmi (?:jef[ea]|patr[oó]n)(?!\p{L})|\bel due[nñ]o no est[aá](?!\p{L})/iu;
+const YES_PATTERN =
+  /^(?:yes|yeah|yep|yup|correct|that's right|that is right|sure|absolutely|i am|that's me|that would be me|uh huh)\b|^(?:s[ií]|claro|correcto|exacto|as[ií] es|soy yo|yo mero)(?![\p{L}])/iu;
+const NO_PATTERN = /^(?:no|nope|not really|not me)\b/i;
+
+const TIME_PATTERN =
+  /\b(?:later today|today|tomorrow(?: (?:morning|afternoon|evening|night))?|tonight|this (?:morning|afternoon|evening|week)|(?:next |on )?(?:monday|tuesday|wednesday|thursday|friday|saturday|sunday)(?: (?:morning|afternoon|evening))?|in the (?:morning|afternoon|evening)|(?:at |around |after |before )?\d{1,2}(?::\d{2})?\s*(?:am|pm|a\.m\.|p\.m\.|o'clock)|in (?:an|a couple of|\d+) hours?)|\b(?:m[aá]s tarde|hoy|ma[nñ]ana(?: (?:en|por) la (?:ma[nñ]ana|tarde|noche))?|esta (?:ma[nñ]ana|tarde|noche|semana)|(?:el |este |el pr[oó]ximo )?(?:lunes|martes|mi[eé]rcoles|jueves|viernes|s[aá]bado|domingo)(?: (?:en|por) la (?:ma[nñ]ana|tarde|noche))?|(?:(?:como )?a las |despu[eé]s de las |antes de las )\d{1,2}(?::\d{2})?(?: de la (?:ma[nñ]ana|tarde|noche)|\s*(?:am|pm|a\.m\.|p\.m\.))?|a la una|en (?:una|un par de|\d+) horas?)(?!\p{L})/giu;
+
+/**
+ * Which lead detail the agent just asked for (selected script first, then wording)
+ */
+export function detectLeadQuestion(scriptId: string | undefined, agentText: string | undefined): LeadQuestion | undefined {
+  if (scriptId && SCRIPT_QUESTIONS[scriptId]) return SCRIPT_QUESTIONS[scriptId];
+  if (!agentText) return undefined;
+  return QUESTION_PATTERNS.find(([, pattern]) => pattern.test(agentText))?.[0];
+}
+
+function extractName(text: string, question: LeadQuestion | undefined): string | undefined {
+  const explicit = text.match(EXPLICIT_NAME_PATTERN);
+  if (explicit) return explicit[1];
+
+  // Short answers ("It's Maria", "Dave") only count right after the name question
+  if (question !== 'name') return undefined;
+  const answer = text.trim().match(ANSWER_NAME_PATTERN);
+  if (!answer || NOT_NAMES.has(answer[1].split(/\s+/)[0])) return undefined;
+  return answer[1];
+}
+
+function extractDecisionMaker(text: string, question: LeadQuestion | undefined): boolean | undefined {
+  if (NOT_DECISION_MAKER_PATTERN.test(text)) return false;
+  if (IS_DECISION_MAKER_PATTERN.test(text)) return true;
+
+  if (question !== 'decisionMaker') return undefined;
+  const answer = text.trim();
+  if (NO_PATTERN.test(answer)) return false;
+  if (YES_PATTERN.test(answer)) return true;
+  return undefined;
+}
+
+function extractBusinessName(text: string): string | undefined {
+  const prefix = BUSINESS_PREFIX_PATTERN.exec(text);
+  if (!prefix) return undefined;
+
+  const match = text.slice(prefix.index + prefix[0].length).match(BUSINESS_NAME_PATTERN);
+  if (!match) return undefined;
+  return match[0].replace(/(?:\s+(?:and|of|the|&))+$/i, '').replace(/[.,]$/, '');
+}
+
+function extractCallbackTime(text: string, question: LeadQuestion | undefined): string | undefined {
+  if (question !== 'callback' && !/\bcall\b|\bll[aá]m/i.test(text)) return undefined;
+  const matches = text.match(TIME_PATTERN);
+  return matches ? matches.map((m) => m.trim()).join(' ') : undefined;
+}
+
+/**
+ * Pull lead details out of one caller utterance (deterministic, runs on every final segment)
+ * Only returns fields actually found; the previous agent turn gives context for short answers
+ */
+export function extractLeadFields(
+  callerText: string,
+  question: LeadQuestion | undefined
+): Partial<Omit<Lead, 'updatedAt'>> {
+  const fields: Partial<Omit<Lead, 'updatedAt'>> = {};
+
+  const email = extractContactInfo([{ speaker: 'caller', text: callerText, timestamp: 0, confidence: 1 }]).emails[0];
+  if (email) fields.email = email;
+
+  const name = extractName(callerText, question);
+  if (name) fields.name = name;
+
+  const isDecisionMaker = extractDecisionMaker(callerText, question);
+  if (isDecisionMaker !== undefined) fields.isDecisionMaker = isDecisionMaker;
+
+  const businessName = extractBusinessName(callerText);
+  if (businessName) fields.businessName = businessName;
+
+  const callbackTime = extractCallbackTime(callerText, question);
+  if (callbackTime) fields.callbackTime = callbackTime;
+
+  return fields;
+}
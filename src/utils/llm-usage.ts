@@ -0,0 +1,106 @@
+import type {
+  LLMModelPrice,
+  LLMUsageGroupBy,
+  LLMUsageRecord,
+  LLMUsageSummary,
+  LLMUsageTotals,
+} from '../types';
+
+// USD per million tokens; LLM_PRICES_PATH entries are merged over these
+export const DEFAULT_LLM_PRICES: Record<string, LLMModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'claude-3-5-haiku-latest': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet-latest': { input: 3, output: 15 },
+  mock: { input: 0, output: 0 },
+};
+
+/**
+ * Price of a model: exact match, else the longest entry the model name starts with
+ * (providers report dated names such as gpt-4o-mini-2024-07-18)
+ */
+export function priceFor(model: string, prices: Record<string, LLMModelPrice>): LLMModelPrice | undefined {
+  if (prices[model]) return prices[model];
+
+  const prefix = Object.keys(prices)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : undefined;
+}
+
+/**
+ * Cost in USD of one request
+ */
+export function usageCost(price: LLMModelPrice, inputTokens: number, outputTokens: number): number {
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Rough token count of text the provider did not report on (about 4 characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * UTC day (YYYY-MM-DD) a timestamp falls on; budgets reset per UTC day
+ */
+export function usageDay(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * Round a USD amount for display (micro-dollar precision)
+ */
+export function roundUsd(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+function groupKey(record: LLMUsageRecord, groupBy: LLMUsageGroupBy): string {
+  switch (groupBy) {
+    case 'agent':
+      return record.agentId || 'unknown';
+    case 'conversation':
+      return record.conversationId || 'none';
+    case 'operation':
+      return record.operation;
+    case 'model':
+      return `${record.provider}/${record.model}`;
+    case 'day':
+      return usageDay(record.timestamp);
+  }
+}
+
+function totals(records: LLMUsageRecord[]): LLMUsageTotals {
+  return {
+    requests: records.length,
+    inputTokens: records.reduce((sum, record) => sum + record.inputTokens, 0),
+    outputTokens: records.reduce((sum, record) => sum + record.outputTokens, 0),
+    costUsd: roundUsd(records.reduce((sum, record) => sum + record.costUsd, 0)),
+  };
+}
+
+/**
+ * Totals for a set of usage records, optionally broken down by agent, conversation, operation, model or day
+ */
+export function summarizeUsage(records: LLMUsageRecord[], groupBy?: LLMUsageGroupBy): LLMUsageSummary {
+  const summary: LLMUsageSummary = {
+    ...totals(records),
+    unpricedRequests: records.filter((record) => !record.priced).length,
+    estimatedRequests: records.filter((record) => record.estimated).length,
+  };
+
+  if (groupBy) {
+    const groups = new Map<string, LLMUsageRecord[]>();
+    for (const record of records) {
+      const key = groupKey(record, groupBy);
+      groups.set(key, [...(groups.get(key) || []), record]);
+    }
+
+    summary.groups = Array.from(groups, ([key, grouped]) => ({ key, ...totals(grouped) })).sort(
+      (a, b) => b.costUsd - a.costUsd
+    );
+  }
+
+  return summary;
+}
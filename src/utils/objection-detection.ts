@@ -0,0 +1,37 @@
+import type { ObjectionType } from '../types';
+
+// Checked in order against each caller segment; first match wins.
+// English, then Spanish (no \b after accented letters: JavaScript does not count them as word characters)
+const OBJECTION_PATTERNS: [ObjectionType, RegExp][] = [
+  [
+    'do_not_call',
+    /\b(?:stop calling|don't call|do not call|take (?:me|us|my number) off|remove (?:me|us|my number))\b|\bno (?:me |nos )?(?:vuelva|vuelvan) a llamar|\bdej(?:e|en) de llamar|\bborr(?:e|en) mi número/i,
+  ],
+  [
+    'send_email',
+    /\bjust (?:send|email) (?:me|us|it)\b|\b(?:send|email) me (?:something|the info|some info|an email)\b|\b(?:m[aá]nde|env[ií]e)(?:me|nos)(?:lo)? (?:un correo|la informaci|la info|algo)/i,
+  ],
+  [
+    'has_website',
+    /\b(?:already )?(?:have|got) (?:a |an |our |my )?(?:website|site|web ?page|web designer|web guy)\b|\bsomeone (?:already )?(?:does|handles|built) (?:it|that|our|my)\b|\bya (?:tengo|tenemos) (?:una |un |mi |nuestra )?(?:p[aá]gina|sitio)/i,
+  ],
+  [
+    'too_expensive',
+    /\btoo expensive\b|\bcan't afford\b|\bno budget\b|\bdon't have the (?:money|budget)\b|\b(?:muy|demasiado) caro|\bno (?:tengo|tenemos) presupuesto/i,
+  ],
+  [
+    'busy',
+    /\b(?:i'm|we're|i am|we are) (?:kind of |pretty |really |too |very )?busy\b|\bnot a good time\b|\bin the middle of\b|\bno time\b|\b(?:estoy|estamos) (?:muy |un poco )?ocupad[oa]s?\b|\bno es (?:un )?buen momento|\bno tengo tiempo/i,
+  ],
+  [
+    'not_interested',
+    /\bnot interested\b|\bno,? thanks?\b|\bno thank you\b|\bwe're (?:good|fine|all set)\b|\bnot (?:right )?now\b|\bdon't need (?:it|that|one|a website)\b|\bno (?:me |nos )?interesa|\bno,? gracias\b|\bno (?:lo )?necesit(?:o|amos)\b/i,
+  ],
+];
+
+/**
+ * Kind of rejection in a caller segment, if any
+ */
+export function detectObjection(callerText: string): ObjectionType | undefined {
+  return OBJECTION_PATTERNS.find(([, pattern]) => pattern.test(callerText))?.[0];
+}
@@ -0,0 +1,38 @@
+/**
+ * Fields readable from an incomplete (still streaming) tip JSON response
+ */
+export interface PartialTipFields {
+  heading?: string;
+  stage?: string;
+  scriptId?: string; // First option's golden script id
+}
+
+/**
+ * Value of a "key": "value" pair once its closing quote has arrived
+ */
+function completedString(text: string, key: string): string | undefined {
+  const match = text.match(new RegExp(`"${key}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)"`));
+  if (!match) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(`"${match[1]}"`);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read heading, stage and the first script id from a streamed tip response
+ * Tolerates markdown fences and truncation; fields still in flight are undefined
+ */
+export function parsePartialTip(text: string): PartialTipFields {
+  const optionsStart = text.indexOf('"options"');
+
+  return {
+    heading: completedString(text, 'heading'),
+    stage: completedString(text, 'stage'),
+    scriptId: optionsStart >= 0 ? completedString(text.slice(optionsStart), 'id') : undefined,
+  };
+}
@@ -0,0 +1,11 @@
+/**
+ * Parse a date query param (ms epoch or ISO 8601 string)
+ * undefined when absent, null when invalid
+ */
+export function parseDate(value: unknown): number | undefined | null {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string') return null;
+
+  const timestamp = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isNaN(timestamp) ? null : timestamp;
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { enforceGoldenScripts, fillPlaceholders, listPlaceholders } from './script-enforcement';
+import { setPublishedLibrary } from './golden-library';
+import type { QualityScript } from '../types';
+
+const PLAYBOOK_ID = 'enforcement-test';
+
+const SCRIPTS: QualityScript[] = [
+  {
+    id: 'intro',
+    stage: 'GREETING',
+    label: 'Intro',
+    text: 'Hi [Customer Name], this is [Agent Name] from [Company].',
+    translations: { es: { label: 'Presentación', text: 'Hola [Customer Name], le habla [Agent Name] de [Company].' } },
+  },
+  {
+    id: 'hook',
+    stage: 'VALUE_PROP',
+    label: 'Hook',
+    text: 'We build affordable websites for local businesses here in [Location], starting this week.',
+  },
+  { id: 'close', stage: 'CLOSING', label: 'Close', text: 'Can I call you back tomorrow?' },
+];
+
+setPublishedLibrary(PLAYBOOK_ID, 4, SCRIPTS);
+
+const VALUES = { 'Customer Name': 'Maria', 'Agent Name': 'Dave', Location: 'Folsom' };
+
+function enforce(rawOptions: unknown, offeredIds?: string[]) {
+  return enforceGoldenScripts(rawOptions, VALUES, PLAYBOOK_ID, undefined, offeredIds);
+}
+
+describe('enforceGoldenScripts', () => {
+  it('takes the text and label of a known id from the library, whatever the model wrote', () => {
+    const result = enforce([{ id: 'close', label: 'Invented', script: 'Can we talk again next month?' }]);
+
+    expect(result.options).toEqual([{ id: 'close', label: 'Close', script: 'Can I call you back tomorrow?' }]);
+    expect(result.corrected).toEqual([{ id: 'close', reason: 'text_replaced' }]);
+    expect(result.rejected).toEqual([]);
+    expect(result.libraryVersion).toBe(4);
+  });
+
+  it('does not count the library text, filled or not, as a correction', () => {
+    expect(enforce([{ id: 'close', script: 'Can I call you back tomorrow?' }]).corrected).toEqual([]);
+    expect(enforce([{ id: 'hook', script: SCRIPTS[1].text }]).corrected).toEqual([]);
+  });
+
+  it('matches an option without a known id to a nearly identical script', () => {
+    const result = enforce([
+      { script: 'We make affordable websites for small businesses here in Folsom starting this week' },
+    ]);
+
+    expect(result.options.map((option) => option.id)).toEqual(['hook']);
+    expect(result.options[0].script).toBe(
+      'We build affordable websites for local businesses here in Folsom, starting this week.'
+    );
+    expect(result.corrected).toEqual([{ id: 'hook', reason: 'matched_by_text' }]);
+  });
+
+  it('rejects text that is only loosely like a script', () => {
+    const result = enforce([
+      { script: 'Websites for local businesses, affordable, we build them' },
+      { id: 'made-up', script: 'We build cheap sites for shops around here' },
+    ]);
+
+    expect(result.options).toEqual([]);
+    expect(result.rejected).toEqual([
+      { id: undefined, script: 'Websites for local businesses, affordable, we build them', reason: 'no_match' },
+      { id: 'made-up', script: 'We build cheap sites for shops around here', reason: 'unknown_id' },
+    ]);
+  });
+
+  it('rejects invalid and duplicate options', () => {
+    const result = enforce([{ id: 'close' }, { id: 'close' }, { label: 'No id or text' }, 'close']);
+
+    expect(result.options.map((option) => option.id)).toEqual(['close']);
+    expect(result.rejected).toEqual([
+      { id: 'close', reason: 'duplicate' },
+      { reason: 'invalid' },
+      { reason: 'invalid' },
+    ]);
+    expect(enforce('not an array').rejected).toEqual([]);
+  });
+
+  it('only approves the offered scripts when given a list', () => {
+    const result = enforce([{ id: 'close' }, { id: 'hook' }, { script: 'Can I call you back tomorrow?' }], ['hook']);
+
+    expect(result.options.map((option) => option.id)).toEqual(['hook']);
+    expect(result.rejected).toEqual([
+      { id: 'close', script: undefined, reason: 'not_offered' },
+      { id: undefined, script: 'Can I call you back tomorrow?', reason: 'no_match' },
+    ]);
+  });
+
+  it('fills placeholders and lists the ones without a value', () => {
+    const result = enforce([{ id: 'intro' }, { id: 'hook' }]);
+
+    expect(result.options.map((option) => option.script)).toEqual([
+      'Hi Maria, this is Dave from [Company].',
+      'We build affordable websites for local businesses here in Folsom, starting this week.',
+    ]);
+    expect(result.unresolved).toEqual(['Company']);
+  });
+
+  it('uses the translation for the call language and English otherwise', () => {
+    const result = enforceGoldenScripts([{ id: 'intro' }, { id: 'close' }], VALUES, PLAYBOOK_ID, 'es');
+
+    expect(result.options).toEqual([
+      { id: 'intro', label: 'Presentación', script: 'Hola Maria, le habla Dave de [Company].' },
+      { id: 'close', label: 'Close', script: 'Can I call you back tomorrow?' },
+    ]);
+  });
+
+  it('approves nothing for a playbook without a published library', () => {
+    const result = enforceGoldenScripts([{ id: 'close' }], VALUES, 'not-loaded');
+
+    expect(result.options).toEqual([]);
+    expect(result.rejected).toEqual([{ id: 'close', script: undefined, reason: 'unknown_id' }]);
+    expect(result.libraryVersion).toBeUndefined();
+  });
+});
+
+describe('placeholders', () => {
+  it('lists each placeholder once, trimmed', () => {
+    expect(listPlaceholders('[ Agent Name ] and [Location], [Agent Name]')).toEqual(['Agent Name', 'Location']);
+  });
+
+  it('leaves placeholders without a value as they are', () => {
+    expect(fillPlaceholders('Hi [Customer Name] in [Location]', { Location: 'Folsom' })).toBe(
+      'Hi [Customer Name] in Folsom'
+    );
+  });
+});
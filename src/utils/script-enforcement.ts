@@ -0,0 +1,134 @@
+import { scoreAdherence } from './adherence';
+import { publishedLibraryVersion, publishedScripts } from './golden-library';
+import { localizeScript } from './language';
+import type { DialogueOption, PlaceholderValues, QualityScript, ScriptLanguage } from '../types';
+
+// Placeholder in a golden script, e.g. [Customer Name]
+const PLACEHOLDER_PATTERN = /\[([^\]]+)\]/g;
+
+// An option without a valid id is mapped to the library script it is closest to,
+// but only if the text is nearly the same (otherwise it is rejected)
+const TEXT_MATCH_THRESHOLD = 0.7;
+
+// Last-resort fallbacks; [Agent Name] has none so agents never introduce themselves as someone else
+export const DEFAULT_PLACEHOLDER_VALUES: PlaceholderValues = {
+  Location: 'Sacramento',
+  'Customer Name': 'there',
+};
+
+export interface ScriptEnforcementResult {
+  options: DialogueOption[];
+  unresolved: string[]; // Placeholders in the approved options that had no value
+  corrected: { id: string; reason: 'text_replaced' | 'matched_by_text' }[];
+  rejected: {
+    id?: string;
+    script?: string;
+    reason: 'unknown_id' | 'not_offered' | 'no_match' | 'duplicate' | 'invalid';
+  }[];
+  libraryVersion?: number; // Published library version the options came from
+}
+
+/**
+ * Placeholder names used in a script, without brackets
+ */
+export function listPlaceholders(text: string): string[] {
+  return Array.from(new Set(Array.from(text.matchAll(PLACEHOLDER_PATTERN), (match) => match[1].trim())));
+}
+
+/**
+ * Replace [Placeholder] tokens; unknown placeholders are left as-is
+ */
+export function fillPlaceholders(text: string, values: PlaceholderValues): string {
+  return text.replace(PLACEHOLDER_PATTERN, (token, name: string) => values[name.trim()] ?? token);
+}
+
+function closestScript(
+  text: string,
+  library: QualityScript[],
+  language?: ScriptLanguage
+): { script: QualityScript; score: number } | undefined {
+  return library
+    .map((script) => ({ script, score: scoreAdherence(localizeScript(script, language).text, text).score }))
+    .reduce<{ script: QualityScript; score: number } | undefined>(
+      (best, candidate) => (!best || candidate.score > best.score ? candidate : best),
+      undefined
+    );
+}
+
+/**
+ * Turn the model's options into approved golden scripts
+ *
+ * The text always comes from the playbook's published script library (looked up by id) with
+ * placeholders filled server-side, never from the model. Options without a known id are matched
+ * to the library by text or rejected. Label and text are in the call's language where the
+ * script has a translation, English otherwise. With offeredIds only those library scripts are
+ * approved (the ones the prompt offered); other library ids are rejected as not offered.
+ */
+export function enforceGoldenScripts(
+  rawOptions: unknown,
+  values: PlaceholderValues,
+  playbookId?: string,
+  language?: ScriptLanguage,
+  offeredIds?: string[]
+): ScriptEnforcementResult {
+  const published = publishedScripts(playbookId);
+  const library = offeredIds ? published.filter((script) => offeredIds.includes(script.id)) : published;
+  const result: ScriptEnforcementResult = {
+    options: [],
+    unresolved: [],
+    corrected: [],
+    rejected: [],
+    libraryVersion: publishedLibraryVersion(playbookId),
+  };
+  const seen = new Set<string>();
+
+  for (const raw of Array.isArray(rawOptions) ? rawOptions : []) {
+    const id = typeof raw?.id === 'string' ? raw.id.trim() : undefined;
+    const text = typeof raw?.script === 'string' ? raw.script : undefined;
+
+    if (!id && !text) {
+      result.rejected.push({ reason: 'invalid' });
+      continue;
+    }
+
+    let script = id ? library.find((s) => s.id === id) : undefined;
+    if (!script && id && published.some((s) => s.id === id)) {
+      result.rejected.push({ id, script: text, reason: 'not_offered' });
+      continue;
+    }
+
+    if (script) {
+      const template = localizeScript(script, language).text;
+      if (text && fillPlaceholders(template, values) !== text && text !== template) {
+        result.corrected.push({ id: script.id, reason: 'text_replaced' });
+      }
+    } else {
+      const closest = text ? closestScript(text, library, language) : undefined;
+      if (!closest || closest.score < TEXT_MATCH_THRESHOLD) {
+        result.rejected.push({ id, script: text, reason: id ? 'unknown_id' : 'no_match' });
+        continue;
+      }
+      script = closest.script;
+      result.corrected.push({ id: script.id, reason: 'matched_by_text' });
+    }
+
+    if (seen.has(script.id)) {
+      result.rejected.push({ id: script.id, reason: 'duplicate' });
+      continue;
+    }
+    seen.add(script.id);
+
+    const localized = localizeScript(script, language);
+    listPlaceholders(localized.text)
+      .filter((name) => values[name] === undefined && !result.unresolved.includes(name))
+      .forEach((name) => result.unresolved.push(name));
+
+    result.options.push({
+      id: script.id,
+      label: localized.label,
+      script: fillPlaceholders(localized.text, values),
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import { parseScriptFile, renderScriptFile, scriptFileFormat } from './script-files';
+import type { QualityScript } from '../types';
+
+const HEADER = 'id,stage,label,text,condition,next,label_es,text_es';
+
+const SCRIPTS: QualityScript[] = [
+  {
+    id: 'ask-website',
+    stage: 'DISCOVERY',
+    label: 'Website',
+    text: 'Do you have a website, "Mr. Smith"?\nJust curious.',
+    condition: 'After the intro, before pitching',
+    next: [
+      { intent: 'has-website', scriptId: 'pitch' },
+      { intent: 'no-website', scriptId: 'ask-callback' },
+    ],
+    translations: { es: { label: 'Sitio web', text: '¿Tiene un sitio web?' } },
+  },
+  { id: 'pitch', stage: 'VALUE_PROP', label: 'Pitch', text: 'We build websites for local businesses.' },
+];
+
+function csv(...rows: string[]): string {
+  return [HEADER, ...rows].join('\r\n') + '\r\n';
+}
+
+describe('parseScriptFile (CSV)', () => {
+  it('reads quoted fields holding commas, escaped quotes and new lines', () => {
+    const { scripts, errors } = parseScriptFile(
+      'csv',
+      csv('intro,GREETING,Intro,"Hi, this is ""Dave""\nfrom Acme",,listening:ask-website,,')
+    );
+
+    expect(errors).toEqual([]);
+    expect(scripts).toEqual([
+      {
+        id: 'intro',
+        stage: 'GREETING',
+        label: 'Intro',
+        text: 'Hi, this is "Dave"\nfrom Acme',
+        next: [{ intent: 'listening', scriptId: 'ask-website' }],
+      },
+    ]);
+  });
+
+  it('ignores a byte order mark, blank rows and column order and case', () => {
+    const body = '\uFEFFText,ID,Stage,Label\n\nWe build websites.,pitch,VALUE_PROP,Pitch\n,,,\n';
+
+    expect(parseScriptFile('csv', body)).toEqual({
+      scripts: [{ id: 'pitch', stage: 'VALUE_PROP', label: 'Pitch', text: 'We build websites.' }],
+      errors: [],
+    });
+  });
+
+  it('reads transitions separated by semicolons or new lines', () => {
+    const { scripts } = parseScriptFile('csv', csv('ask,DISCOVERY,Ask,Ask?,,"yes:pitch;\nno : close",,'));
+
+    expect(scripts[0].next).toEqual([
+      { intent: 'yes', scriptId: 'pitch' },
+      { intent: 'no', scriptId: 'close' },
+    ]);
+  });
+
+  it('reports an unterminated quoted field as unreadable', () => {
+    const { scripts, errors } = parseScriptFile('csv', csv('intro,GREETING,Intro,"Hi there'));
+
+    expect(scripts).toEqual([]);
+    expect(errors).toEqual([{ row: 0, problems: ['Unreadable CSV: unterminated quoted field in row 2'] }]);
+  });
+
+  it('reports missing and unknown columns on the header row', () => {
+    const { errors } = parseScriptFile('csv', 'id,stage,label,script\npitch,VALUE_PROP,Pitch,Hello\n');
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].row).toBe(1);
+    expect(errors[0].problems[0]).toBe('missing column "text"');
+    expect(errors[0].problems[1]).toMatch(/^unknown column "script" \(columns: id, stage, label, text/);
+  });
+
+  it('reports every invalid row with its spreadsheet row number and imports nothing', () => {
+    const { scripts, errors } = parseScriptFile(
+      'csv',
+      csv(
+        'intro,GREETING,Intro,Hi,,,,',
+        'pitch,SMALL_TALK,Pitch,,,,,',
+        'close,CLOSING,Close,Bye,,agrees,,',
+        'intro,GREETING,Again,Hello,,,,',
+        'extra,GREETING,Extra,Hi,,,,,surplus'
+      )
+    );
+
+    expect(scripts).toEqual([]);
+    expect(errors).toEqual([
+      {
+        row: 3,
+        scriptId: 'pitch',
+        problems: [expect.stringMatching(/^stage must be one of GREETING/), 'text is required'],
+      },
+      { row: 4, scriptId: 'close', problems: ['next: "agrees" must be intent:scriptId'] },
+      { row: 5, scriptId: 'intro', problems: ['id "intro" already used in row 2'] },
+      { row: 6, scriptId: 'extra', problems: ['9 cells for 8 columns'] },
+    ]);
+  });
+
+  it('needs both translation cells of a language', () => {
+    const { errors } = parseScriptFile('csv', csv('intro,GREETING,Intro,Hi,,,Saludo,'));
+
+    expect(errors).toEqual([{ row: 2, scriptId: 'intro', problems: ['translations.es: text is required'] }]);
+  });
+
+  it('reports a file without scripts', () => {
+    expect(parseScriptFile('csv', csv()).errors).toEqual([{ row: 0, problems: ['the file has no scripts'] }]);
+  });
+});
+
+describe('parseScriptFile (YAML)', () => {
+  it('reports unreadable YAML with its line', () => {
+    const { errors } = parseScriptFile('yaml', '- id: intro\n  stage: [GREETING\n');
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].row).toBe(0);
+    expect(errors[0].problems[0]).toMatch(/^Unreadable YAML: .+ \(line \d+\)$/);
+  });
+
+  it('needs a list of mappings with known fields', () => {
+    expect(parseScriptFile('yaml', 'id: intro\n').errors).toEqual([
+      { row: 0, problems: ['YAML must be a list of scripts'] },
+    ]);
+
+    const { errors } = parseScriptFile(
+      'yaml',
+      '- just text\n- id: pitch\n  stage: VALUE_PROP\n  label: Pitch\n  text: Hello\n  script: Hi\n'
+    );
+    expect(errors[0]).toMatchObject({ row: 1, problems: expect.arrayContaining(['must be a mapping of script fields']) });
+    expect(errors[1]).toMatchObject({ row: 2, scriptId: 'pitch' });
+    expect(errors[1].problems[0]).toMatch(/^unknown field "script"/);
+  });
+});
+
+describe('renderScriptFile', () => {
+  it('round-trips a library through CSV, translations included', () => {
+    const body = renderScriptFile('csv', SCRIPTS);
+
+    expect(body.split('\r\n')[0]).toBe(HEADER);
+    expect(body).toContain('has-website:pitch; no-website:ask-callback,Sitio web,¿Tiene un sitio web?');
+    expect(parseScriptFile('csv', body)).toEqual({ scripts: SCRIPTS, errors: [] });
+  });
+
+  it('round-trips a library through YAML', () => {
+    expect(parseScriptFile('yaml', renderScriptFile('yaml', SCRIPTS))).toEqual({ scripts: SCRIPTS, errors: [] });
+  });
+});
+
+describe('scriptFileFormat', () => {
+  it('prefers ?format= over the Content-Type', () => {
+    expect(scriptFileFormat('CSV', 'application/yaml')).toBe('csv');
+    expect(scriptFileFormat('xlsx', 'text/csv')).toBeUndefined();
+    expect(scriptFileFormat(undefined, 'text/yaml; charset=utf-8')).toBe('yaml');
+    expect(scriptFileFormat(undefined, 'text/plain')).toBeUndefined();
+  });
+});
@@ -0,0 +1,281 @@
+import { dump, load } from 'js-yaml';
+import { validateScript } from './script-library';
+import { DEFAULT_LANGUAGE, SCRIPT_LANGUAGES } from '../constants/languages';
+import type { QualityScript, ScriptFileFormat, ScriptImportError, ScriptTransition } from '../types';
+
+export const SCRIPT_FILE_FORMATS: ScriptFileFormat[] = ['yaml', 'csv'];
+
+export const SCRIPT_FILE_CONTENT_TYPES: Record<ScriptFileFormat, string> = {
+  yaml: 'application/yaml; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+};
+
+// Request Content-Types read as a script file (the format comes from ?format= or the type)
+export const SCRIPT_FILE_MEDIA_TYPES = [
+  'text/csv',
+  'application/yaml',
+  'application/x-yaml',
+  'text/yaml',
+  'text/x-yaml',
+  'text/plain',
+];
+
+// Translations get a label and text column per language (label_es, text_es)
+const TRANSLATED = SCRIPT_LANGUAGES.filter((language) => language !== DEFAULT_LANGUAGE);
+const CSV_COLUMNS = [
+  'id',
+  'stage',
+  'label',
+  'text',
+  'condition',
+  'next',
+  ...TRANSLATED.flatMap((language) => [`label_${language}`, `text_${language}`]),
+];
+const REQUIRED_CSV_COLUMNS = ['id', 'stage', 'label', 'text'];
+const YAML_FIELDS = ['id', 'stage', 'label', 'text', 'condition', 'next', 'translations'];
+
+export interface ParsedScriptFile {
+  scripts: QualityScript[];
+  errors: ScriptImportError[];
+}
+
+/**
+ * Script file format of an import: ?format= first, then the Content-Type (undefined when neither says)
+ */
+export function scriptFileFormat(format: unknown, contentType?: string): ScriptFileFormat | undefined {
+  if (typeof format === 'string' && format) {
+    return SCRIPT_FILE_FORMATS.find((candidate) => candidate === format.toLowerCase());
+  }
+  if (contentType?.includes('csv')) return 'csv';
+  if (contentType?.includes('yaml')) return 'yaml';
+  return undefined;
+}
+
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Transitions in one spreadsheet cell: "intent:scriptId" pairs separated by ; or new lines
+ */
+function formatTransitions(next?: ScriptTransition[]): string {
+  return (next || []).map((transition) => `${transition.intent}:${transition.scriptId}`).join('; ');
+}
+
+function parseTransitions(cell: string): { next?: ScriptTransition[]; problems: string[] } {
+  const pairs = cell
+    .split(/[;\n]/)
+    .map((pair) => pair.trim())
+    .filter(Boolean);
+  if (pairs.length === 0) return { problems: [] };
+
+  const problems: string[] = [];
+  const next = pairs.flatMap((pair) => {
+    const separator = pair.indexOf(':');
+    if (separator <= 0) {
+      problems.push(`next: "${pair}" must be intent:scriptId`);
+      return [];
+    }
+    return [{ intent: pair.slice(0, separator).trim(), scriptId: pair.slice(separator + 1).trim() }];
+  });
+  return { next, problems };
+}
+
+/**
+ * Library as a file: YAML list of scripts, or CSV with one script per row
+ */
+export function renderScriptFile(format: ScriptFileFormat, scripts: QualityScript[]): string {
+  if (format === 'yaml') {
+    return dump(scripts, { lineWidth: -1, noRefs: true });
+  }
+
+  const rows = scripts.map((script) => [
+    script.id,
+    script.stage,
+    script.label,
+    script.text,
+    script.condition,
+    formatTransitions(script.next),
+    ...TRANSLATED.flatMap((language) => [script.translations?.[language]?.label, script.translations?.[language]?.text]),
+  ]);
+  return [CSV_COLUMNS, ...rows].map((fields) => fields.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * CSV records (RFC 4180: quoted fields may hold commas, quotes and new lines)
+ * Throws on an unterminated quoted field
+ */
+function parseCsv(body: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < body.length; index++) {
+    const char = body[index];
+
+    if (quoted) {
+      if (char === '"' && body[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && body[index + 1] === '\n') index++;
+      records.push([...record, field]);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error(`unterminated quoted field in row ${records.length + 1}`);
+  }
+  if (field !== '' || record.length > 0) {
+    records.push([...record, field]);
+  }
+  return records;
+}
+
+function parseCsvFile(body: string): ParsedScriptFile {
+  let records: string[][];
+  try {
+    records = parseCsv(body);
+  } catch (error: any) {
+    return { scripts: [], errors: [{ row: 0, problems: [`Unreadable CSV: ${error.message}`] }] };
+  }
+
+  const header = (records[0] || []).map((column) => column.trim().toLowerCase());
+  const unknown = header.filter((column) => !CSV_COLUMNS.includes(column));
+  const missing = REQUIRED_CSV_COLUMNS.filter((column) => !header.includes(column));
+  if (unknown.length > 0 || missing.length > 0) {
+    return {
+      scripts: [],
+      errors: [
+        {
+          row: 1,
+          problems: [
+            ...missing.map((column) => `missing column "${column}"`),
+            ...unknown.map((column) => `unknown column "${column}" (columns: ${CSV_COLUMNS.join(', ')})`),
+          ],
+        },
+      ],
+    };
+  }
+
+  const entries: Array<{ row: number; script: Partial<QualityScript>; problems: string[] }> = [];
+  records.slice(1).forEach((record, index) => {
+    if (record.every((cell) => !cell.trim())) return; // Blank spreadsheet rows
+
+    const cells = Object.fromEntries(header.map((column, position) => [column, (record[position] ?? '').trim()]));
+    const transitions = parseTransitions(cells.next || '');
+    const problems = [...transitions.problems];
+    // A translation needs both cells; one left empty is reported by the script checks
+    const translations = Object.fromEntries(
+      TRANSLATED.filter((language) => cells[`label_${language}`] || cells[`text_${language}`]).map((language) => [
+        language,
+        { label: cells[`label_${language}`], text: cells[`text_${language}`] },
+      ])
+    );
+    if (record.length > header.length && record.slice(header.length).some((cell) => cell.trim())) {
+      problems.push(`${record.length} cells for ${header.length} columns`);
+    }
+
+    entries.push({
+      row: index + 2,
+      script: {
+        id: cells.id,
+        stage: cells.stage as QualityScript['stage'],
+        label: cells.label,
+        text: cells.text,
+        ...(cells.condition ? { condition: cells.condition } : {}),
+        ...(transitions.next ? { next: transitions.next } : {}),
+        ...(Object.keys(translations).length > 0 ? { translations } : {}),
+      },
+      problems,
+    });
+  });
+
+  return validateEntries(entries);
+}
+
+function parseYamlFile(body: string): ParsedScriptFile {
+  let document: unknown;
+  try {
+    document = load(body);
+  } catch (error: any) {
+    const line = error.mark ? ` (line ${error.mark.line + 1})` : '';
+    return { scripts: [], errors: [{ row: 0, problems: [`Unreadable YAML: ${error.reason || error.message}${line}`] }] };
+  }
+
+  if (!Array.isArray(document)) {
+    return { scripts: [], errors: [{ row: 0, problems: ['YAML must be a list of scripts'] }] };
+  }
+
+  return validateEntries(
+    document.map((item, index) => {
+      if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+        return { row: index + 1, script: {}, problems: ['must be a mapping of script fields'] };
+      }
+      const unknown = Object.keys(item).filter((key) => !YAML_FIELDS.includes(key));
+      return {
+        row: index + 1,
+        script: item as Partial<QualityScript>,
+        problems: unknown.map((key) => `unknown field "${key}" (fields: ${YAML_FIELDS.join(', ')})`),
+      };
+    })
+  );
+}
+
+/**
+ * Script checks of every entry plus ids used twice in the file
+ */
+function validateEntries(
+  entries: Array<{ row: number; script: Partial<QualityScript>; problems: string[] }>
+): ParsedScriptFile {
+  const errors: ScriptImportError[] = [];
+  const seen = new Map<string, number>();
+
+  for (const { row, script, problems } of entries) {
+    const all = [...problems, ...validateScript(script)];
+    if (typeof script.id === 'string' && seen.has(script.id)) {
+      all.push(`id "${script.id}" already used in row ${seen.get(script.id)}`);
+    } else if (typeof script.id === 'string') {
+      seen.set(script.id, row);
+    }
+
+    if (all.length > 0) {
+      errors.push({ row, ...(typeof script.id === 'string' && script.id ? { scriptId: script.id } : {}), problems: all });
+    }
+  }
+
+  if (entries.length === 0) {
+    errors.push({ row: 0, problems: ['the file has no scripts'] });
+  }
+
+  return { scripts: errors.length > 0 ? [] : (entries.map((entry) => entry.script) as QualityScript[]), errors };
+}
+
+/**
+ * Scripts of a YAML or CSV file, or the problems of every row that is not a valid script
+ * (no scripts at all when any row is invalid)
+ */
+export function parseScriptFile(format: ScriptFileFormat, body: string): ParsedScriptFile {
+  const text = body.replace(/^\uFEFF/, ''); // Spreadsheet exports often start with a BOM
+  return format === 'yaml' ? parseYamlFile(text) : parseCsvFile(text);
+}
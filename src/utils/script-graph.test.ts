@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { buildScriptGraph, currentScriptId, nextScripts, renderGraphviz } from './script-graph';
+import type { ConversationStage, QualityScript, ScriptGraphIssue } from '../types';
+
+function script(id: string, stage: ConversationStage, next: Array<[string, string]> = []): QualityScript {
+  return {
+    id,
+    stage,
+    label: id,
+    text: `Text of ${id}`,
+    next: next.map(([intent, scriptId]) => ({ intent, scriptId })),
+  };
+}
+
+const LIBRARY = [
+  script('intro', 'GREETING', [['listening', 'ask-website']]),
+  script('ask-website', 'DISCOVERY', [
+    ['has-website', 'pitch'],
+    ['no-website', 'ask-callback'],
+  ]),
+  script('pitch', 'VALUE_PROP', [['interested', 'ask-callback']]),
+  script('ask-callback', 'CLOSING', [['agrees', 'confirm']]),
+  script('confirm', 'CONVERSION'),
+];
+
+function issueKinds(issues: ScriptGraphIssue[]): Array<[string, string]> {
+  return issues.map((issue) => [issue.kind, issue.scriptId]);
+}
+
+describe('buildScriptGraph', () => {
+  it('finds no problems in a connected library that ends in CONVERSION', () => {
+    const graph = buildScriptGraph(LIBRARY);
+
+    expect(graph.issues).toEqual([]);
+    expect(graph.edges).toHaveLength(5);
+    expect(graph.nodes.find((node) => node.id === 'intro')).toMatchObject({ entry: true, terminal: false });
+    expect(graph.nodes.find((node) => node.id === 'confirm')).toMatchObject({ entry: false, terminal: true });
+  });
+
+  it('reports transitions to scripts that are not in the library', () => {
+    const graph = buildScriptGraph([...LIBRARY, script('x', 'GREETING', [['maybe', 'missing']])]);
+
+    expect(graph.issues).toContainEqual(
+      expect.objectContaining({ kind: 'unknown_target', scriptId: 'x', intent: 'maybe', targetId: 'missing' })
+    );
+    expect(graph.edges.some((edge) => edge.to === 'missing')).toBe(false);
+  });
+
+  it('reports stage moves the tracker refuses but keeps the edge', () => {
+    const graph = buildScriptGraph([
+      script('intro', 'GREETING', [['agrees', 'ask-callback']]),
+      script('ask-callback', 'CLOSING', [['agrees', 'confirm']]),
+      script('confirm', 'CONVERSION'),
+    ]);
+
+    expect(issueKinds(graph.issues)).toEqual([['stage_move', 'intro']]);
+    expect(graph.edges).toContainEqual({ from: 'intro', to: 'ask-callback', intent: 'agrees' });
+  });
+
+  it('reports scripts no GREETING script leads to', () => {
+    const graph = buildScriptGraph([...LIBRARY, script('orphan', 'VALUE_PROP', [['interested', 'ask-callback']])]);
+
+    expect(issueKinds(graph.issues)).toEqual([['unreachable', 'orphan']]);
+  });
+
+  it('reports scripts before CONVERSION with no way forward', () => {
+    const graph = buildScriptGraph([
+      script('intro', 'GREETING', [['listening', 'ask-website']]),
+      script('ask-website', 'DISCOVERY'),
+    ]);
+
+    expect(issueKinds(graph.issues)).toEqual([['dead_end', 'ask-website']]);
+  });
+
+  it('counts a script whose only transition is unknown as a dead end', () => {
+    const graph = buildScriptGraph([script('intro', 'GREETING', [['listening', 'missing']])]);
+
+    expect(issueKinds(graph.issues)).toEqual([
+      ['unknown_target', 'intro'],
+      ['dead_end', 'intro'],
+    ]);
+  });
+});
+
+describe('nextScripts', () => {
+  it('lists the scripts a script leads to with their intents', () => {
+    expect(nextScripts(LIBRARY, 'ask-website').map(({ script, intent }) => [intent, script.id])).toEqual([
+      ['has-website', 'pitch'],
+      ['no-website', 'ask-callback'],
+    ]);
+  });
+
+  it('skips unknown targets and is empty for unknown or missing scripts', () => {
+    expect(nextScripts([script('intro', 'GREETING', [['listening', 'missing']])], 'intro')).toEqual([]);
+    expect(nextScripts(LIBRARY, 'nope')).toEqual([]);
+    expect(nextScripts(LIBRARY)).toEqual([]);
+  });
+});
+
+describe('currentScriptId', () => {
+  it('is the script last selected or spoken, ignoring scripts only shown', () => {
+    expect(
+      currentScriptId([
+        { scriptId: 'intro', event: 'spoken', timestamp: 1 },
+        { scriptId: 'ask-website', event: 'selected', timestamp: 2 },
+        { scriptId: 'pitch', event: 'shown', timestamp: 3 },
+      ])
+    ).toBe('ask-website');
+  });
+
+  it('is undefined before any script is used', () => {
+    expect(currentScriptId()).toBeUndefined();
+    expect(currentScriptId([{ scriptId: 'intro', event: 'shown', timestamp: 1 }])).toBeUndefined();
+  });
+});
+
+describe('renderGraphviz', () => {
+  it('clusters scripts by stage, marks entry, terminal and flagged scripts, and labels edges', () => {
+    const graph = buildScriptGraph([...LIBRARY, script('orphan', 'VALUE_PROP', [['interested', 'ask-callback']])]);
+    const dot = renderGraphviz('Web "Design"', graph);
+
+    expect(dot.startsWith('digraph "Web \\"Design\\"" {\n')).toBe(true);
+    expect(dot).toContain('  subgraph "cluster_GREETING" {\n    label="GREETING";');
+    expect(dot).not.toContain('cluster_NEXT_STEPS');
+    expect(dot).toContain('"intro" [label="intro\\nintro", style=bold];');
+    expect(dot).toContain('"confirm" [label="confirm\\nconfirm", peripheries=2];');
+    expect(dot).toContain('"orphan" [label="orphan\\norphan", color=red];');
+    expect(dot).toContain('  "ask-website" -> "pitch" [label="has-website"];');
+    expect(dot.endsWith('}\n')).toBe(true);
+  });
+});
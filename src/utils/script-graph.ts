@@ -0,0 +1,139 @@
+import { CONVERSATION_STAGES, canTransition } from './stage-tracker';
+import type { ConversationStage, QualityScript, ScriptGraph, ScriptGraphIssue, ScriptUsage } from '../types';
+
+// Calls start with a GREETING script and end with a CONVERSION one
+const ENTRY_STAGE: ConversationStage = 'GREETING';
+const TERMINAL_STAGE: ConversationStage = 'CONVERSION';
+
+/**
+ * Where the call is in the playbook graph: the script last selected or spoken (from the usage ledger)
+ */
+export function currentScriptId(usage: ScriptUsage[] = []): string | undefined {
+  return [...usage].reverse().find((entry) => entry.event === 'selected' || entry.event === 'spoken')?.scriptId;
+}
+
+/**
+ * Scripts a script's transitions lead to, with the customer intent of each (unknown targets skipped)
+ */
+export function nextScripts(
+  scripts: QualityScript[],
+  fromScriptId?: string
+): Array<{ script: QualityScript; intent: string }> {
+  const from = scripts.find((script) => script.id === fromScriptId);
+
+  return (from?.next || []).flatMap((transition) => {
+    const script = scripts.find((candidate) => candidate.id === transition.scriptId);
+    return script ? [{ script, intent: transition.intent }] : [];
+  });
+}
+
+/**
+ * Nodes, edges and problems of a library's graph:
+ * - unknown_target: a transition to a script that is not in the library
+ * - stage_move: a transition the stage tracker would refuse (e.g. GREETING -> CLOSING)
+ * - unreachable: no path from a GREETING script
+ * - dead_end: a script before CONVERSION with no transitions
+ */
+export function buildScriptGraph(scripts: QualityScript[]): ScriptGraph {
+  const byId = new Map(scripts.map((script) => [script.id, script]));
+  const issues: ScriptGraphIssue[] = [];
+  const edges: ScriptGraph['edges'] = [];
+
+  for (const script of scripts) {
+    for (const transition of script.next || []) {
+      const target = byId.get(transition.scriptId);
+      if (!target) {
+        issues.push({
+          kind: 'unknown_target',
+          scriptId: script.id,
+          intent: transition.intent,
+          targetId: transition.scriptId,
+          message: `"${script.id}" leads to unknown script "${transition.scriptId}" (${transition.intent})`,
+        });
+        continue;
+      }
+
+      if (!canTransition(script.stage, target.stage)) {
+        issues.push({
+          kind: 'stage_move',
+          scriptId: script.id,
+          intent: transition.intent,
+          targetId: target.id,
+          message: `"${script.id}" (${script.stage}) -> "${target.id}" (${target.stage}) is a stage move the tracker refuses`,
+        });
+      }
+      edges.push({ from: script.id, to: target.id, intent: transition.intent });
+    }
+  }
+
+  // Breadth-first from every entry script
+  const reached = new Set(scripts.filter((script) => script.stage === ENTRY_STAGE).map((script) => script.id));
+  const queue = Array.from(reached);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const edge of edges.filter((candidate) => candidate.from === id && !reached.has(candidate.to))) {
+      reached.add(edge.to);
+      queue.push(edge.to);
+    }
+  }
+
+  for (const script of scripts) {
+    if (!reached.has(script.id)) {
+      issues.push({
+        kind: 'unreachable',
+        scriptId: script.id,
+        message: `No path from a ${ENTRY_STAGE} script to "${script.id}"`,
+      });
+    }
+    if (script.stage !== TERMINAL_STAGE && !edges.some((edge) => edge.from === script.id)) {
+      issues.push({ kind: 'dead_end', scriptId: script.id, message: `"${script.id}" has no transitions` });
+    }
+  }
+
+  return {
+    nodes: scripts.map((script) => ({
+      id: script.id,
+      stage: script.stage,
+      label: script.label,
+      entry: script.stage === ENTRY_STAGE,
+      terminal: script.stage === TERMINAL_STAGE,
+    })),
+    edges,
+    issues,
+  };
+}
+
+function quote(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+/**
+ * Graphviz DOT: one cluster per stage, entry scripts bold, CONVERSION scripts double-bordered,
+ * scripts with problems red
+ */
+export function renderGraphviz(name: string, graph: ScriptGraph): string {
+  const flagged = new Set(graph.issues.map((issue) => issue.scriptId));
+  const lines = [`digraph ${quote(name)} {`, '  rankdir=LR;', '  node [shape=box, fontname="Helvetica"];'];
+
+  for (const stage of CONVERSATION_STAGES) {
+    const nodes = graph.nodes.filter((node) => node.stage === stage);
+    if (nodes.length === 0) continue;
+
+    lines.push(`  subgraph ${quote(`cluster_${stage}`)} {`, `    label=${quote(stage)};`);
+    for (const node of nodes) {
+      const attributes = [`label=${quote(`${node.label}\n${node.id}`)}`];
+      if (node.entry) attributes.push('style=bold');
+      if (node.terminal) attributes.push('peripheries=2');
+      if (flagged.has(node.id)) attributes.push('color=red');
+      lines.push(`    ${quote(node.id)} [${attributes.join(', ')}];`);
+    }
+    lines.push('  }');
+  }
+
+  for (const edge of graph.edges) {
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)} [label=${quote(edge.intent)}];`);
+  }
+  lines.push('}');
+
+  return `${lines.join('\n')}\n`;
+}
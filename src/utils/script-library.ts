@@ -0,0 +1,124 @@
+import { CONVERSATION_STAGES } from './stage-tracker';
+import { DEFAULT_LANGUAGE, SCRIPT_LANGUAGES } from '../constants/languages';
+import type { QualityScript, ScriptChange, ScriptField } from '../types';
+
+const SCRIPT_FIELDS: ScriptField[] = ['stage', 'label', 'text', 'condition', 'next', 'translations'];
+
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * Problems with a script submitted to the library (empty = valid)
+ */
+export function validateScript(script: Partial<QualityScript>): string[] {
+  const problems: string[] = [];
+
+  if (typeof script.id !== 'string' || !ID_PATTERN.test(script.id)) {
+    problems.push('id must be lowercase letters, digits and dashes');
+  }
+  if (!CONVERSATION_STAGES.includes(script.stage as QualityScript['stage'])) {
+    problems.push(`stage must be one of ${CONVERSATION_STAGES.join(', ')}`);
+  }
+  if (typeof script.label !== 'string' || !script.label.trim()) {
+    problems.push('label is required');
+  }
+  if (typeof script.text !== 'string' || !script.text.trim()) {
+    problems.push('text is required');
+  }
+  if (script.condition !== undefined && typeof script.condition !== 'string') {
+    problems.push('condition must be a string');
+  }
+  if (script.next !== undefined) {
+    problems.push(...validateTransitions(script.next));
+  }
+  if (script.translations !== undefined) {
+    problems.push(...validateTranslations(script.translations));
+  }
+
+  return problems;
+}
+
+/**
+ * Translations are keyed by a supported language other than English, each with a label and text
+ */
+function validateTranslations(translations: unknown): string[] {
+  if (typeof translations !== 'object' || translations === null || Array.isArray(translations)) {
+    return ['translations must map languages to { label, text }'];
+  }
+
+  const languages = SCRIPT_LANGUAGES.filter((language) => language !== DEFAULT_LANGUAGE);
+  return Object.entries(translations).flatMap(([language, translation]) => {
+    if (!languages.includes(language as (typeof languages)[number])) {
+      return [`translations.${language}: language must be one of ${languages.join(', ')}`];
+    }
+
+    const problems: string[] = [];
+    if (typeof translation?.label !== 'string' || !translation.label.trim()) {
+      problems.push(`translations.${language}: label is required`);
+    }
+    if (typeof translation?.text !== 'string' || !translation.text.trim()) {
+      problems.push(`translations.${language}: text is required`);
+    }
+    return problems;
+  });
+}
+
+/**
+ * Transitions must name an intent (lowercase letters, digits and dashes) and a script id,
+ * each intent once. Whether the target exists is a graph check (see utils/script-graph)
+ */
+function validateTransitions(next: unknown): string[] {
+  if (!Array.isArray(next)) {
+    return ['next must be an array of { intent, scriptId }'];
+  }
+
+  const problems: string[] = [];
+  next.forEach((transition, index) => {
+    if (typeof transition?.intent !== 'string' || !ID_PATTERN.test(transition.intent)) {
+      problems.push(`next[${index}]: intent must be lowercase letters, digits and dashes`);
+    } else if (next.findIndex((other) => other?.intent === transition.intent) !== index) {
+      problems.push(`next[${index}]: duplicate intent "${transition.intent}"`);
+    }
+    if (typeof transition?.scriptId !== 'string' || !ID_PATTERN.test(transition.scriptId)) {
+      problems.push(`next[${index}]: scriptId must be a script id`);
+    }
+  });
+  return problems;
+}
+
+/**
+ * Changes from one library version to the next, in the order of the newer library
+ * (removed scripts last)
+ */
+export function diffLibraries(before: QualityScript[], after: QualityScript[]): ScriptChange[] {
+  const previous = new Map(before.map((script) => [script.id, script]));
+  const next = new Set(after.map((script) => script.id));
+  const changes: ScriptChange[] = [];
+
+  for (const script of after) {
+    const old = previous.get(script.id);
+    if (!old) {
+      changes.push({ scriptId: script.id, change: 'added' });
+      continue;
+    }
+
+    // Compared as JSON since next and translations are not strings
+    const fields = SCRIPT_FIELDS.filter(
+      (field) => JSON.stringify(old[field]) !== JSON.stringify(script[field])
+    ).map((field) => ({
+      field,
+      from: old[field],
+      to: script[field],
+    }));
+    if (fields.length > 0) {
+      changes.push({ scriptId: script.id, change: 'updated', fields });
+    }
+  }
+
+  for (const script of before) {
+    if (!next.has(script.id)) {
+      changes.push({ scriptId: script.id, change: 'removed' });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { availableScripts, blockedScriptIds, nextAlternativeScript, SCRIPT_COOLDOWN_MS } from './script-usage';
+import type { ScriptUsage, ScriptUsageEvent } from '../types';
+
+const NOW = 1_700_000_000_000;
+const SCRIPTS = [{ id: 'a' }, { id: 'b' }, { id: 'c' }, { id: 'd' }];
+
+function used(scriptId: string, event: ScriptUsageEvent, ago = 0): ScriptUsage {
+  return { scriptId, event, timestamp: NOW - ago };
+}
+
+describe('blockedScriptIds', () => {
+  it('blocks shown and selected scripts for their cooldown only', () => {
+    const usage = [used('a', 'shown', SCRIPT_COOLDOWN_MS.shown - 1), used('b', 'shown', SCRIPT_COOLDOWN_MS.shown)];
+    expect(blockedScriptIds(usage, NOW)).toEqual(new Set(['a']));
+
+    const selected = [
+      used('a', 'selected', SCRIPT_COOLDOWN_MS.selected - 1),
+      used('b', 'selected', SCRIPT_COOLDOWN_MS.selected),
+    ];
+    expect(blockedScriptIds(selected, NOW)).toEqual(new Set(['a']));
+  });
+
+  it('blocks a spoken script for the rest of the call', () => {
+    expect(blockedScriptIds([used('a', 'spoken', 24 * 3_600_000)], NOW)).toEqual(new Set(['a']));
+  });
+
+  it('keeps a script blocked while any of its uses is cooling down', () => {
+    const usage = [used('a', 'selected', 120_000), used('a', 'shown', 10 * 60_000)];
+
+    expect(blockedScriptIds(usage, NOW).has('a')).toBe(true);
+  });
+
+  it('blocks nothing without a ledger', () => {
+    expect(blockedScriptIds(undefined, NOW).size).toBe(0);
+  });
+});
+
+describe('availableScripts', () => {
+  it('drops blocked scripts and keeps library order', () => {
+    const usage = [used('c', 'spoken'), used('a', 'shown', 1000)];
+
+    expect(availableScripts(SCRIPTS, usage, NOW)).toEqual([{ id: 'b' }, { id: 'd' }]);
+  });
+
+  it('offers every script again once all of them are blocked', () => {
+    const usage = SCRIPTS.map((script) => used(script.id, 'spoken'));
+
+    expect(availableScripts(SCRIPTS, usage, NOW)).toEqual(SCRIPTS);
+  });
+});
+
+describe('nextAlternativeScript', () => {
+  it('rotates through unused scripts starting after the current one', () => {
+    expect(nextAlternativeScript(SCRIPTS, [used('b', 'shown'), used('c', 'shown')], 'b')?.id).toBe('d');
+    expect(nextAlternativeScript(SCRIPTS, [], 'd')?.id).toBe('a');
+    expect(nextAlternativeScript(SCRIPTS)?.id).toBe('a');
+  });
+
+  it('prefers scripts not spoken once every script was used', () => {
+    const usage = [used('a', 'spoken'), used('b', 'spoken'), used('c', 'shown'), used('d', 'selected')];
+
+    expect(nextAlternativeScript(SCRIPTS, usage, 'd')?.id).toBe('c');
+  });
+
+  it('takes the next script once every script was spoken', () => {
+    const usage = SCRIPTS.map((script) => used(script.id, 'spoken'));
+
+    expect(nextAlternativeScript(SCRIPTS, usage, 'b')?.id).toBe('c');
+  });
+
+  it('offers the current script when it is the only one, and nothing for an empty library', () => {
+    expect(nextAlternativeScript([{ id: 'a' }], [used('a', 'spoken')], 'a')?.id).toBe('a');
+    expect(nextAlternativeScript([], [], 'a')).toBeUndefined();
+  });
+});
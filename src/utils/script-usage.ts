@@ -0,0 +1,56 @@
+import type { ScriptUsage, ScriptUsageEvent } from '../types';
+
+// How long a script stays out of new tips after each kind of use. Scripts that were
+// only shown come back soonest; a script the agent actually said is never repeated
+export const SCRIPT_COOLDOWN_MS: Record<ScriptUsageEvent, number> = {
+  shown: 60_000,
+  selected: 180_000,
+  spoken: Number.POSITIVE_INFINITY,
+};
+
+/**
+ * Script ids a new tip should not offer right now (cooling down or already spoken)
+ */
+export function blockedScriptIds(usage: ScriptUsage[] = [], now = Date.now()): Set<string> {
+  return new Set(
+    usage.filter((entry) => now - entry.timestamp < SCRIPT_COOLDOWN_MS[entry.event]).map((entry) => entry.scriptId)
+  );
+}
+
+/**
+ * Scripts a new tip may offer according to the ledger
+ * When every script is blocked all of them are returned, so a tip always has something to offer
+ */
+export function availableScripts<T extends { id: string }>(
+  scripts: T[],
+  usage?: ScriptUsage[],
+  now = Date.now()
+): T[] {
+  const blocked = blockedScriptIds(usage, now);
+  const available = scripts.filter((script) => !blocked.has(script.id));
+  return available.length > 0 ? available : scripts;
+}
+
+/**
+ * Next script for an alternative tip, in library order starting after the current one:
+ * the first script not used on this call yet, then (once all were used) the first one
+ * not spoken, then simply the next one. Only the current script if it is the only one
+ */
+export function nextAlternativeScript<T extends { id: string }>(
+  scripts: T[],
+  usage: ScriptUsage[] = [],
+  currentScriptId?: string
+): T | undefined {
+  const current = scripts.findIndex((script) => script.id === currentScriptId);
+  const rotation = current >= 0 ? [...scripts.slice(current + 1), ...scripts.slice(0, current)] : scripts;
+
+  const used = new Set(usage.map((entry) => entry.scriptId));
+  const spoken = new Set(usage.filter((entry) => entry.event === 'spoken').map((entry) => entry.scriptId));
+
+  return (
+    rotation.find((script) => !used.has(script.id)) ??
+    rotation.find((script) => !spoken.has(script.id)) ??
+    rotation[0] ??
+    scripts[current]
+  );
+}
@@ -0,0 +1,39 @@
+import type { ConversationStage } from '../types';
+
+// Call flow order (GREETING -> ... -> CONVERSION)
+export const CONVERSATION_STAGES: ConversationStage[] = [
+  'GREETING',
+  'DISCOVERY',
+  'VALUE_PROP',
+  'OBJECTION_HANDLING',
+  'NEXT_STEPS',
+  'CLOSING',
+  'CONVERSION',
+];
+
+// Allowed moves out of each stage. Calls mostly move forward (skipping is fine),
+// an objection can come up at any point after the greeting, and after handling it
+// the agent can go back to the pitch. CONVERSION (callback agreed) is final.
+const STAGE_TRANSITIONS: Record<ConversationStage, ConversationStage[]> = {
+  GREETING: ['DISCOVERY', 'VALUE_PROP', 'OBJECTION_HANDLING'],
+  DISCOVERY: ['VALUE_PROP', 'OBJECTION_HANDLING', 'NEXT_STEPS', 'CLOSING'],
+  VALUE_PROP: ['DISCOVERY', 'OBJECTION_HANDLING', 'NEXT_STEPS', 'CLOSING'],
+  OBJECTION_HANDLING: ['DISCOVERY', 'VALUE_PROP', 'NEXT_STEPS', 'CLOSING'],
+  NEXT_STEPS: ['OBJECTION_HANDLING', 'CLOSING', 'CONVERSION'],
+  CLOSING: ['OBJECTION_HANDLING', 'NEXT_STEPS', 'CONVERSION'],
+  CONVERSION: [],
+};
+
+/**
+ * Whether the tracker may move from one stage to another (staying put is always allowed)
+ */
+export function canTransition(from: ConversationStage, to: ConversationStage): boolean {
+  return from === to || STAGE_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * The current stage plus every stage it may move to, in call flow order
+ */
+export function reachableStages(stage: ConversationStage): ConversationStage[] {
+  return CONVERSATION_STAGES.filter((candidate) => canTransition(stage, candidate));
+}
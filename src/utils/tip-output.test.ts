@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { classifyTipFailure, isRepairable, parseTipOutput, tipOutputSchema, TipOutputError } from './tip-output';
+import type { ConversationStage, TipFailureKind } from '../types';
+
+const VALID = {
+  heading: 'Ask Callback',
+  stage: 'CLOSING',
+  options: [{ id: 'ask-callback', label: 'Callback' }],
+  context: 'Customer is interested',
+};
+
+function failureKind(content: string, stages?: ConversationStage[]) {
+  try {
+    parseTipOutput(content, stages);
+  } catch (error) {
+    expect(error).toBeInstanceOf(TipOutputError);
+    return { kind: (error as TipOutputError).kind, message: (error as TipOutputError).message };
+  }
+  throw new Error('expected parseTipOutput to throw');
+}
+
+describe('parseTipOutput', () => {
+  it('accepts a bare JSON object and trims the heading', () => {
+    const tip = parseTipOutput(JSON.stringify({ ...VALID, heading: '  Ask Callback ' }));
+
+    expect(tip).toEqual(VALID);
+  });
+
+  it('accepts an object wrapped in a markdown code fence', () => {
+    expect(parseTipOutput('```json\n' + JSON.stringify(VALID) + '\n```')).toEqual(VALID);
+    expect(parseTipOutput('```\n' + JSON.stringify(VALID) + '\n```')).toEqual(VALID);
+  });
+
+  it('drops option fields other than id and label', () => {
+    const tip = parseTipOutput(
+      JSON.stringify({ ...VALID, options: [{ id: 'ask-callback', script: 'Invented wording' }] })
+    );
+
+    expect(tip.options).toEqual([{ id: 'ask-callback', label: undefined }]);
+  });
+
+  it('reports an empty response', () => {
+    expect(failureKind('  \n ').kind).toBe('empty_response');
+  });
+
+  it('reports text that is not JSON', () => {
+    expect(failureKind('Here is your tip: ask for a callback').kind).toBe('invalid_json');
+  });
+
+  it('reports JSON that is not an object', () => {
+    expect(failureKind('[1, 2]').kind).toBe('schema_violation');
+  });
+
+  it('lists every schema problem at once', () => {
+    const failure = failureKind(JSON.stringify({ heading: '', stage: 'SMALL_TALK', options: [] }));
+
+    expect(failure.kind).toBe('schema_violation');
+    expect(failure.message).toContain('"heading" must be a non-empty string');
+    expect(failure.message).toContain('"stage" must be one of');
+    expect(failure.message).toContain('"context" must be a string');
+    expect(failure.message).toContain('"options" must be a non-empty array');
+  });
+
+  it('rejects options without a string id', () => {
+    const failure = failureKind(JSON.stringify({ ...VALID, options: [{ label: 'Callback' }] }));
+
+    expect(failure.message).toContain('every option needs a string "id"');
+  });
+
+  it('only accepts the stages offered in the prompt', () => {
+    expect(failureKind(JSON.stringify(VALID), ['GREETING', 'DISCOVERY']).kind).toBe('schema_violation');
+    expect(parseTipOutput(JSON.stringify(VALID), ['CLOSING']).stage).toBe('CLOSING');
+  });
+});
+
+describe('tipOutputSchema', () => {
+  it('limits option ids and stages to those offered', () => {
+    const schema = tipOutputSchema(['ask-callback', 'final-close'], ['CLOSING']).schema as any;
+
+    expect(schema.properties.stage).toEqual({ type: 'string', enum: ['CLOSING'] });
+    expect(schema.properties.options.items.properties.id).toEqual({
+      type: 'string',
+      enum: ['ask-callback', 'final-close'],
+    });
+  });
+
+  it('leaves option ids open when no script is offered', () => {
+    const schema = tipOutputSchema([]).schema as any;
+
+    expect(schema.properties.options.items.properties.id).toEqual({ type: 'string' });
+  });
+});
+
+describe('classifyTipFailure', () => {
+  it('keeps the kind of a TipOutputError', () => {
+    expect(classifyTipFailure(new TipOutputError('unapproved_script', 'no library id'))).toBe('unapproved_script');
+  });
+
+  it('recognizes timeouts, spent budgets and empty provider responses', () => {
+    expect(classifyTipFailure(new Error('LLM request timed out after 8000ms'))).toBe('timeout');
+    expect(classifyTipFailure(new Error('LLM budget exceeded for agent a1'))).toBe('budget');
+    expect(classifyTipFailure(new Error('No response from openai'))).toBe('empty_response');
+  });
+
+  it('treats anything else as a transport failure', () => {
+    expect(classifyTipFailure(new Error('ECONNRESET'))).toBe('transport');
+  });
+});
+
+describe('isRepairable', () => {
+  it('retries output problems but not provider failures', () => {
+    const repairable: TipFailureKind[] = ['empty_response', 'invalid_json', 'schema_violation', 'unapproved_script'];
+    const final: TipFailureKind[] = ['timeout', 'budget', 'transport'];
+
+    expect(repairable.every(isRepairable)).toBe(true);
+    expect(final.some(isRepairable)).toBe(false);
+  });
+});
@@ -0,0 +1,137 @@
+import { CONVERSATION_STAGES } from './stage-tracker';
+import type { ConversationStage, LLMJsonSchema, TipFailureKind } from '../types';
+
+// Failures a second attempt (with the error in the prompt) can fix
+const REPAIRABLE_FAILURES: TipFailureKind[] = ['empty_response', 'invalid_json', 'schema_violation', 'unapproved_script'];
+
+/**
+ * What every tip prompt must return (greeting, contextual, periodic)
+ * Only script ids are trusted; text and labels come from the golden script library
+ */
+export interface TipOutput {
+  heading: string;
+  stage: ConversationStage;
+  options: Array<{ id: string; label?: string }>;
+  context: string;
+}
+
+/**
+ * A tip response that cannot be shown, tagged with why
+ */
+export class TipOutputError extends Error {
+  constructor(
+    readonly kind: TipFailureKind,
+    message: string
+  ) {
+    super(message);
+    this.name = 'TipOutputError';
+  }
+}
+
+/**
+ * JSON schema of TipOutput for structured-output providers
+ * Option ids and stages are limited to the scripts and stages offered in the prompt
+ */
+export function tipOutputSchema(
+  scriptIds: string[],
+  stages: ConversationStage[] = CONVERSATION_STAGES
+): LLMJsonSchema {
+  return {
+    name: 'coaching_tip',
+    schema: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['heading', 'stage', 'options', 'context'],
+      properties: {
+        heading: { type: 'string', description: '2-word max heading' },
+        stage: { type: 'string', enum: stages },
+        options: {
+          type: 'array',
+          items: {
+            type: 'object',
+            additionalProperties: false,
+            required: ['id', 'label'],
+            properties: {
+              id: scriptIds.length > 0 ? { type: 'string', enum: scriptIds } : { type: 'string' },
+              label: { type: 'string' },
+            },
+          },
+        },
+        context: { type: 'string', description: 'Why this script fits' },
+      },
+    },
+  };
+}
+
+/**
+ * Parse and validate a tip response against the TipOutput contract
+ * Accepts a bare object or one wrapped in a markdown code fence; anything else throws TipOutputError
+ */
+export function parseTipOutput(content: string, stages: ConversationStage[] = CONVERSATION_STAGES): TipOutput {
+  const trimmed = content.trim();
+  if (!trimmed) {
+    throw new TipOutputError('empty_response', 'Response was empty');
+  }
+
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  let value: any;
+  try {
+    value = JSON.parse(fenced ? fenced[1] : trimmed);
+  } catch (error: any) {
+    throw new TipOutputError('invalid_json', `Response is not valid JSON: ${error.message}`);
+  }
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new TipOutputError('schema_violation', 'Response must be a JSON object');
+  }
+
+  const problems: string[] = [];
+  if (typeof value.heading !== 'string' || !value.heading.trim()) {
+    problems.push('"heading" must be a non-empty string');
+  }
+  if (!stages.includes(value.stage)) {
+    problems.push(`"stage" must be one of ${stages.join(', ')}`);
+  }
+  if (typeof value.context !== 'string') {
+    problems.push('"context" must be a string');
+  }
+  if (!Array.isArray(value.options) || value.options.length === 0) {
+    problems.push('"options" must be a non-empty array');
+  } else if (
+    value.options.some(
+      (option: any) =>
+        typeof option?.id !== 'string' || !option.id || (option.label !== undefined && typeof option.label !== 'string')
+    )
+  ) {
+    problems.push('every option needs a string "id" (and an optional string "label")');
+  }
+
+  if (problems.length > 0) {
+    throw new TipOutputError('schema_violation', `Response does not match the tip schema: ${problems.join('; ')}`);
+  }
+
+  return {
+    heading: value.heading.trim(),
+    stage: value.stage,
+    options: value.options.map((option: any) => ({ id: option.id, label: option.label })),
+    context: value.context,
+  };
+}
+
+/**
+ * Classify any error from a tip request
+ */
+export function classifyTipFailure(error: Error): TipFailureKind {
+  if (error instanceof TipOutputError) return error.kind;
+  if (/timed out/.test(error.message)) return 'timeout';
+  if (/budget exceeded/.test(error.message)) return 'budget';
+  if (/^No response from/.test(error.message)) return 'empty_response';
+  return 'transport';
+}
+
+/**
+ * Whether a failure kind is worth one repair retry
+ */
+export function isRepairable(kind: TipFailureKind): boolean {
+  return REPAIRABLE_FAILURES.includes(kind);
+}
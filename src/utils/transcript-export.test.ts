@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { renderConversationExport } from './transcript-export';
+import type { AIRecommendation, Conversation, TranscriptSegment } from '../types';
+
+const START = 1_700_000_000_000;
+
+function conversation(segments: Array<[TranscriptSegment['speaker'], string, number]>): Conversation {
+  return {
+    id: 'conv-1',
+    agentId: 'agent-1',
+    startTime: START,
+    metadata: {},
+    transcriptHistory: segments.map(([speaker, text, offset]) => ({
+      speaker,
+      text,
+      timestamp: START + offset,
+      confidence: 0.9,
+    })),
+  } as Conversation;
+}
+
+const TIP = {
+  id: 'rec-1',
+  conversationId: 'conv-1',
+  recommendationId: 'rec-1',
+  stage: 'GREETING',
+  heading: 'Build Rapport',
+  options: [{ label: 'Minimal', script: 'Sure thing' }],
+  selectedOption: 1,
+  timestamp: START + 1000,
+} as AIRecommendation;
+
+describe('renderConversationExport', () => {
+  it('ends each SRT cue where the next segment starts', () => {
+    const call = conversation([
+      ['agent', 'Hi there, this is Dave', 0],
+      ['caller', 'Who?', 1500],
+    ]);
+
+    expect(renderConversationExport('srt', call, [], { includeTips: false })).toBe(
+      '1\n00:00:00,000 --> 00:00:01,500\nAgent: Hi there, this is Dave\n\n' +
+        '2\n00:00:01,500 --> 00:00:02,500\nCustomer: Who?\n'
+    );
+  });
+
+  it('estimates cue length from the word count when the next segment is far away', () => {
+    const call = conversation([
+      ['agent', 'Hello', 0],
+      ['caller', 'one two three four five six seven eight nine ten', 60_000],
+    ]);
+
+    const srt = renderConversationExport('srt', call, [], { includeTips: false });
+
+    expect(srt).toContain('00:00:00,000 --> 00:00:01,000\nAgent: Hello');
+    expect(srt).toContain('00:01:00,000 --> 00:01:04,000\nCustomer: one two');
+  });
+
+  it('formats hours and milliseconds, and clamps segments before the call start to 0', () => {
+    const call = conversation([
+      ['caller', 'Early', -500],
+      ['agent', 'Still there?', 3_723_004],
+    ]);
+
+    const srt = renderConversationExport('srt', call, [], { includeTips: false });
+
+    expect(srt).toContain('00:00:00,000 --> 00:00:01,000\nCustomer: Early');
+    expect(srt).toContain('01:02:03,004 --> 01:02:04,004\nAgent: Still there?');
+  });
+
+  it('writes WebVTT with dot separators, voice tags and escaped text', () => {
+    const call = conversation([['caller', 'Smith & Sons <Plumbing>', 2000]]);
+
+    expect(renderConversationExport('vtt', call, [], { includeTips: false })).toBe(
+      'WEBVTT\n\n00:00:02.000 --> 00:00:03.600\n<v Customer>Smith &amp; Sons &lt;Plumbing&gt;\n'
+    );
+  });
+
+  it('places tip cues in time order when tips are included', () => {
+    const call = conversation([
+      ['agent', 'Hi', 0],
+      ['caller', 'Hello', 2000],
+    ]);
+
+    const srt = renderConversationExport('srt', call, [TIP], { includeTips: true });
+
+    expect(srt.split('\n\n')).toEqual([
+      '1\n00:00:00,000 --> 00:00:01,000\nAgent: Hi',
+      '2\n00:00:01,000 --> 00:00:03,000\nCoach: [AI TIP] Build Rapport (selected: Minimal) - Sure thing',
+      '3\n00:00:02,000 --> 00:00:03,000\nCustomer: Hello\n',
+    ]);
+  });
+
+  it('quotes CSV fields with commas and quotes', () => {
+    const call = conversation([['caller', 'Well, "maybe"', 0]]);
+
+    const [header, row] = renderConversationExport('csv', call, [], { includeTips: false }).split('\r\n');
+
+    expect(header).toBe('type,offset_ms,timestamp,speaker,text,confidence,recommendation_id,stage,selected_option');
+    expect(row).toBe(`transcript,0,${new Date(START).toISOString()},Customer,"Well, ""maybe""",0.9,,,`);
+  });
+});
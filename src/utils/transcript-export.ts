@@ -0,0 +1,197 @@
+import type { AIRecommendation, Conversation, TranscriptSegment } from '../types';
+
+export type ExportFormat = 'json' | 'csv' | 'srt' | 'vtt';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'csv', 'srt', 'vtt'];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  srt: 'application/x-subrip; charset=utf-8',
+  vtt: 'text/vtt; charset=utf-8',
+};
+
+export interface ExportOptions {
+  includeTips: boolean; // Inline tip markers (csv / srt / vtt; json always includes tips)
+}
+
+interface Cue {
+  start: number; // ms from call start
+  end: number;
+  speaker: string;
+  text: string;
+}
+
+// Last cue has no following segment to end at: estimate from word count
+const MS_PER_WORD = 400;
+const MIN_CUE_MS = 1000;
+const MAX_CUE_MS = 10000;
+const TIP_CUE_MS = 2000;
+
+const SPEAKER_LABELS: Record<TranscriptSegment['speaker'], string> = {
+  agent: 'Agent',
+  caller: 'Customer',
+};
+
+/**
+ * Offset of a timestamp from call start (never negative)
+ */
+function offsetOf(conversation: Conversation, timestamp: number): number {
+  return Math.max(0, timestamp - conversation.startTime);
+}
+
+function estimateDuration(text: string): number {
+  const words = text.trim().split(/\s+/).length;
+  return Math.min(MAX_CUE_MS, Math.max(MIN_CUE_MS, words * MS_PER_WORD));
+}
+
+function tipText(tip: AIRecommendation): string {
+  const option = tip.options[(tip.selectedOption || 1) - 1] || tip.options[0];
+  const selected = tip.selectedOption ? ` (selected: ${option?.label})` : '';
+  return `[AI TIP] ${tip.heading}${selected}${option ? ` - ${option.script}` : ''}`;
+}
+
+/**
+ * Build timed cues: each segment lasts until the next one starts (or an estimate for the last)
+ */
+function buildCues(conversation: Conversation, tips: AIRecommendation[], options: ExportOptions): Cue[] {
+  const segments = conversation.transcriptHistory;
+
+  const cues: Cue[] = segments.map((segment, index) => {
+    const start = offsetOf(conversation, segment.timestamp);
+    const next = segments[index + 1];
+    const estimatedEnd = start + estimateDuration(segment.text);
+    const end = next ? Math.min(estimatedEnd, Math.max(start + 1, offsetOf(conversation, next.timestamp))) : estimatedEnd;
+
+    return { start, end, speaker: SPEAKER_LABELS[segment.speaker], text: segment.text };
+  });
+
+  if (options.includeTips) {
+    tips.forEach((tip) => {
+      const start = offsetOf(conversation, tip.timestamp);
+      cues.push({ start, end: start + TIP_CUE_MS, speaker: 'Coach', text: tipText(tip) });
+    });
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * HH:MM:SS,mmm (SRT) or HH:MM:SS.mmm (WebVTT)
+ */
+function formatTimestamp(ms: number, separator: ',' | '.'): string {
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function renderJson(conversation: Conversation, tips: AIRecommendation[]): string {
+  const { transcriptHistory, ...record } = conversation;
+
+  return JSON.stringify(
+    {
+      conversation: record,
+      transcript: transcriptHistory.map((segment) => ({
+        ...segment,
+        offsetMs: offsetOf(conversation, segment.timestamp),
+      })),
+      tips: tips.map((tip) => ({ ...tip, offsetMs: offsetOf(conversation, tip.timestamp) })),
+    },
+    null,
+    2
+  );
+}
+
+function renderCsv(conversation: Conversation, tips: AIRecommendation[], options: ExportOptions): string {
+  const header = ['type', 'offset_ms', 'timestamp', 'speaker', 'text', 'confidence', 'recommendation_id', 'stage', 'selected_option'];
+
+  const rows: { offset: number; fields: unknown[] }[] = conversation.transcriptHistory.map((segment) => ({
+    offset: offsetOf(conversation, segment.timestamp),
+    fields: [
+      'transcript',
+      offsetOf(conversation, segment.timestamp),
+      new Date(segment.timestamp).toISOString(),
+      SPEAKER_LABELS[segment.speaker],
+      segment.text,
+      segment.confidence,
+      '',
+      '',
+      '',
+    ],
+  }));
+
+  if (options.includeTips) {
+    tips.forEach((tip) => {
+      rows.push({
+        offset: offsetOf(conversation, tip.timestamp),
+        fields: [
+          'tip',
+          offsetOf(conversation, tip.timestamp),
+          new Date(tip.timestamp).toISOString(),
+          'Coach',
+          tipText(tip),
+          '',
+          tip.recommendationId,
+          tip.stage,
+          tip.selectedOption ?? '',
+        ],
+      });
+    });
+  }
+
+  return [header, ...rows.sort((a, b) => a.offset - b.offset).map((row) => row.fields)]
+    .map((fields) => fields.map(csvField).join(','))
+    .join('\r\n') + '\r\n';
+}
+
+function renderSrt(cues: Cue[]): string {
+  return cues
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.speaker}: ${cue.text}\n`
+    )
+    .join('\n');
+}
+
+function renderVtt(cues: Cue[]): string {
+  const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+  return (
+    'WEBVTT\n\n' +
+    cues
+      .map(
+        (cue) =>
+          `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n<v ${cue.speaker}>${escape(cue.text)}\n`
+      )
+      .join('\n')
+  );
+}
+
+/**
+ * Render a stored conversation (with full transcript) and its tips
+ */
+export function renderConversationExport(
+  format: ExportFormat,
+  conversation: Conversation,
+  tips: AIRecommendation[],
+  options: ExportOptions
+): string {
+  switch (format) {
+    case 'json':
+      return renderJson(conversation, tips);
+    case 'csv':
+      return renderCsv(conversation, tips, options);
+    case 'srt':
+      return renderSrt(buildCues(conversation, tips, options));
+    case 'vtt':
+      return renderVtt(buildCues(conversation, tips, options));
+  }
+}